@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { KeyRound, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { clearDevSigner, loadDevSigner } from "@/lib/phantasmaClient";
+
+import { useActiveNetwork } from "../hooks/useActiveNetwork";
+import { useDevSigner } from "../hooks/useDevSigner";
+
+function LoadDevSignerDialog({ onClose }: { onClose: () => void }) {
+  const network = useActiveNetwork();
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setChecking(true);
+    const result = await loadDevSigner(secret).finally(() => setChecking(false));
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setSecret("");
+    toast.warning(`Dev signer ${result.address} is signing on ${network.label}. Phantasma Link is bypassed.`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>Local dev signer</CardTitle>
+          <Button type="button" size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-3 text-sm" onSubmit={(event) => void handleSubmit(event)}>
+            <div className="text-muted-foreground">
+              Signs and broadcasts transactions on {network.label} with a private key instead of Phantasma Link. Meant
+              for testnet automation and QA. The key is kept in memory for this tab only and is dropped on reload or
+              when switching to mainnet.
+            </div>
+            <input
+              type="password"
+              className="w-full rounded border px-3 py-2 font-mono"
+              placeholder="WIF (L… / K…) or 64-character hex private key"
+              value={secret}
+              onChange={(e) => {
+                setSecret(e.target.value);
+                setError(null);
+              }}
+              autoComplete="off"
+              spellCheck={false}
+            />
+            {error && <div className="text-xs text-red-500">{error}</div>}
+            <Button type="submit" size="sm" disabled={checking}>
+              {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+              Use this key
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Header entry for the local dev signer: a button to load a key, or a loud badge while one
+// is signing. Only rendered on non-mainnet networks.
+export function DevSignerControl() {
+  const address = useDevSigner();
+  const [loading, setLoading] = useState(false);
+
+  if (address) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 rounded-md border border-dashed border-amber-500/60 bg-amber-500/10 px-2 py-1 font-mono text-xs text-amber-600"
+        title={`Transactions are signed locally by ${address}, not by Phantasma Link`}
+      >
+        <KeyRound className="h-3 w-3" />
+        DEV SIGNER {address.slice(0, 6)}…{address.slice(-4)}
+        <button
+          type="button"
+          className="ml-1 rounded p-0.5 hover:bg-amber-500/20"
+          onClick={() => {
+            clearDevSigner();
+            toast("Dev signer removed; Phantasma Link signs again.");
+          }}
+          title="Forget the key and go back to Phantasma Link"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <Button type="button" variant="ghost" size="sm" onClick={() => setLoading(true)} title="Sign with a local key">
+        <KeyRound className="h-4 w-4" />
+      </Button>
+      {loading && <LoadDevSignerDialog onClose={() => setLoading(false)} />}
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState, type MouseEvent, type ReactNode } from "react";
+import { Check, Copy, ExternalLink } from "lucide-react";
+import { toast } from "sonner";
+
+import { explorerUrl, type ExplorerLinkKind } from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+import { useActiveNetwork } from "../hooks/useActiveNetwork";
+import { truncateMiddle } from "../utils/nftHelpers";
+
+type ExplorerLinkProps = {
+  // Omit for identifiers the explorer has no page for (e.g. Carbon NFT addresses): copy only.
+  kind?: ExplorerLinkKind;
+  value: string;
+  // Token symbol, required for NFT links.
+  symbol?: string;
+  // Shown instead of the value; the full value stays in the tooltip.
+  label?: ReactNode;
+  maxLength?: number;
+  tailLength?: number;
+  className?: string;
+};
+
+const KIND_LABELS: Record<ExplorerLinkKind, string> = {
+  tx: "transaction hash",
+  address: "address",
+  token: "token symbol",
+  nft: "NFT ID",
+};
+
+function linkValues(kind: ExplorerLinkKind, value: string, symbol?: string): Record<string, string> {
+  switch (kind) {
+    case "tx":
+      return { hash: value };
+    case "address":
+      return { address: value };
+    case "token":
+      return { symbol: value };
+    case "nft":
+      return { id: value, symbol: symbol ?? "" };
+  }
+}
+
+// Identifier with copy and "open in explorer" actions. Clicks do not bubble, so it can sit
+// inside selectable cards.
+export function ExplorerLink({ kind, value, symbol, label, maxLength, tailLength, className }: ExplorerLinkProps) {
+  const network = useActiveNetwork();
+  const [copied, setCopied] = useState(false);
+  const href = kind ? explorerUrl(kind, linkValues(kind, value, symbol), network) : null;
+  const what = kind ? KIND_LABELS[kind] : "value";
+
+  useEffect(() => {
+    if (!copied) return;
+    const handle = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(handle);
+  }, [copied]);
+
+  const handleCopy = (event: MouseEvent) => {
+    event.stopPropagation();
+    if (typeof navigator === "undefined" || !navigator.clipboard?.writeText) {
+      toast.error("Clipboard is not available");
+      return;
+    }
+    navigator.clipboard
+      .writeText(value)
+      .then(() => setCopied(true))
+      .catch(() => toast.error("Copy failed"));
+  };
+
+  if (!value) return null;
+
+  return (
+    <span className={cn("inline-flex min-w-0 items-center gap-1", className)}>
+      <span className="truncate font-mono" title={value}>
+        {label ?? (maxLength ? truncateMiddle(value, maxLength, tailLength) : value)}
+      </span>
+      <button
+        type="button"
+        className="inline-flex shrink-0 items-center rounded p-0.5 text-muted-foreground transition hover:text-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
+        onClick={handleCopy}
+        title={copied ? "Copied!" : `Copy ${what}`}
+      >
+        {copied ? <Check className="h-3 w-3 text-emerald-600" /> : <Copy className="h-3 w-3" />}
+      </button>
+      {href && (
+        <a
+          href={href}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex shrink-0 items-center rounded p-0.5 text-muted-foreground transition hover:text-foreground"
+          onClick={(event) => event.stopPropagation()}
+          title={`Open ${what} in the block explorer`}
+        >
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+    </span>
+  );
+}
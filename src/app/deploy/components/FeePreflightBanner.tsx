@@ -0,0 +1,77 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { formatFeePreflightIssue } from "@/lib/phantasmaClient";
+
+import type { FeePreflightState } from "../hooks/useFeePreflight";
+import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
+
+type FeePreflightBannerProps = {
+  preflight: FeePreflightState;
+};
+
+export function FeePreflightBanner({ preflight }: FeePreflightBannerProps) {
+  const { address, report, loading, error, refresh } = preflight;
+  if (!address) return null;
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking KCAL/SOUL balances…
+      </div>
+    );
+  }
+
+  const refreshButton = (
+    <Button type="button" size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={refresh} disabled={loading}>
+      <RefreshCw className={`mr-1 h-3 w-3 ${loading ? "animate-spin" : ""}`} />
+      Recheck
+    </Button>
+  );
+
+  if (error) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-600">
+        <AlertTriangle className="h-4 w-4" />
+        <span className="flex-1">
+          Could not check fee balances ({error}). The transaction fails on chain if the account cannot pay.
+        </span>
+        {refreshButton}
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  if (!report.ok) {
+    return (
+      <div className="space-y-1 rounded-md border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-600">
+        <div className="flex flex-wrap items-center gap-2">
+          <XCircle className="h-4 w-4" />
+          <span className="flex-1 font-medium">The connected account cannot cover the maximum fees</span>
+          {refreshButton}
+        </div>
+        <ul className="list-disc pl-6">
+          {report.issues.map((issue) => (
+            <li key={issue.symbol}>{formatFeePreflightIssue(issue)}</li>
+          ))}
+        </ul>
+        <div>Top up the account or lower the limits under Fees &amp; limits.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+      <span className="flex-1">
+        Balances cover the maximum fees (KCAL <span className="font-mono">{formatKcalAmount(report.balances.kcal)}</span>,
+        SOUL <span className="font-mono">{formatSoulAmount(report.balances.soul)}</span>)
+      </span>
+      {refreshButton}
+    </div>
+  );
+}
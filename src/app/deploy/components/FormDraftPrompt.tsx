@@ -0,0 +1,47 @@
+"use client";
+
+import { History, Save } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import type { FormDraftState } from "../hooks/useFormDraft";
+import { formatTimeAgo } from "../utils/timeFormatting";
+
+type FormDraftPromptProps = {
+  draft: FormDraftState;
+};
+
+// Restore/discard prompt for a saved draft, or a quiet autosave note once the draft is handled.
+export function FormDraftPrompt({ draft }: FormDraftPromptProps) {
+  const { pending, savedAt, error, restore, discard } = draft;
+
+  if (pending) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-sky-500/40 bg-sky-500/10 px-3 py-2 text-sm">
+        <History className="h-4 w-4 text-sky-600" />
+        <span className="flex-1">
+          Unsaved draft <span className="font-medium">{pending.label}</span> from{" "}
+          <span title={new Date(pending.updatedAt).toLocaleString()}>{formatTimeAgo(pending.updatedAt)}</span>.
+        </span>
+        <Button type="button" size="sm" onClick={restore}>
+          Restore draft
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={discard}>
+          Discard
+        </Button>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-xs text-muted-foreground">Drafts are not saved: {error}</div>;
+  }
+
+  if (!savedAt) return null;
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground" title={new Date(savedAt).toLocaleString()}>
+      <Save className="h-3 w-3" />
+      Draft saved {formatTimeAgo(savedAt)}
+    </div>
+  );
+}
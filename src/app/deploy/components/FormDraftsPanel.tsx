@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, FileClock, FolderOpen, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { FormDraft } from "@/lib/phantasmaClient";
+
+import type { TokenActionTab } from "../types";
+import { formatTimeAgo } from "../utils/timeFormatting";
+
+type FormDraftsPanelProps = {
+  drafts: FormDraft[];
+  error: string | null;
+  networkLabel: string;
+  hasWalletAddress: boolean;
+  onOpenDraft: (tab: TokenActionTab, tokenSymbol: string | null) => void;
+  onRemoveDraft: (key: string) => void;
+};
+
+const TAB_LABELS: Record<string, string> = {
+  deploy: "Deploy",
+  series: "Series",
+  mint: "Mint",
+  infuse: "Infuse",
+  burn: "Burn",
+  broadcast: "Broadcast",
+};
+
+// Relative times are re-rendered on this interval while the panel is open.
+const CLOCK_TICK_MS = 30_000;
+
+export function FormDraftsPanel({
+  drafts,
+  error,
+  networkLabel,
+  hasWalletAddress,
+  onOpenDraft,
+  onRemoveDraft,
+}: FormDraftsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!expanded) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [expanded, drafts]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <button
+            type="button"
+            className="flex items-center gap-2 text-left focus:outline-none"
+            onClick={() => setExpanded((prev) => !prev)}
+            aria-expanded={expanded}
+          >
+            <ChevronDown size={16} className={`transition-transform ${expanded ? "rotate-180" : ""}`} />
+            <span className="flex items-center gap-2">
+              <FileClock size={16} />
+              Drafts
+              <span className="text-sm font-normal text-muted-foreground">
+                ({drafts.length} on {networkLabel})
+              </span>
+            </span>
+          </button>
+        </CardTitle>
+      </CardHeader>
+      {expanded && (
+        <CardContent className="space-y-2 text-sm">
+          {error && <div className="text-xs text-red-500">{error}</div>}
+          {!hasWalletAddress ? (
+            <div className="text-muted-foreground">Connect wallet to see its saved drafts.</div>
+          ) : drafts.length === 0 ? (
+            <div className="text-muted-foreground">
+              No drafts yet. Form inputs are saved here automatically as you type.
+            </div>
+          ) : (
+            drafts.map((draft) => (
+              <div key={draft.key} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    <span className="mr-2 text-xs uppercase text-muted-foreground">
+                      {TAB_LABELS[draft.scope.tab] ?? draft.scope.tab}
+                    </span>
+                    {draft.label}
+                  </div>
+                  <div className="text-xs text-muted-foreground" title={new Date(draft.updatedAt).toLocaleString()}>
+                    Last edited {formatTimeAgo(draft.updatedAt, now)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onOpenDraft(draft.scope.tab as TokenActionTab, draft.scope.token)}
+                  >
+                    <FolderOpen className="mr-2 h-4 w-4" /> Open
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    title="Delete draft"
+                    onClick={() => onRemoveDraft(draft.key)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
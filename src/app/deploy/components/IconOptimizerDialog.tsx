@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Wand2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+import { formatBytes } from "../utils/byteFormatting";
+import {
+  computeSquareCrop,
+  dataUriPayloadChars,
+  loadIconSource,
+  optimizeIcon,
+  readFileAsDataUri,
+  type IconOptimizeResult,
+  type IconSource,
+} from "../utils/iconOptimizer";
+
+type IconOptimizerDialogProps = {
+  file: File;
+  // Base64 payload budget for the icon.
+  maxPayloadChars: number;
+  // False when the budget is the static cap because the form could not be measured yet.
+  budgetMeasured: boolean;
+  onApply: (dataUri: string, label: string) => void;
+  onCancel: () => void;
+};
+
+const OPTIMIZE_DEBOUNCE_MS = 150;
+// Uploads that can be kept byte-for-byte when they already fit.
+const KEEPABLE_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/webp"]);
+
+function formatLabel(mimeType: string): string {
+  return mimeType.replace("image/", "").replace("+xml", "").toUpperCase();
+}
+
+export function IconOptimizerDialog({ file, maxPayloadChars, budgetMeasured, onApply, onCancel }: IconOptimizerDialogProps) {
+  const [source, setSource] = useState<IconSource | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [originalDataUri, setOriginalDataUri] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [panX, setPanX] = useState(0.5);
+  const [panY, setPanY] = useState(0.5);
+  const [result, setResult] = useState<IconOptimizeResult | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    loadIconSource(file).then(
+      (loaded) => {
+        url = loaded.url;
+        if (cancelled) {
+          URL.revokeObjectURL(loaded.url);
+          return;
+        }
+        setSource(loaded);
+      },
+      (err: unknown) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    if (KEEPABLE_MIME_TYPES.has(file.type)) {
+      readFileAsDataUri(file).then(
+        (dataUri) => {
+          if (!cancelled) setOriginalDataUri(dataUri);
+        },
+        () => undefined,
+      );
+    }
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  const crop = useMemo(
+    () => (source ? computeSquareCrop(source.width, source.height, zoom, panX, panY) : null),
+    [source, zoom, panX, panY],
+  );
+
+  useEffect(() => {
+    if (!source || !crop) return;
+    setOptimizing(true);
+    const timer = setTimeout(() => {
+      setResult(optimizeIcon(source, crop, maxPayloadChars));
+      setOptimizing(false);
+    }, OPTIMIZE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [source, crop, maxPayloadChars]);
+
+  const isSquare = source ? source.width === source.height : false;
+  const originalFits =
+    !!originalDataUri && isSquare && dataUriPayloadChars(originalDataUri) <= maxPayloadChars;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="max-h-[90vh] w-full max-w-2xl overflow-y-auto">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>Optimise icon</CardTitle>
+          <Button type="button" size="icon" variant="ghost" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="text-xs text-muted-foreground">
+            Budget: <span className="font-mono">{maxPayloadChars.toLocaleString()}</span> base64 chars (~
+            {formatBytes(Math.floor((maxPayloadChars / 4) * 3))}){" "}
+            {budgetMeasured
+              ? "left for the icon after the other metadata."
+              : "by default. Fill in the symbol and metadata to measure the exact room left."}
+          </div>
+
+          {loadError && <div className="text-xs text-red-500">{loadError}</div>}
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">Before</div>
+              <div className="flex h-56 items-center justify-center rounded border bg-muted/30 p-2">
+                {source && crop ? (
+                  <div className="relative inline-block">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={source.url} alt="Original icon" className="block max-h-52 w-auto" />
+                    <div
+                      className="pointer-events-none absolute border-2 border-dashed border-emerald-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+                      style={{
+                        left: `${(crop.x / source.width) * 100}%`,
+                        top: `${(crop.y / source.height) * 100}%`,
+                        width: `${(crop.size / source.width) * 100}%`,
+                        height: `${(crop.size / source.height) * 100}%`,
+                      }}
+                    />
+                  </div>
+                ) : (
+                  !loadError && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {file.name} · {formatLabel(file.type || "image/unknown")} · {formatBytes(file.size)}
+                {source && (
+                  <>
+                    {" "}
+                    · {source.width}×{source.height}
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">After</div>
+              <div className="flex h-56 items-center justify-center rounded border bg-muted/30 p-2">
+                {optimizing || !result ? (
+                  !loadError && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : result.success ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={result.icon.dataUri} alt="Optimised icon" className="max-h-52 object-contain" />
+                ) : (
+                  <div className="text-center text-xs text-red-500">{result.error}</div>
+                )}
+              </div>
+              {result?.success && !optimizing && (
+                <div className="text-xs text-muted-foreground">
+                  {formatLabel(result.icon.mimeType)}
+                  {result.icon.quality !== null && ` q${Math.round(result.icon.quality * 100)}`} · {result.icon.dimension}×
+                  {result.icon.dimension} · {formatBytes(result.icon.approxBytes)} ·{" "}
+                  <span className="font-mono">{result.icon.payloadChars.toLocaleString()}</span> chars
+                  {file.size > 0 && ` (${Math.round((result.icon.approxBytes / file.size) * 100)}% of original)`}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <label className="space-y-1 text-xs">
+              <span className="block font-medium">Zoom ({zoom.toFixed(1)}×)</span>
+              <input
+                type="range"
+                min={1}
+                max={4}
+                step={0.1}
+                value={zoom}
+                onChange={(e) => setZoom(Number(e.target.value))}
+                className="w-full"
+                disabled={!source}
+              />
+            </label>
+            <label className="space-y-1 text-xs">
+              <span className="block font-medium">Horizontal</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={panX}
+                onChange={(e) => setPanX(Number(e.target.value))}
+                className="w-full"
+                disabled={!source || !crop || crop.size >= source.width}
+              />
+            </label>
+            <label className="space-y-1 text-xs">
+              <span className="block font-medium">Vertical</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={panY}
+                onChange={(e) => setPanY(Number(e.target.value))}
+                className="w-full"
+                disabled={!source || !crop || crop.size >= source.height}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+            {originalFits && originalDataUri && (
+              <Button type="button" variant="outline" onClick={() => onApply(originalDataUri, file.name)}>
+                Keep original
+              </Button>
+            )}
+            <Button
+              type="button"
+              disabled={optimizing || !result?.success}
+              onClick={() => {
+                if (result?.success) {
+                  const baseName = file.name.replace(/\.[^.]+$/, "");
+                  onApply(result.icon.dataUri, `${baseName} (${result.icon.dimension}px ${formatLabel(result.icon.mimeType)})`);
+                }
+              }}
+            >
+              <Wand2 className="mr-2 h-4 w-4" />
+              Use optimised icon
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, Globe, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  addCustomNetwork,
+  EXPLORER_PLACEHOLDERS,
+  isMainnetProfile,
+  isSandboxProfile,
+  removeCustomNetwork,
+  setActiveNetwork,
+  setExplorerTemplates,
+  splitRpcUrls,
+  type ExplorerTemplates,
+  type NetworkProfile,
+} from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+import { useActiveNetwork, useNetworkProfiles } from "../hooks/useActiveNetwork";
+
+// Always-visible reminder of where the next transaction goes; mainnet is deliberately loud.
+export function NetworkBadge({ network }: { network: NetworkProfile }) {
+  const mainnet = isMainnetProfile(network);
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold uppercase tracking-wide",
+        mainnet
+          ? "border-red-500/60 bg-red-500/15 text-red-600"
+          : "border-emerald-500/60 bg-emerald-500/10 text-emerald-600",
+      )}
+      title={`Next transaction targets ${network.label} (${network.nexus}) via ${network.rpcUrl}`}
+    >
+      <Globe className="h-3 w-3" />
+      {network.nexus}
+    </span>
+  );
+}
+
+function CustomNetworksDialog({ onClose }: { onClose: () => void }) {
+  const active = useActiveNetwork();
+  const [label, setLabel] = useState("");
+  const [rpcUrl, setRpcUrl] = useState("");
+  const [nexus, setNexus] = useState("testnet");
+  const [fallbackRpcUrls, setFallbackRpcUrls] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const custom = useNetworkProfiles().filter((profile) => profile.custom);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const handleAdd = () => {
+    const result = addCustomNetwork({ label, rpcUrl, nexus, fallbackRpcUrls: splitRpcUrls(fallbackRpcUrls) });
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setLabel("");
+    setRpcUrl("");
+    setFallbackRpcUrls("");
+    toast.success(`Added network ${result.profile.label}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="flex max-h-[90vh] w-full max-w-lg flex-col">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>Custom networks</CardTitle>
+          <Button type="button" size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto text-sm">
+          {custom.length === 0 ? (
+            <div className="text-muted-foreground">No custom networks yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {custom.map((profile) => (
+                <div key={profile.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <div className="font-medium">
+                      {profile.label}
+                      {profile.id === active.id && <span className="ml-2 text-xs text-muted-foreground">(active)</span>}
+                    </div>
+                    <div className="truncate font-mono text-xs text-muted-foreground">
+                      {profile.rpcUrl} · {profile.nexus}
+                    </div>
+                    {(profile.fallbackRpcUrls?.length ?? 0) > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        +{profile.fallbackRpcUrls?.length} fallback endpoint(s)
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => removeCustomNetwork(profile.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2 border-t pt-4">
+            <div className="font-medium">Add network</div>
+            <input
+              className="w-full rounded border px-3 py-2"
+              placeholder="Name (e.g. Localnet)"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <input
+              className="w-full rounded border px-3 py-2 font-mono"
+              placeholder="http://localhost:5172/rpc"
+              value={rpcUrl}
+              onChange={(e) => setRpcUrl(e.target.value)}
+              spellCheck={false}
+            />
+            <textarea
+              className="w-full rounded border px-3 py-2 font-mono"
+              placeholder="Fallback RPC URLs (optional, one per line)"
+              rows={2}
+              value={fallbackRpcUrls}
+              onChange={(e) => setFallbackRpcUrls(e.target.value)}
+              spellCheck={false}
+            />
+            <input
+              className="w-full rounded border px-3 py-2 font-mono"
+              placeholder="Nexus (mainnet, testnet, …)"
+              value={nexus}
+              onChange={(e) => setNexus(e.target.value)}
+              spellCheck={false}
+            />
+            {error && <div className="text-xs text-red-500">{error}</div>}
+            <Button type="button" size="sm" onClick={handleAdd}>
+              <Plus className="mr-2 h-4 w-4" /> Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const EXPLORER_TEMPLATE_LABELS: Record<keyof ExplorerTemplates, string> = {
+  tx: "Transaction",
+  address: "Address",
+  token: "Token",
+  nft: "NFT",
+};
+
+const EMPTY_EXPLORER: ExplorerTemplates = { tx: "", address: "", token: "", nft: "" };
+
+function ExplorerTemplatesDialog({ onClose }: { onClose: () => void }) {
+  const active = useActiveNetwork();
+  const [templates, setTemplates] = useState<ExplorerTemplates>(active.explorer ?? EMPTY_EXPLORER);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const apply = (next: ExplorerTemplates | null) => {
+    const result = setExplorerTemplates(active.id, next);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    toast.success(next ? `Saved explorer links for ${active.label}` : `Reset explorer links for ${active.label}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="flex max-h-[90vh] w-full max-w-lg flex-col">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>Explorer links · {active.label}</CardTitle>
+          <Button type="button" size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3 overflow-y-auto text-sm">
+          <div className="text-xs text-muted-foreground">
+            URL templates for &quot;open in explorer&quot; links. Leave a template empty to show copy actions only.
+          </div>
+          {(Object.keys(EXPLORER_TEMPLATE_LABELS) as (keyof ExplorerTemplates)[]).map((kind) => (
+            <label key={kind} className="block space-y-1">
+              <span className="font-medium">
+                {EXPLORER_TEMPLATE_LABELS[kind]}{" "}
+                <span className="font-mono text-xs text-muted-foreground">{EXPLORER_PLACEHOLDERS[kind].join(" ")}</span>
+              </span>
+              <input
+                className="w-full rounded border px-3 py-2 font-mono text-xs"
+                value={templates[kind]}
+                onChange={(e) => setTemplates((prev) => ({ ...prev, [kind]: e.target.value }))}
+                spellCheck={false}
+              />
+            </label>
+          ))}
+          {error && <div className="text-xs text-red-500">{error}</div>}
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={() => apply(templates)}>
+              Save
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => apply(null)}>
+              Reset to default
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function NetworkSelector() {
+  const active = useActiveNetwork();
+  const [managing, setManaging] = useState(false);
+  const [editingExplorer, setEditingExplorer] = useState(false);
+  const profiles = useNetworkProfiles();
+
+  const handleSelect = (id: string) => {
+    if (id === active.id) return;
+    const next = profiles.find((profile) => profile.id === id);
+    setActiveNetwork(id);
+    if (next && isSandboxProfile(next)) {
+      toast(`Switched to ${next.label}. Transactions are signed by the sandbox wallet and stay in this tab.`);
+    } else if (next) {
+      toast(`Switched to ${next.label} (${next.nexus}). Make sure Phantasma Link uses the same network.`);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2">
+            <NetworkBadge network={active} />
+            <span className="max-w-32 truncate">{active.label}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Network</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={active.id} onValueChange={handleSelect}>
+            {profiles.map((profile) => (
+              <DropdownMenuRadioItem key={profile.id} value={profile.id} className="flex-col items-start gap-0">
+                <span>
+                  {profile.label} <span className="text-xs text-muted-foreground">({profile.nexus})</span>
+                </span>
+                <span className="max-w-full truncate font-mono text-xs text-muted-foreground">{profile.rpcUrl}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManaging(true)}>Manage custom networks…</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditingExplorer(true)}>Explorer links…</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {managing && <CustomNetworksDialog onClose={() => setManaging(false)} />}
+      {editingExplorer && <ExplorerTemplatesDialog onClose={() => setEditingExplorer(false)} />}
+    </>
+  );
+}
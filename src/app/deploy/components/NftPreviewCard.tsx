@@ -1,15 +1,17 @@
 "use client";
 
-import { useMemo, useState, useEffect, useCallback } from "react";
-import { Copy, Check } from "lucide-react";
+import { useMemo } from "react";
 import type { NFT } from "phantasma-sdk-ts";
 
 import { cn } from "@/lib/utils";
 import { getNftId, truncateMiddle } from "../utils/nftHelpers";
 import { normalizeImageUrl } from "../utils/urlHelpers";
+import { ExplorerLink } from "./ExplorerLink";
 
 type NftPreviewCardProps = {
   nft: NFT;
+  // Token symbol of the NFT, used for its explorer link.
+  symbol?: string;
   className?: string;
   selected?: boolean;
   onSelect?: () => void;
@@ -38,7 +40,7 @@ function truncateText(value: string, limit: number) {
   return `${value.slice(0, limit - 1)}…`;
 }
 
-export function NftPreviewCard({ nft, className, selected = false, onSelect, disabled }: NftPreviewCardProps) {
+export function NftPreviewCard({ nft, symbol, className, selected = false, onSelect, disabled }: NftPreviewCardProps) {
   const metadata = useMemo(() => toMetadataMap(nft.properties), [nft.properties]);
   const nftId = getNftId(nft);
   const displayNftId = nftId ? truncateMiddle(nftId, 44, 12) : "";
@@ -61,26 +63,6 @@ export function NftPreviewCard({ nft, className, selected = false, onSelect, dis
       ? `${nft.ownerAddress.slice(0, 6)}…${nft.ownerAddress.slice(-4)}`
       : nft.ownerAddress || "";
 
-  const [copied, setCopied] = useState(false);
-
-  useEffect(() => {
-    if (!copied) return;
-    const handle = setTimeout(() => setCopied(false), 1500);
-    return () => clearTimeout(handle);
-  }, [copied]);
-
-  const handleCopy = useCallback(async () => {
-    if (!nftId) return;
-    if (typeof navigator === "undefined" || !navigator.clipboard?.writeText) {
-      return;
-    }
-    try {
-      await navigator.clipboard.writeText(nftId);
-      setCopied(true);
-    } catch {
-      setCopied(false);
-    }
-  }, [nftId]);
   const interactive = typeof onSelect === "function";
 
   const cardBody = (
@@ -107,25 +89,13 @@ export function NftPreviewCard({ nft, className, selected = false, onSelect, dis
           {shortDescription}
         </div>
         <div className="mt-1 flex flex-wrap gap-4 text-[11px] text-muted-foreground">
-          <div className="flex items-center gap-1">
-            <span title={`Carbon NFT: ${nft.carbonNftAddress ?? "n/a"}`}>
-              {displayNftId ? `#${displayNftId}` : "#?"}
+          {nftId ? <ExplorerLink kind="nft" value={nftId} symbol={symbol} label={`#${displayNftId}`} /> : <span>#?</span>}
+          {nft.carbonNftAddress && <ExplorerLink value={nft.carbonNftAddress} label="Carbon" />}
+          {ownerShort && (
+            <span className="inline-flex items-center gap-1">
+              Owner: <ExplorerLink kind="address" value={nft.ownerAddress} label={ownerShort} />
             </span>
-            {nftId && (
-              <button
-                type="button"
-                className="inline-flex items-center rounded border border-transparent bg-transparent p-0.5 text-muted-foreground transition hover:text-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
-                onClick={(event) => {
-                  event.stopPropagation();
-                  void handleCopy();
-                }}
-                title={copied ? "Copied!" : "Copy phantasma NFT ID"}
-              >
-                {copied ? <Check className="h-3 w-3 text-emerald-600" /> : <Copy className="h-3 w-3" />}
-              </button>
-            )}
-          </div>
-          {ownerShort && <span title={nft.ownerAddress}>Owner: {ownerShort}</span>}
+          )}
           {infusionCount > 0 && (
             <span className="text-emerald-600" title={`This NFT has ${infusionCount} infused NFTs`}>
               Infused: {infusionCount}
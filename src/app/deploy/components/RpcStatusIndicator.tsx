@@ -0,0 +1,88 @@
+"use client";
+
+import { RefreshCw, Server } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { NetworkProfile, RpcEndpointStatus } from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+import { useRpcHealth } from "../hooks/useRpcHealth";
+
+const STATUS_DOT: Record<RpcEndpointStatus, string> = {
+  healthy: "bg-emerald-500",
+  unknown: "bg-muted-foreground",
+  lagging: "bg-amber-500",
+  down: "bg-red-500",
+};
+
+const STATUS_LABELS: Record<RpcEndpointStatus, string> = {
+  healthy: "Healthy",
+  unknown: "Not checked",
+  lagging: "Behind",
+  down: "Unreachable",
+};
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function StatusDot({ status }: { status: RpcEndpointStatus }) {
+  return <span className={cn("inline-block h-2 w-2 shrink-0 rounded-full", STATUS_DOT[status])} />;
+}
+
+// Shows which RPC node serves requests for `network`, with per-endpoint health on open.
+export function RpcStatusIndicator({ network }: { network: NetworkProfile }) {
+  const { endpoints, serving, checkNow } = useRpcHealth(network);
+  const current = endpoints.find((endpoint) => endpoint.url === serving) ?? endpoints[0];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="h-6 gap-1.5 px-2 font-mono text-xs">
+          <StatusDot status={current.status} />
+          <span className="max-w-48 truncate">{hostOf(current.url)}</span>
+          {current.latencyMs !== null && <span className="text-muted-foreground">{current.latencyMs} ms</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-80">
+        <DropdownMenuLabel className="flex items-center gap-2">
+          <Server className="h-4 w-4" /> RPC endpoints ({network.nexus})
+        </DropdownMenuLabel>
+        {endpoints.map((endpoint) => (
+          <div key={endpoint.url} className="space-y-0.5 px-2 py-1.5 text-xs">
+            <div className="flex items-center gap-2">
+              <StatusDot status={endpoint.status} />
+              <span className="truncate font-mono">{endpoint.url}</span>
+              {endpoint.url === serving && (
+                <span className="ml-auto shrink-0 rounded bg-muted px-1.5 text-[10px] uppercase">serving</span>
+              )}
+            </div>
+            <div className="pl-4 text-muted-foreground">
+              {STATUS_LABELS[endpoint.status]}
+              {endpoint.latencyMs !== null && ` · ${endpoint.latencyMs} ms`}
+              {endpoint.blockHeight !== null && ` · block ${endpoint.blockHeight}`}
+              {endpoint.checkedAt !== null && ` · ${new Date(endpoint.checkedAt).toLocaleTimeString()}`}
+            </div>
+            {endpoint.error && <div className="break-all pl-4 text-red-500">{endpoint.error}</div>}
+          </div>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={checkNow}>
+          <RefreshCw className="h-4 w-4" /> Check now
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
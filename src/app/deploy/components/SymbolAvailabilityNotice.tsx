@@ -0,0 +1,86 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import type { SymbolAvailabilityState } from "../hooks/useSymbolAvailability";
+import { ExplorerLink } from "./ExplorerLink";
+
+type SymbolAvailabilityNoticeProps = {
+  state: SymbolAvailabilityState;
+};
+
+export function SymbolAvailabilityNotice({ state }: SymbolAvailabilityNoticeProps) {
+  const { symbol, networkLabel, availability, checking, refresh } = state;
+  if (!symbol) return null;
+
+  if (checking || !availability) {
+    return (
+      <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking {symbol} on {networkLabel}…
+      </div>
+    );
+  }
+
+  const recheck = (
+    <Button type="button" size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={refresh}>
+      <RefreshCw className="mr-1 h-3 w-3" />
+      Recheck
+    </Button>
+  );
+
+  if (availability.status === "failed") {
+    return (
+      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-amber-600">
+        <AlertTriangle className="h-3 w-3" />
+        <span>
+          Could not check whether {symbol} is free on {networkLabel} ({availability.error}).
+        </span>
+        {recheck}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1 text-xs">
+      {availability.status === "available" ? (
+        <div className="flex items-center gap-2 text-emerald-600">
+          <CheckCircle2 className="h-3 w-3" />
+          {symbol} is available on {networkLabel}
+        </div>
+      ) : availability.ownedByYou ? (
+        <div className="flex flex-wrap items-center gap-2 text-red-500">
+          <XCircle className="h-3 w-3" />
+          You already deployed <ExplorerLink kind="token" value={symbol} /> on {networkLabel}
+          {recheck}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-red-500">
+          <XCircle className="h-3 w-3" />
+          <ExplorerLink kind="token" value={symbol} /> is taken on {networkLabel}
+          {availability.owner && (
+            <>
+              by <ExplorerLink kind="address" value={availability.owner} />
+            </>
+          )}
+          {recheck}
+        </div>
+      )}
+      {availability.lookalikes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-amber-600">
+          <AlertTriangle className="h-3 w-3" />
+          Looks like existing {availability.lookalikes.length === 1 ? "token" : "tokens"}
+          {availability.lookalikes.map((entry) => (
+            <ExplorerLink key={entry} kind="token" value={entry} />
+          ))}
+          ; holders may confuse them.
+        </div>
+      )}
+      {!availability.lookalikesChecked && (
+        <div className="text-muted-foreground">Look-alike check unavailable (token list could not be loaded).</div>
+      )}
+    </div>
+  );
+}
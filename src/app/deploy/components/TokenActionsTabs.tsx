@@ -10,18 +10,23 @@ import {
 } from "@/components/ui/card";
 
 import type { AddLogFn, TokenActionTab } from "../types";
-import { Rocket } from "lucide-react";
+import { Eye, Rocket } from "lucide-react";
 
 import { TokenDeploymentForm, type TokenDeploymentFormHandle } from "./TokenDeploymentForm";
 import { TokenSeriesTab } from "./TokenSeriesTab";
 import { TokenMintTab } from "./TokenMintTab";
 import { TokenInfuseTab } from "./TokenInfuseTab";
+import { TokenBroadcastTab } from "./TokenBroadcastTab";
+import { TokenLaunchPlanTab } from "./TokenLaunchPlanTab";
+import { ExplorerLink } from "./ExplorerLink";
 
 const tabs: Array<{ key: TokenActionTab; label: string }> = [
   { key: "deploy", label: "Deploy" },
   { key: "series", label: "Series" },
   { key: "mint", label: "Mint" },
   { key: "infuse", label: "Infuse" },
+  { key: "launch", label: "Launch" },
+  { key: "broadcast", label: "Broadcast" },
 ];
 
 type TokenActionsTabsProps = {
@@ -32,6 +37,8 @@ type TokenActionsTabsProps = {
   onRefreshTokens: (ownerAddress: string) => Promise<void>;
   expandToken: (tokenKey: string) => void;
   selectedToken: Token | null;
+  // Address shown instead of the wallet's; the tabs are read-only while it is set.
+  watchAddress: string | null;
 };
 
 export function TokenActionsTabs({
@@ -42,6 +49,7 @@ export function TokenActionsTabs({
   onRefreshTokens,
   expandToken,
   selectedToken,
+  watchAddress,
 }: TokenActionsTabsProps) {
   const deployFormRef = useRef<TokenDeploymentFormHandle | null>(null);
 
@@ -60,6 +68,15 @@ export function TokenActionsTabs({
         ))}
       </div>
 
+      {watchAddress && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-600">
+          <Eye className="h-4 w-4 shrink-0" />
+          <span>Read-only: watching</span>
+          <ExplorerLink kind="address" value={watchAddress} maxLength={24} tailLength={8} />
+          <span>Signing is disabled until you stop watching.</span>
+        </div>
+      )}
+
       {activeTab === "deploy" && (
         <Card>
           <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -83,23 +100,36 @@ export function TokenActionsTabs({
               addLog={addLog}
               onRefreshTokens={onRefreshTokens}
               expandToken={expandToken}
+              watchAddress={watchAddress}
             />
           </CardContent>
         </Card>
       )}
 
       {activeTab === "series" && (
-        <TokenSeriesTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} />
+        <TokenSeriesTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} watchAddress={watchAddress} />
       )}
 
       {activeTab === "mint" && (
-        <TokenMintTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} />
+        <TokenMintTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} watchAddress={watchAddress} />
       )}
 
       {activeTab === "infuse" && (
-        <TokenInfuseTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} />
+        <TokenInfuseTab selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} watchAddress={watchAddress} />
       )}
 
+      {activeTab === "launch" && (
+        <TokenLaunchPlanTab
+          phaCtx={phaCtx}
+          addLog={addLog}
+          onRefreshTokens={onRefreshTokens}
+          expandToken={expandToken}
+          watchAddress={watchAddress}
+        />
+      )}
+
+      {activeTab === "broadcast" && <TokenBroadcastTab addLog={addLog} />}
+
     </div>
   );
 }
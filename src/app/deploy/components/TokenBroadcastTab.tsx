@@ -0,0 +1,247 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { TxTypes } from "phantasma-sdk-ts";
+import { AlertTriangle, CheckCircle2, Radio, Upload, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  broadcastSignedTransaction,
+  classifyTxError,
+  describeTxMsg,
+  formatTxExpiry,
+  inferTxOperation,
+  isTxExpiryPassed,
+  parseSignedTx,
+  type ParseSignedTxResult,
+  type TxErrorInfo,
+} from "@/lib/phantasmaClient";
+
+import type { AddLogFn } from "../types";
+import { formatBytes } from "../utils/byteFormatting";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { ExplorerLink } from "./ExplorerLink";
+import { TxErrorNotice } from "./TxErrorNotice";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxPreviewSections } from "./TxReviewDialog";
+
+type TokenBroadcastTabProps = {
+  addLog: AddLogFn;
+};
+
+export function TokenBroadcastTab({ addLog }: TokenBroadcastTabProps) {
+  const [input, setInput] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [broadcastError, setBroadcastError] = useState<TxErrorInfo | null>(null);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+  } = useTxLifecycle();
+  const txUnconfirmed = txEvent?.stage === "unconfirmed";
+
+  const [parsed, setParsed] = useState<ParseSignedTxResult | null>(null);
+
+  useEffect(() => {
+    if (!input.trim()) {
+      setParsed(null);
+      return;
+    }
+    let cancelled = false;
+    void parseSignedTx(input).then((result) => {
+      if (!cancelled) setParsed(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [input]);
+
+  const preview = useMemo(
+    () => (parsed?.success ? describeTxMsg(parsed.txMsg) : null),
+    [parsed],
+  );
+  const invalidSignatures = parsed?.success
+    ? parsed.witnesses.filter((w) => w.signatureValid === false)
+    : [];
+  const expired = parsed?.success ? isTxExpiryPassed(parsed.txMsg.expiry) : false;
+  const canBroadcast =
+    !!parsed?.success && parsed.gasPayerSigned && invalidSignatures.length === 0 && !submitting;
+
+  const handleFile = useCallback(
+    async (file: File) => {
+      try {
+        setInput(await file.text());
+        addLog("[broadcast] Loaded signed transaction file", { name: file.name, size: file.size });
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        toast.error(`Failed to read file: ${message}`);
+      }
+    },
+    [addLog],
+  );
+
+  const handleBroadcast = useCallback(async () => {
+    if (!parsed?.success) return;
+    setSubmitting(true);
+    setTxHash(null);
+    setBroadcastError(null);
+    const txPipeline = beginTx();
+    try {
+      const res = await broadcastSignedTransaction({
+        signedTxHex: parsed.signedTxHex,
+        signer: parsed.gasPayer,
+        expiry: parsed.txMsg.expiry,
+        addLog,
+        pipeline: txPipeline,
+        journal: {
+          operation: inferTxOperation(parsed.txMsg),
+          summary: {
+            txType: TxTypes[parsed.txMsg.type] ?? String(parsed.txMsg.type),
+            source: "offline",
+          },
+        },
+      });
+      if (!res.success) {
+        if (res.unconfirmed) {
+          addLog("[broadcast] Transaction not confirmed yet", { txHash: res.txHash });
+          return;
+        }
+        const failure = res.errorInfo ?? classifyTxError(res.error);
+        setBroadcastError(failure);
+        addLog("[error] Broadcast failed", { error: failure.message, kind: failure.kind });
+        return;
+      }
+      setTxHash(res.txHash);
+      toast.success(`Transaction confirmed: ${res.txHash}`);
+      addLog("[broadcast] Transaction confirmed", { txHash: res.txHash, result: res.tx.result });
+    } catch (err: unknown) {
+      const failure = classifyTxError(err);
+      setBroadcastError(failure);
+      addLog("[error] Broadcast failed", { error: failure.message, kind: failure.kind });
+    } finally {
+      setSubmitting(false);
+    }
+  }, [parsed, addLog, beginTx]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio size={18} />
+          Broadcast signed transaction
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Paste a transaction signed offline (hex, or JSON with a <span className="font-mono">signedTxHex</span>{" "}
+          field). It is checked locally, sent to the node and tracked until it confirms. No wallet is needed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <label className="block text-sm font-medium">Signed transaction</label>
+            <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border px-3 py-1 text-sm font-medium bg-background hover:bg-muted transition">
+              <Upload className="h-4 w-4" />
+              Load file
+              <input
+                type="file"
+                accept=".hex,.txt,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+          <textarea
+            className="h-32 w-full rounded border px-2 py-1 font-mono text-xs"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="0A1B2C…"
+            spellCheck={false}
+          />
+          {parsed && !parsed.success && <div className="text-xs text-red-500">{parsed.error}</div>}
+        </div>
+
+        {parsed?.success && preview && (
+          <div className="space-y-3">
+            <div className="text-sm text-muted-foreground">
+              Signed size: <span className="font-mono">{formatBytes(parsed.signedTxHex.length / 2)}</span>
+            </div>
+            <div className="rounded-md border p-3 space-y-1">
+              <div className="text-sm font-medium">Witnesses</div>
+              {parsed.witnesses.map((witness, index) => (
+                <div key={`${witness.address}-${index}`} className="flex items-center gap-2 text-xs">
+                  {witness.signatureValid === null ? (
+                    <AlertTriangle className="h-3 w-3 text-amber-500" />
+                  ) : witness.signatureValid ? (
+                    <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+                  ) : (
+                    <XCircle className="h-3 w-3 text-red-500" />
+                  )}
+                  <ExplorerLink kind="address" value={witness.address} />
+                  {witness.signatureValid === false && (
+                    <span className="text-red-500">signature does not match</span>
+                  )}
+                </div>
+              ))}
+              {!parsed.gasPayerSigned && (
+                <div className="flex items-center gap-2 text-xs text-amber-500">
+                  <AlertTriangle className="h-3 w-3" />
+                  The gas payer has not signed this transaction
+                </div>
+              )}
+              {!parsed.signaturesVerified && (
+                <div className="flex items-center gap-2 text-xs text-amber-500">
+                  <AlertTriangle className="h-3 w-3" />
+                  This browser cannot verify Ed25519 signatures; the node will check them on broadcast
+                </div>
+              )}
+              {expired && (
+                <div className="flex items-center gap-2 text-xs text-amber-500">
+                  <AlertTriangle className="h-3 w-3" />
+                  Expired at {formatTxExpiry(parsed.txMsg.expiry)}; the node will reject it. Export and sign it again
+                  with a longer expiry.
+                </div>
+              )}
+            </div>
+            <TxPreviewSections preview={preview} />
+          </div>
+        )}
+
+        <Button type="button" onClick={handleBroadcast} disabled={!canBroadcast}>
+          <Radio className="mr-2 h-4 w-4" />
+          {submitting ? "Broadcasting…" : "Broadcast"}
+        </Button>
+
+        <div className="w-full space-y-2 text-sm text-muted-foreground">
+          <div className="font-medium text-foreground">Broadcast status</div>
+          {!submitting && !broadcastError && !txHash && !txUnconfirmed && <div>No recent broadcast.</div>}
+          {(submitting || txUnconfirmed) && (
+            <TxLifecycleProgress
+              event={txEvent}
+              warning={txWarning}
+              onDecision={decideTx}
+              onStopWaiting={stopWaitingTx}
+            />
+          )}
+          {!submitting && txHash && (
+            <div className="text-emerald-600 flex items-center gap-2 break-all">
+              <CheckCircle2 className="h-4 w-4" />
+              Confirmed: <ExplorerLink kind="tx" value={txHash} />
+            </div>
+          )}
+          {!submitting && broadcastError && (
+            <TxErrorNotice error={broadcastError} title="Broadcast failed" />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,16 +2,17 @@ import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRe
 import { toast } from "sonner";
 import {
   Upload,
+  Download,
   Plus,
   Trash2,
   Rocket,
   Loader2,
   AlertTriangle,
   CheckCircle2,
-  XCircle,
   Info,
 } from "lucide-react";
 import {
+  Bytes32,
   CreateTokenFeeOptions,
   TokenInfoBuilder,
   TokenSchemasBuilder,
@@ -20,10 +21,45 @@ import {
 
 import { Button } from "@/components/ui/button";
 
-import { deployCarbonToken } from "@/lib/phantasmaClient";
+import {
+  PLACEHOLDER_SIGNER,
+  buildDeployTx,
+  classifyTxError,
+  deployCarbonToken,
+  importTokenSchemas,
+  measureTxMsg,
+  parseTokenDeploySpec,
+  serializeTokenDeploySpec,
+  validateTokenDeploySpec,
+  TOKEN_DEPLOY_SPEC_FORMAT,
+  TOKEN_DEPLOY_SPEC_VERSION,
+  type TokenDeploySpec,
+  type TxErrorInfo,
+} from "@/lib/phantasmaClient";
 import { TokenSchemasBuilder as TokenSchemasBuilderUI } from "./TokenSchemasBuilder";
 import { parseHumanAmountToBaseUnits, INTX_MAX_VALUE } from "../utils/decimalUnits";
 import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
+import { formatBytes } from "../utils/byteFormatting";
+import { downloadTextFile } from "../utils/fileDownload";
+import { ICON_SOURCE_MIME_TYPES } from "../utils/iconOptimizer";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { useTxSizeMeter } from "../hooks/useTxSizeMeter";
+import { useTxExpiry } from "../hooks/useTxExpiry";
+import { useFeePreflight } from "../hooks/useFeePreflight";
+import { useActiveNetwork } from "../hooks/useActiveNetwork";
+import { useSymbolAvailability } from "../hooks/useSymbolAvailability";
+import { useFormDraft } from "../hooks/useFormDraft";
+import { ExplorerLink } from "./ExplorerLink";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+import { TxSizeMeter } from "./TxSizeMeter";
+import { TxExportPanel } from "./TxExportPanel";
+import { TxExpiryControl } from "./TxExpiryControl";
+import { FeePreflightBanner } from "./FeePreflightBanner";
+import { FormDraftPrompt } from "./FormDraftPrompt";
+import { IconOptimizerDialog } from "./IconOptimizerDialog";
+import { SymbolAvailabilityNotice } from "./SymbolAvailabilityNotice";
+import { TxErrorNotice } from "./TxErrorNotice";
 
 import type { AddLogFn } from "../types";
 
@@ -32,6 +68,8 @@ type TokenDeploymentFormProps = {
   addLog: AddLogFn;
   onRefreshTokens: (ownerAddress: string) => Promise<void>;
   expandToken: (tokenKey: string) => void;
+  // Set while an address is being watched: the form stays editable, nothing can be signed.
+  watchAddress?: string | null;
 };
 
 export type TokenDeploymentFormHandle = {
@@ -43,8 +81,8 @@ type MetadataField = { id: number; key: string; value: string };
 type TxStatus =
   | { kind: "idle" }
   | { kind: "pending"; symbol: string }
-  | { kind: "success"; hash: string; tokenId?: number }
-  | { kind: "failure"; message: string; hash?: string };
+  | { kind: "success"; hash: string; symbol: string; tokenId?: number }
+  | { kind: "failure"; error: TxErrorInfo; hash?: string };
 
 const ALLOWED_ICON_MIME_TYPES = new Set([
   "image/png",
@@ -53,24 +91,6 @@ const ALLOWED_ICON_MIME_TYPES = new Set([
   "image/webp",
 ]);
 
-function formatBytes(bytes: number): string {
-  if (bytes <= 0) return "0 B";
-  if (bytes < 1024) return `${bytes} B`;
-  const kb = bytes / 1024;
-  if (kb < 1024) {
-    return kb >= 10 ? `${Math.round(kb)} KB` : `${kb.toFixed(1)} KB`;
-  }
-  const mb = kb / 1024;
-  return mb >= 10 ? `${Math.round(mb)} MB` : `${mb.toFixed(1)} MB`;
-}
-
-function estimateBase64LengthFromBytes(byteCount: number): number {
-  if (byteCount <= 0) {
-    return 0;
-  }
-  return Math.ceil(byteCount / 3) * 4;
-}
-
 function estimateDecodedBytesFromBase64(base64Payload: string): number {
   if (!base64Payload) {
     return 0;
@@ -87,6 +107,34 @@ const MAX_ICON_BASE64_PAYLOAD_CHARS = 30000;
 const MAX_ICON_BINARY_BYTES = Math.floor((MAX_ICON_BASE64_PAYLOAD_CHARS / 4) * 3);
 const ICON_SIZE_LIMIT_LABEL = formatBytes(MAX_ICON_BINARY_BYTES);
 const ICON_PAYLOAD_LIMIT_LABEL = MAX_ICON_BASE64_PAYLOAD_CHARS.toLocaleString();
+// 1×1 PNG used to measure the tx without the real icon; metadata strings serialize about one byte
+// per char, so the room left for an icon is the remaining tx bytes plus the probe's length.
+const ICON_BUDGET_PROBE = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+// Covers the optimiser's own data URI prefix and length-prefix growth.
+const ICON_BUDGET_MARGIN_CHARS = 32;
+
+type IconCandidate = { file: File; maxPayloadChars: number; budgetMeasured: boolean };
+
+// Autosaved inputs (see useFormDraft); the icon is kept so a carefully sized one survives a reload.
+type DeployFormDraft = {
+  isNFT: boolean;
+  symbol: string;
+  name: string;
+  tokenUrl: string;
+  description: string;
+  decimals: number;
+  lastFungibleDecimals: number;
+  maxSupply: string;
+  iconDataUri: string | null;
+  iconFileName: string | null;
+  metadataFields: Array<{ key: string; value: string }>;
+  tokenSchemasJson: string;
+  gasFeeBase: string;
+  gasFeeCreateTokenBase: string;
+  gasFeeCreateTokenSymbol: string;
+  gasFeeMultiplier: string;
+  maxDataLimit: string;
+};
 
 type IconValidationResult =
   | {
@@ -112,7 +160,8 @@ function validateIconDataUri(dataUri: string): IconValidationResult {
     };
   }
 
-  const mimeType = match[1];
+  // MIME types are case-insensitive; the spec import check accepts the same spellings.
+  const mimeType = match[1].toLowerCase();
   const base64Payload = match[2];
 
   if (!ALLOWED_ICON_MIME_TYPES.has(mimeType)) {
@@ -202,12 +251,34 @@ function parseBigIntField(raw: string, label: string, allowEmpty = false) {
   }
 }
 
+const RESERVED_METADATA_KEYS = new Set(["name", "icon", "url", "description"]);
+
+// Standard fields first, then extended properties; throws when an extended key shadows a standard one.
+function compileTokenMetadata(
+  standard: Record<string, string>,
+  extraFields: MetadataField[],
+): Record<string, string> {
+  const metadataObj: Record<string, string> = { ...standard };
+  extraFields.forEach(({ key, value }) => {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) return;
+    if (RESERVED_METADATA_KEYS.has(trimmedKey)) {
+      throw Error(
+        `Reserved key cannot be used for extended properties ${trimmedKey}`,
+      );
+    }
+    metadataObj[trimmedKey] = value;
+  });
+  return metadataObj;
+}
+
 export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDeploymentFormProps>(function TokenDeploymentForm(
   {
     phaCtx,
     addLog,
     onRefreshTokens,
     expandToken,
+    watchAddress,
   }: TokenDeploymentFormProps,
   ref,
 ) {
@@ -234,12 +305,31 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
   const [metadataIdCounter, setMetadataIdCounter] = useState(0);
   const [deploying, setDeploying] = useState(false);
   const [txStatus, setTxStatus] = useState<TxStatus>({ kind: "idle" });
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle();
   const [tokenSchemasHasError, setTokenSchemasHasError] = useState<boolean>(false);
   const [schemasExpanded, setSchemasExpanded] = useState<boolean>(false);
   const [isSchemasDefault, setIsSchemasDefault] = useState<boolean>(true);
   const [tokenSchemasJson, setTokenSchemasJson] = useState<string>("");
   const [feesExpanded, setFeesExpanded] = useState<boolean>(false);
   const [isFeesDefault, setIsFeesDefault] = useState<boolean>(true);
+  // The schemas builder only reads valueJson on mount; bumping the key reloads it after an import.
+  const [schemasBuilderKey, setSchemasBuilderKey] = useState(0);
+  const [schemasSourceSymbol, setSchemasSourceSymbol] = useState("");
+  const [importingSchemas, setImportingSchemas] = useState(false);
+  const [schemasImportWarnings, setSchemasImportWarnings] = useState<string[] | null>(null);
+  const [specIssues, setSpecIssues] = useState<string[] | null>(null);
+  const [iconCandidate, setIconCandidate] = useState<IconCandidate | null>(null);
+  const txExpiry = useTxExpiry();
+  const network = useActiveNetwork();
+  const { resolveExpiry, error: expiryError, reset: resetExpiry } = txExpiry;
 
   const walletAddress = phaCtx?.conn?.link?.account?.address;
   const trimmedSymbol = symbol.trim();
@@ -251,6 +341,8 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
     }
     return TokenInfoBuilder.checkIsValidSymbol(trimmedSymbol);
   }, [trimmedSymbol]);
+  const symbolAvailability = useSymbolAvailability(symbolValidation.ok ? trimmedSymbol : null, walletAddress);
+  const symbolTaken = symbolAvailability.taken;
 
   const decimalsValidation = useMemo(() => {
     if (!Number.isFinite(decimals)) {
@@ -310,7 +402,7 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
       );
       const maxDataValue = parseBigIntField(maxDataLimit, "Max data", true);
       const maxGasValue = feeConfig.calculateMaxGas({ data: trimmedSymbol });
-      return { ok: true as const, maxGas: maxGasValue, maxData: maxDataValue };
+      return { ok: true as const, maxGas: maxGasValue, maxData: maxDataValue, feeConfig };
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : "Invalid fee configuration";
       return { ok: false as const, error: message };
@@ -323,6 +415,8 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
     maxDataLimit,
     trimmedSymbol,
   ]);
+  const feePreflight = useFeePreflight(walletAddress, feeSummary.ok ? feeSummary : null);
+  const { blocked: feesBlocked, refresh: refreshFeeBalances } = feePreflight;
 
   const resetForm = useCallback(() => {
     setSymbol("");
@@ -351,9 +445,13 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
     setTokenSchemasJson("");
     setIsSchemasDefault(true);
     setTokenSchemasHasError(false);
+    setSchemasSourceSymbol("");
+    setSchemasImportWarnings(null);
     setFeesExpanded(false);
     setIsFeesDefault(true);
-  }, []);
+    setSpecIssues(null);
+    resetExpiry();
+  }, [resetExpiry]);
 
   useImperativeHandle(ref, () => ({ reset: resetForm }), [resetForm]);
 
@@ -377,6 +475,387 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
 
   const metadataFieldsMap = useMemo(() => metadataFields, [metadataFields]);
 
+  const handleExportSpec = useCallback(() => {
+    let tokenSchemas: unknown = null;
+    if (isNFT) {
+      try {
+        tokenSchemas = JSON.parse(tokenSchemasJson);
+      } catch {
+        tokenSchemas = tokenSchemasJson;
+      }
+    }
+    const extra: Record<string, string> = {};
+    metadataFields.forEach(({ key, value }) => {
+      if (key.trim()) extra[key.trim()] = value;
+    });
+    // Run the importer's validator so an exported spec always loads back.
+    const result = validateTokenDeploySpec({
+      format: TOKEN_DEPLOY_SPEC_FORMAT,
+      version: TOKEN_DEPLOY_SPEC_VERSION,
+      token: { type: isNFT ? "nft" : "fungible", symbol: trimmedSymbol, decimals, maxSupply: maxSupply.trim() || "0" },
+      metadata: {
+        name: name.trim(),
+        url: tokenUrl.trim(),
+        description: description.trim(),
+        icon: iconDataUri ?? "",
+        extra,
+      },
+      tokenSchemas,
+      fees: {
+        gasFeeBase,
+        gasFeeCreateTokenBase,
+        gasFeeCreateTokenSymbol,
+        feeMultiplier: gasFeeMultiplier,
+        maxData: maxDataLimit,
+      },
+    });
+    if (!result.success) {
+      setSpecIssues(result.issues);
+      addLog("[spec] Export blocked by validation", { issues: result.issues });
+      toast.error(`Cannot export spec. ${result.error}`);
+      return;
+    }
+    setSpecIssues(null);
+    downloadTextFile(
+      `${trimmedSymbol.toLowerCase()}.deploy-spec.json`,
+      serializeTokenDeploySpec(result.spec),
+      "application/json",
+    );
+    addLog("[spec] Exported deployment spec", { symbol: trimmedSymbol });
+  }, [
+    addLog,
+    decimals,
+    description,
+    gasFeeBase,
+    gasFeeCreateTokenBase,
+    gasFeeCreateTokenSymbol,
+    gasFeeMultiplier,
+    iconDataUri,
+    isNFT,
+    maxDataLimit,
+    maxSupply,
+    metadataFields,
+    name,
+    tokenSchemasJson,
+    tokenUrl,
+    trimmedSymbol,
+  ]);
+
+  const applySpec = useCallback(
+    (spec: TokenDeploySpec) => {
+      const isSpecNFT = spec.token.type === "nft";
+      setIsNFT(isSpecNFT);
+      setSymbol(spec.token.symbol);
+      setDecimals(spec.token.decimals);
+      if (!isSpecNFT) setLastFungibleDecimals(spec.token.decimals);
+      setMaxSupply(spec.token.maxSupply);
+      setName(spec.metadata.name);
+      setTokenUrl(spec.metadata.url);
+      setDescription(spec.metadata.description);
+      setIconDataUri(spec.metadata.icon);
+      setIconFileName("from spec");
+      setManualIconInput(spec.metadata.icon);
+      setManualIconError(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      const extraEntries = Object.entries(spec.metadata.extra);
+      setMetadataFields(extraEntries.map(([key, value], index) => ({ id: metadataIdCounter + index, key, value })));
+      setMetadataIdCounter((prev) => prev + extraEntries.length);
+      const schemasJson = spec.tokenSchemas ? JSON.stringify(spec.tokenSchemas, null, 2) : "";
+      setTokenSchemasJson(schemasJson);
+      setIsSchemasDefault(!spec.tokenSchemas || schemasJson === DEFAULT_NFT_SCHEMAS_JSON);
+      setTokenSchemasHasError(false);
+      setSchemasImportWarnings(null);
+      setSchemasBuilderKey((prev) => prev + 1);
+      setGasFeeBase(spec.fees.gasFeeBase);
+      setGasFeeCreateTokenBase(spec.fees.gasFeeCreateTokenBase);
+      setGasFeeCreateTokenSymbol(spec.fees.gasFeeCreateTokenSymbol);
+      setGasFeeMultiplier(spec.fees.feeMultiplier);
+      setMaxDataLimit(spec.fees.maxData);
+      setTxStatus({ kind: "idle" });
+    },
+    [metadataIdCounter],
+  );
+
+  const draftData = useMemo<DeployFormDraft>(
+    () => ({
+      isNFT,
+      symbol,
+      name,
+      tokenUrl,
+      description,
+      decimals,
+      lastFungibleDecimals,
+      maxSupply,
+      iconDataUri,
+      iconFileName,
+      metadataFields: metadataFields.map(({ key, value }) => ({ key, value })),
+      tokenSchemasJson,
+      gasFeeBase,
+      gasFeeCreateTokenBase,
+      gasFeeCreateTokenSymbol,
+      gasFeeMultiplier,
+      maxDataLimit,
+    }),
+    [
+      isNFT,
+      symbol,
+      name,
+      tokenUrl,
+      description,
+      decimals,
+      lastFungibleDecimals,
+      maxSupply,
+      iconDataUri,
+      iconFileName,
+      metadataFields,
+      tokenSchemasJson,
+      gasFeeBase,
+      gasFeeCreateTokenBase,
+      gasFeeCreateTokenSymbol,
+      gasFeeMultiplier,
+      maxDataLimit,
+    ],
+  );
+  const draftEmpty =
+    !isNFT &&
+    !symbol.trim() &&
+    !name.trim() &&
+    !tokenUrl.trim() &&
+    !description.trim() &&
+    !iconDataUri &&
+    metadataFields.length === 0 &&
+    decimals === 8 &&
+    (maxSupply.trim() === "" || maxSupply.trim() === "0") &&
+    isFeesDefault;
+
+  const applyDraft = useCallback(
+    (draft: DeployFormDraft) => {
+      setIsNFT(draft.isNFT);
+      setSymbol(draft.symbol);
+      setName(draft.name);
+      setTokenUrl(draft.tokenUrl);
+      setDescription(draft.description);
+      setDecimals(draft.decimals);
+      setLastFungibleDecimals(draft.lastFungibleDecimals);
+      setMaxSupply(draft.maxSupply);
+      setIconDataUri(draft.iconDataUri);
+      setIconFileName(draft.iconFileName);
+      setManualIconInput(draft.iconDataUri ?? "");
+      setManualIconError(null);
+      setMetadataFields(draft.metadataFields.map((field, index) => ({ id: metadataIdCounter + index, ...field })));
+      setMetadataIdCounter((prev) => prev + draft.metadataFields.length);
+      setTokenSchemasJson(draft.tokenSchemasJson);
+      setIsSchemasDefault(!draft.tokenSchemasJson || draft.tokenSchemasJson === DEFAULT_NFT_SCHEMAS_JSON);
+      setTokenSchemasHasError(false);
+      setSchemasBuilderKey((prev) => prev + 1);
+      setGasFeeBase(draft.gasFeeBase);
+      setGasFeeCreateTokenBase(draft.gasFeeCreateTokenBase);
+      setGasFeeCreateTokenSymbol(draft.gasFeeCreateTokenSymbol);
+      setGasFeeMultiplier(draft.gasFeeMultiplier);
+      setMaxDataLimit(draft.maxDataLimit);
+    },
+    [metadataIdCounter],
+  );
+
+  const formDraft = useFormDraft({
+    tab: "deploy",
+    walletAddress,
+    token: null,
+    data: draftData,
+    empty: draftEmpty,
+    label: `${trimmedSymbol || "Untitled"} (${isNFT ? "NFT" : "fungible"})`,
+    onRestore: applyDraft,
+  });
+
+  const handleImportSpec = useCallback(
+    async (file: File) => {
+      let text: string;
+      try {
+        text = await file.text();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        toast.error(`Failed to read file: ${message}`);
+        return;
+      }
+      const result = parseTokenDeploySpec(text);
+      if (!result.success) {
+        setSpecIssues(result.issues);
+        addLog("[spec] Import rejected", { name: file.name, issues: result.issues });
+        toast.error(result.error);
+        return;
+      }
+      // The spec format only checks the data URI shape; the Link size cap is enforced here.
+      const iconValidation = validateIconDataUri(result.spec.metadata.icon);
+      if (!iconValidation.ok) {
+        setSpecIssues([`metadata.icon: ${iconValidation.error}`]);
+        toast.error(iconValidation.error);
+        return;
+      }
+      setSpecIssues(null);
+      applySpec(result.spec);
+      addLog("[spec] Imported deployment spec", { name: file.name, symbol: result.spec.token.symbol });
+      toast.success(`Loaded spec for ${result.spec.token.symbol}`);
+    },
+    [addLog, applySpec],
+  );
+
+  const handleImportSchemasFromToken = useCallback(async () => {
+    const source = schemasSourceSymbol.trim().toUpperCase();
+    if (!source) return;
+    setImportingSchemas(true);
+    try {
+      const result = await importTokenSchemas(source);
+      if (!result.success) {
+        addLog("[schemas] Import from token failed", { symbol: source, error: result.error });
+        toast.error(`Could not import schemas from ${source}: ${result.error}`);
+        return;
+      }
+      const schemasJson = JSON.stringify(result.schemas, null, 2);
+      setTokenSchemasJson(schemasJson);
+      setIsSchemasDefault(schemasJson === DEFAULT_NFT_SCHEMAS_JSON);
+      setTokenSchemasHasError(false);
+      setSchemasImportWarnings(result.warnings.length > 0 ? result.warnings : null);
+      setSchemasBuilderKey((prev) => prev + 1);
+      setSchemasExpanded(true);
+      addLog("[schemas] Imported schemas from token", {
+        symbol: source,
+        seriesMetadata: result.schemas.seriesMetadata.length,
+        rom: result.schemas.rom.length,
+        ram: result.schemas.ram.length,
+        warnings: result.warnings,
+      });
+      toast.success(`Imported schemas from ${source}`);
+    } finally {
+      setImportingSchemas(false);
+    }
+  }, [schemasSourceSymbol, addLog]);
+
+  // Same inputs as handleDeploy for any owner key: the size meter passes a placeholder,
+  // the offline export passes the signer's key.
+  const buildUnsignedTx = useCallback((ownerPublicKey: Bytes32, iconOverride?: string) => {
+    const icon = iconOverride ?? iconDataUri;
+    if (!trimmedSymbol || !icon || !supplyCalculation.ok || !decimalsValidation.ok) {
+      return null;
+    }
+    if (symbolValidation && !symbolValidation.ok) {
+      return { success: false as const, error: symbolValidation.error ?? "Invalid symbol" };
+    }
+    if (!feeSummary.ok) {
+      return { success: false as const, error: feeSummary.error };
+    }
+    if (isNFT && (tokenSchemasHasError || !tokenSchemasJson.trim())) {
+      return null;
+    }
+    const expiry = resolveExpiry();
+    if (expiry === null) {
+      return { success: false as const, error: expiryError ?? "Invalid expiry" };
+    }
+    let metadata: Record<string, string>;
+    try {
+      metadata = compileTokenMetadata(
+        {
+          name: name.trim(),
+          icon,
+          url: tokenUrl.trim(),
+          description: description.trim(),
+        },
+        metadataFields,
+      );
+    } catch (err) {
+      return { success: false as const, error: err instanceof Error ? err.message : String(err) };
+    }
+    return buildDeployTx({
+      ownerPublicKey,
+      symbol: trimmedSymbol,
+      isNFT,
+      decimals: decimals ?? 0,
+      maxSupply: supplyCalculation.baseUnits,
+      metadata,
+      tokenSchemasJson: isNFT ? tokenSchemasJson : undefined,
+      feeOptions: feeSummary.feeConfig,
+      maxData: feeSummary.maxData,
+      expiry,
+    });
+  }, [
+    decimals,
+    decimalsValidation,
+    description,
+    feeSummary,
+    iconDataUri,
+    isNFT,
+    metadataFields,
+    name,
+    supplyCalculation,
+    symbolValidation,
+    tokenSchemasHasError,
+    tokenSchemasJson,
+    tokenUrl,
+    trimmedSymbol,
+    resolveExpiry,
+    expiryError,
+  ]);
+  const buildSizeTx = useCallback(() => buildUnsignedTx(PLACEHOLDER_SIGNER), [buildUnsignedTx]);
+  const txSize = useTxSizeMeter(buildSizeTx);
+
+  // Room for the icon's base64 payload given everything else in the form. Falls back to the
+  // static cap while the form cannot be built yet (no symbol, invalid fees, ...).
+  const measureIconBudget = useCallback((): Omit<IconCandidate, "file"> => {
+    const built = buildUnsignedTx(PLACEHOLDER_SIGNER, ICON_BUDGET_PROBE);
+    if (!built?.success) {
+      return { maxPayloadChars: MAX_ICON_BASE64_PAYLOAD_CHARS, budgetMeasured: false };
+    }
+    const report = measureTxMsg(built.txMsg);
+    const available = report.remainingBytes + ICON_BUDGET_PROBE.length - ICON_BUDGET_MARGIN_CHARS;
+    return {
+      maxPayloadChars: Math.max(0, Math.min(MAX_ICON_BASE64_PAYLOAD_CHARS, available)),
+      budgetMeasured: true,
+    };
+  }, [buildUnsignedTx]);
+
+  const handleIconFile = useCallback(
+    (file: File) => {
+      if (!ICON_SOURCE_MIME_TYPES.includes(file.type)) {
+        toast.error(`Unsupported icon type: ${file.type || file.name}. Use PNG, JPEG, WebP or SVG.`);
+        return;
+      }
+      const budget = measureIconBudget();
+      addLog("[icon] Optimising uploaded icon", {
+        name: file.name,
+        size_bytes: file.size,
+        mime: file.type,
+        max_base64_chars: budget.maxPayloadChars,
+        budget_measured: budget.budgetMeasured,
+      });
+      setIconCandidate({ file, ...budget });
+    },
+    [addLog, measureIconBudget],
+  );
+
+  const handleApplyIcon = useCallback(
+    (dataUri: string, label: string) => {
+      const validation = validateIconDataUri(dataUri);
+      if (!validation.ok) {
+        toast.error(validation.error);
+        return;
+      }
+      setIconDataUri(dataUri);
+      setIconFileName(label);
+      setManualIconInput(dataUri);
+      setManualIconError(null);
+      setIconCandidate(null);
+      addLog("[icon] Icon loaded", {
+        name: label,
+        type: validation.mimeType,
+        base64_payload_chars: validation.base64PayloadLength,
+        approx_binary_bytes: validation.approxBinaryBytes,
+      });
+    },
+    [addLog],
+  );
+  const handleCancelIcon = useCallback(() => setIconCandidate(null), []);
+
   const handleDeploy = useCallback(async () => {
     addLog("[deploy] handleDeploy started", {
       symbol: trimmedSymbol,
@@ -413,6 +892,11 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
       toast.error(validationError);
       return;
     }
+    if (symbolTaken) {
+      addLog("[error] Symbol already exists on this network", { symbol: trimmedSymbol });
+      toast.error(`${trimmedSymbol} already exists on ${network.label}`);
+      return;
+    }
     if (!decimalsValidation.ok) {
       addLog("[error] Decimals validation failed", { error: decimalsValidation.error });
       toast.error(decimalsValidation.error ?? "Invalid decimals value");
@@ -466,6 +950,12 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
       }
     }
 
+    if (txSize.overLimit) {
+      addLog("[error] Transaction exceeds Link size limit", { report: txSize.report });
+      toast.error("Transaction is too large for Phantasma Link. Reduce the icon or metadata size.");
+      return;
+    }
+
     let maxSupplyBig: bigint;
     let maxDataBig: bigint;
     const feeConfig = new CreateTokenFeeOptions();
@@ -503,6 +993,8 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
     });
 
     setDeploying(true);
+    const txPipeline = beginTx();
+    setTxStatus({ kind: "pending", symbol: trimmedSymbol });
     toast(`Deploying ${trimmedSymbol}...`);
 
     try {
@@ -511,27 +1003,15 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
         throw new Error("Wallet address is missing");
       }
 
-      const metadataObj: Record<string, string> = {
-        name: name.trim(),
-        icon: iconDataUri,
-        url: tokenUrl.trim(),
-        description: description.trim(),
-      };
-      metadataFields.forEach(({ key, value }) => {
-        const trimmedKey = key.trim();
-        if (!trimmedKey) return;
-        if (
-          trimmedKey === "name" ||
-          trimmedKey === "icon" ||
-          trimmedKey === "url" ||
-          trimmedKey === "description"
-        ) {
-          throw Error(
-            `Reserved key cannot be used for extended properties ${trimmedKey}`,
-          );
-        }
-        metadataObj[trimmedKey] = value;
-      });
+      const metadataObj = compileTokenMetadata(
+        {
+          name: name.trim(),
+          icon: iconDataUri,
+          url: tokenUrl.trim(),
+          description: description.trim(),
+        },
+        metadataFields,
+      );
 
       const metadata =
         Object.keys(metadataObj).length > 0 ? metadataObj : undefined;
@@ -571,18 +1051,29 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
         tokenSchemasJson: isNFT ? tokenSchemasJson : undefined,
         feeOptions: feeConfig,
         maxData: maxDataBig,
+        expiry: resolveExpiry(),
         addLog: (message, data) => addLog(message, data),
+        pipeline: txPipeline,
       });
 
       addLog("[info] deployCarbonToken response", { response: res });
 
+      if (!res.success && res.unconfirmed) {
+        // Status stays "pending"; the lifecycle block shows the unconfirmed state.
+        addLog("[deploy] Deploy transaction not confirmed yet", { txHash: res.txHash });
+        toast(`Deploy of ${trimmedSymbol} is not confirmed yet`);
+        setDeploying(false);
+        return;
+      }
+
       if (!res.success) {
         addLog("[error] Deploy failed", { error: res.error });
         console.error("Deploy error:", res.error);
         toast.error("Deploy failed: " + (res.error ?? "unknown"));
         setTxStatus({
           kind: "failure",
-          message: res.error ?? "Transaction failure",
+          error: res.errorInfo ?? classifyTxError(res.error ?? "Transaction failure"),
+          hash: res.txHash,
         });
         setDeploying(false);
         return;
@@ -596,6 +1087,7 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
       setTxStatus({
         kind: "success",
         hash: res.txHash ?? "",
+        symbol: trimmedSymbol,
         tokenId: res.tokenId,
       });
 
@@ -615,9 +1107,10 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
       });
       console.error("Deploy exception", err);
       toast.error("Deploy error: " + message);
-      setTxStatus({ kind: "failure", message });
+      setTxStatus({ kind: "failure", error: classifyTxError(err) });
     } finally {
       setDeploying(false);
+      refreshFeeBalances();
       addLog("[done] handleDeploy finished");
     }
   }, [
@@ -643,13 +1136,57 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
     resetForm,
     trimmedSymbol,
     symbolValidation,
+    symbolTaken,
+    network.label,
     tokenUrl,
     walletAddress,
     tokenSchemasJson,
+    txSize,
+    resolveExpiry,
+    refreshFeeBalances,
+    beginTx,
   ]);
 
   return (
     <div className="space-y-3">
+      <FormDraftPrompt draft={formDraft} />
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border px-3 py-1 text-sm font-medium bg-background hover:bg-muted transition">
+            <Upload className="h-4 w-4" />
+            Import spec
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImportSpec(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <Button type="button" variant="outline" size="sm" onClick={handleExportSpec}>
+            <Download className="mr-2 h-4 w-4" />
+            Export spec
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Versioned JSON with every field below, for reuse on another network.
+          </span>
+        </div>
+        {specIssues && specIssues.length > 0 && (
+          <div className="rounded border border-red-500/40 bg-red-500/5 p-2 text-xs text-red-500">
+            <div className="font-medium">Spec problems</div>
+            <ul className="mt-1 list-disc space-y-0.5 pl-4 font-mono">
+              {specIssues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
       <div>
         <label className="block text-sm font-medium mb-1">Type</label>
         <div className="flex gap-2">
@@ -685,6 +1222,7 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
           onChange={(e) => setSymbol(e.target.value.toUpperCase())}
           placeholder="SYMB"
         />
+        <SymbolAvailabilityNotice state={symbolAvailability} />
       </div>
 
       <div className="space-y-3 rounded-lg border border-dashed bg-muted/10 p-4">
@@ -724,76 +1262,14 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
                 <span>Choose file</span>
                 <input
                   type="file"
-                  accept=".png,.jpg,.jpeg,.webp"
+                  accept=".png,.jpg,.jpeg,.webp,.svg"
                   className="hidden"
                   ref={fileInputRef}
                   onChange={(event) => {
                     const file = event.target.files?.[0];
-                    const inputEl = event.target;
-                    if (!file) {
-                      setIconDataUri(null);
-                      setIconFileName(null);
-                      inputEl.value = "";
-                      return;
-                    }
-                    const estimatedPayloadChars = estimateBase64LengthFromBytes(
-                      file.size,
-                    );
-                    if (
-                      ICON_SIZE_LIMIT_ENABLED &&
-                      estimatedPayloadChars > MAX_ICON_BASE64_PAYLOAD_CHARS
-                    ) {
-                      const message = `Icon is ${formatBytes(file.size)}, but only ${ICON_SIZE_LIMIT_LABEL} (~${ICON_PAYLOAD_LIMIT_LABEL} base64 chars) fits inside the 64 KB Carbon transaction limit enforced by Phantasma Link.`;
-                      addLog("[icon] Icon rejected - file too large", {
-                        name: file.name,
-                        size_bytes: file.size,
-                        mime: file.type,
-                        estimated_base64_chars: estimatedPayloadChars,
-                        max_base64_chars: MAX_ICON_BASE64_PAYLOAD_CHARS,
-                      });
-                      toast.error(message);
-                      setIconDataUri(null);
-                      setIconFileName(null);
-                      inputEl.value = "";
-                      return;
-                    }
-                    const reader = new FileReader();
-                    reader.onload = (loadEvt) => {
-                      const result = loadEvt.target?.result;
-                      if (typeof result === "string") {
-                        const validation = validateIconDataUri(result);
-                        if (!validation.ok) {
-                          toast.error(validation.error);
-                          setIconDataUri(null);
-                          setIconFileName(null);
-                        } else {
-                          setIconDataUri(result);
-                          setIconFileName(file.name);
-                          addLog("[icon] Icon loaded", {
-                            name: file.name,
-                            size: file.size,
-                            type: file.type,
-                            base64_payload_chars:
-                              validation.base64PayloadLength,
-                            approx_binary_bytes: validation.approxBinaryBytes,
-                          });
-                          setManualIconInput(result);
-                          setManualIconError(null);
-                        }
-                      } else {
-                        toast.error("Failed to read icon file");
-                        setIconDataUri(null);
-                        setIconFileName(null);
-                      }
-                      inputEl.value = "";
-                    };
-                    reader.onerror = () => {
-                      toast.error("Failed to read icon file");
-                      setIconDataUri(null);
-                      setIconFileName(null);
-                      inputEl.value = "";
-                    };
-                    reader.readAsDataURL(file);
+                    // Cleared right away so picking the same file again reopens the optimiser.
+                    event.target.value = "";
+                    if (file) handleIconFile(file);
                   }}
                 />
               </label>
@@ -838,8 +1314,17 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
               )}
             </div>
             <p className="text-xs text-muted-foreground">
-              Icons must be PNG/JPEG/WebP data URIs under ~{ICON_SIZE_LIMIT_LABEL} (~{ICON_PAYLOAD_LIMIT_LABEL} base64 chars) so the Carbon transaction stays below the 64 KB limit enforced by Phantasma Link.
+              Icons must be PNG/JPEG/WebP data URIs under ~{ICON_SIZE_LIMIT_LABEL} (~{ICON_PAYLOAD_LIMIT_LABEL} base64 chars) so the Carbon transaction stays below the 64 KB limit enforced by Phantasma Link. Uploaded files (SVG too) are cropped to a square and re-encoded to fit the room left after the other metadata.
             </p>
+            {iconCandidate && (
+              <IconOptimizerDialog
+                file={iconCandidate.file}
+                maxPayloadChars={iconCandidate.maxPayloadChars}
+                budgetMeasured={iconCandidate.budgetMeasured}
+                onApply={handleApplyIcon}
+                onCancel={handleCancelIcon}
+              />
+            )}
             <div className="space-y-2">
               <textarea
                 className="w-full rounded border px-2 py-1 font-mono text-xs"
@@ -1082,8 +1567,51 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
               )}
             </button>
           </div>
+          {schemasExpanded ? (
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  className="w-40 rounded border px-2 py-1 text-sm"
+                  value={schemasSourceSymbol}
+                  onChange={(e) => setSchemasSourceSymbol(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      void handleImportSchemasFromToken();
+                    }
+                  }}
+                  placeholder="Existing NFT symbol"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleImportSchemasFromToken()}
+                  disabled={!schemasSourceSymbol.trim() || importingSchemas}
+                >
+                  {importingSchemas ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  Import schemas from token
+                </Button>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Replaces the fields below with the series, ROM and RAM layout of a token on this network.
+              </div>
+              {schemasImportWarnings && (
+                <ul className="list-disc space-y-0.5 pl-4 font-mono text-xs text-amber-600">
+                  {schemasImportWarnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : null}
           {schemasExpanded ? (
             <TokenSchemasBuilderUI
+              key={schemasBuilderKey}
               initialPlacement="rom"
               valueJson={tokenSchemasJson}
               onChange={(json) => setTokenSchemasJson(json)}
@@ -1196,17 +1724,33 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
                 <div className="mt-1 text-amber-500">{feeSummary.error}</div>
               )}
             </div>
+            <TxExpiryControl expiry={txExpiry} disabled={deploying} />
           </div>
         ) : null}
       </div>
 
+      <FeePreflightBanner preflight={feePreflight} />
+      <TxSizeMeter report={txSize.report} error={txSize.error} />
+
+      <TxExportPanel
+        buildTx={buildUnsignedTx}
+        defaultSigner={walletAddress}
+        fileLabel={`deploy-${trimmedSymbol || "token"}`}
+        addLog={addLog}
+      />
+
       <div className="flex items-center gap-2">
         <Button
           onClick={handleDeploy}
           disabled={
             deploying ||
+            !!watchAddress ||
+            txSize.overLimit ||
+            !!expiryError ||
+            feesBlocked ||
             !walletAddress ||
             !trimmedSymbol ||
+            symbolTaken ||
             (symbolValidation && !symbolValidation.ok) ||
             (isNFT && tokenSchemasHasError)
           }
@@ -1226,11 +1770,18 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
         </Button>
       </div>
 
-      {!walletAddress && (
+      {watchAddress ? (
         <div className="flex items-center gap-2 text-xs text-amber-500">
           <AlertTriangle className="h-3 w-3" />
-          Connect your wallet to deploy tokens
+          Read-only while watching an address
         </div>
+      ) : (
+        !walletAddress && (
+          <div className="flex items-center gap-2 text-xs text-amber-500">
+            <AlertTriangle className="h-3 w-3" />
+            Connect your wallet to deploy tokens
+          </div>
+        )
       )}
 
       {walletAddress && !trimmedSymbol && (
@@ -1258,11 +1809,14 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
         <div className="font-medium text-foreground">Deployment status</div>
         {txStatus.kind === "idle" && <div>No recent deployment.</div>}
         {txStatus.kind === "pending" && (
-          <div className="flex items-center gap-2 text-amber-500">
-            <Loader2 className="h-4 w-4 animate-spin" />
-            Waiting for transaction confirmation for {txStatus.symbol}…
-          </div>
+          <TxLifecycleProgress
+            event={txEvent}
+            warning={txWarning}
+            onDecision={decideTx}
+            onStopWaiting={stopWaitingTx}
+          />
         )}
+        <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
         {txStatus.kind === "success" && (
           <div className="space-y-1">
             <div className="text-emerald-600 flex items-center gap-2">
@@ -1274,58 +1828,21 @@ export const TokenDeploymentForm = forwardRef<TokenDeploymentFormHandle, TokenDe
                 </span>
               )}
             </div>
-            {txStatus.hash && (
-              <div className="flex items-center gap-2">
-                <span className="font-mono text-xs break-all">
-                  {txStatus.hash}
-                </span>
-                <Button
-                  type="button"
-                  size="sm"
-                  variant="outline"
-                  onClick={() => {
-                    navigator.clipboard
-                      .writeText(txStatus.hash)
-                      .then(() => toast.success("Hash copied"))
-                      .catch(() => toast.error("Copy failed"));
-                  }}
-                >
-                  Copy
-                </Button>
-              </div>
-            )}
+            <div className="flex items-center gap-1 text-xs">
+              Token: <ExplorerLink kind="token" value={txStatus.symbol} />
+            </div>
+            {txStatus.hash && <ExplorerLink kind="tx" value={txStatus.hash} className="max-w-full text-xs" />}
           </div>
         )}
         {txStatus.kind === "failure" && (
-          <div className="space-y-1 text-destructive">
-            <div className="flex items-center gap-2">
-              <XCircle className="h-4 w-4" />
-              Transaction failed: {txStatus.message}
-            </div>
+          <TxErrorNotice error={txStatus.error}>
             {txStatus.hash && (
-              <div className="flex items-center gap-2 text-muted-foreground">
-                <span className="font-mono text-xs break-all">
-                  {txStatus.hash}
-                </span>
-                <Button
-                  type="button"
-                  size="sm"
-                  variant="outline"
-                  onClick={() => {
-                    navigator.clipboard
-                      .writeText(txStatus.hash!)
-                      .then(() => toast.success("Hash copied"))
-                      .catch(() => toast.error("Copy failed"));
-                  }}
-                >
-                  Copy
-                </Button>
-              </div>
+              <ExplorerLink kind="tx" value={txStatus.hash} className="max-w-full text-xs text-muted-foreground" />
             )}
-          </div>
+          </TxErrorNotice>
         )}
         <div className="text-xs text-muted-foreground">
-          RPC: {process.env.NEXT_PUBLIC_API_URL ?? "local"}
+          RPC: {network.rpcUrl} ({network.nexus})
         </div>
       </div>
     </div>
@@ -1,7 +1,7 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { EasyConnect, NFT, Token, FeeOptions, TokenHelper, hexToBytes } from "phantasma-sdk-ts";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Bytes32, EasyConnect, NFT, Token, FeeOptions, TokenHelper, hexToBytes } from "phantasma-sdk-ts";
 import { Loader2, Sparkles, ChevronDown, ChevronLeft, ChevronRight, X } from "lucide-react";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,21 +15,42 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 import { getTokenPrimary, isTokenNFT } from "../utils/tokenHelpers";
-import { getNftId, truncateMiddle } from "../utils/nftHelpers";
+import { getNftId } from "../utils/nftHelpers";
 import type { AddLogFn } from "../types";
 import {
-  getTokenExtended,
-  listTokenSeries,
-  listTokenNfts,
-  listAccountOwnedTokens,
-  listAccountOwnedSeries,
-  listAccountNfts,
+  PLACEHOLDER_SIGNER,
+  buildInfuseTx,
+  classifyTxError,
+  createTxError,
+  queryAccountNfts,
+  queryAccountOwnedSeries,
+  queryAccountOwnedTokens,
+  queryKeys,
+  queryTokenExtended,
+  queryTokenNfts,
+  queryTokenSeries,
   type TokenSeriesListItem,
+  type TxErrorInfo,
   infuseNfts,
 } from "@/lib/phantasmaClient";
+import { ExplorerLink } from "./ExplorerLink";
 import { NftPreviewCard } from "./NftPreviewCard";
 import { parseBigIntInput } from "../utils/bigintInputs";
 import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
+import { useQueryRefresh } from "../hooks/useQueryRefresh";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { useTxSizeMeter } from "../hooks/useTxSizeMeter";
+import { useTxExpiry } from "../hooks/useTxExpiry";
+import { useFeePreflight } from "../hooks/useFeePreflight";
+import { useFormDraft } from "../hooks/useFormDraft";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+import { TxSizeMeter } from "./TxSizeMeter";
+import { TxExportPanel } from "./TxExportPanel";
+import { TxExpiryControl } from "./TxExpiryControl";
+import { FeePreflightBanner } from "./FeePreflightBanner";
+import { FormDraftPrompt } from "./FormDraftPrompt";
+import { TxErrorNotice } from "./TxErrorNotice";
 
 type PhaCtxMinimal = {
   conn?: EasyConnect | null;
@@ -39,6 +60,8 @@ type TokenInfuseTabProps = {
   selectedToken: Token | null;
   phaCtx: PhaCtxMinimal;
   addLog: AddLogFn;
+  // Set while an address is being watched: its NFTs are listed, nothing can be signed.
+  watchAddress?: string | null;
 };
 
 const NFT_PAGE_SIZE = 3;
@@ -50,6 +73,18 @@ type InfusionQueueItem = {
   carbonNftAddress: string;
 };
 
+type InfuseFormDraft = {
+  seriesId: number | null;
+  targetNft: NFT | null;
+  ownedTokenSymbol: string;
+  ownedSeriesId: number | null;
+  // Queued NFTs; their carbon ids are parsed again on restore.
+  queue: NFT[];
+  gasFeeBase: string;
+  feeMultiplier: string;
+  maxDataLimit: string;
+};
+
 const INFUSE_FEES_DEFAULTS = {
   gasFeeBase: "10000",
   feeMultiplier: "1000",
@@ -68,7 +103,7 @@ function extractCarbonNftInfo(address: string) {
   return TokenHelper.unpackNftAddress(bytes);
 }
 
-export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTabProps) {
+export function TokenInfuseTab({ selectedToken, phaCtx, addLog, watchAddress }: TokenInfuseTabProps) {
   const [loadingToken, setLoadingToken] = useState(false);
   const [tokenError, setTokenError] = useState<string | null>(null);
   const [carbonId, setCarbonId] = useState<bigint | null>(null);
@@ -105,14 +140,32 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
   const [ownedNftPageIndex, setOwnedNftPageIndex] = useState(0);
   const [infusionQueue, setInfusionQueue] = useState<InfusionQueueItem[]>([]);
   const [infusing, setInfusing] = useState(false);
-  const [infusionError, setInfusionError] = useState<string | null>(null);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle(selectedToken?.symbol);
+  const txUnconfirmed = txEvent?.stage === "unconfirmed";
+  const [infusionError, setInfusionError] = useState<TxErrorInfo | null>(null);
   const [infusionTxHash, setInfusionTxHash] = useState<string | null>(null);
   const [feesExpanded, setFeesExpanded] = useState(false);
   const [gasFeeBase, setGasFeeBase] = useState<string>(INFUSE_FEES_DEFAULTS.gasFeeBase);
   const [feeMultiplier, setFeeMultiplier] = useState<string>(INFUSE_FEES_DEFAULTS.feeMultiplier);
   const [maxDataLimit, setMaxDataLimit] = useState<string>(INFUSE_FEES_DEFAULTS.maxDataLimit);
+  const txExpiry = useTxExpiry();
+  const { resolveExpiry, error: expiryError } = txExpiry;
+  // Picks of a restored draft that the series / owned token effects would clear; they are
+  // applied once those effects have run.
+  const restoredTargetRef = useRef<NFT | null>(null);
+  const restoredOwnedSeriesRef = useRef<number | null>(null);
 
   const walletAddress = phaCtx?.conn?.link?.account?.address ?? null;
+  // Account whose NFTs are listed; the watched one takes precedence over the wallet.
+  const accountAddress = watchAddress ?? walletAddress;
 
   const tokenPrimary = selectedToken
     ? getTokenPrimary(selectedToken, selectedToken.symbol)
@@ -141,7 +194,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     setLoadingToken(true);
     setTokenError(null);
     try {
-      const token = await getTokenExtended(selectedToken.symbol);
+      const token = await queryTokenExtended(selectedToken.symbol);
       const rawCarbonId = token.carbonId;
       if (typeof rawCarbonId !== "string" || !rawCarbonId.trim()) {
         addLog("[error] Token info missing carbonId", { symbol: selectedToken.symbol });
@@ -164,7 +217,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
       setSeriesLoading(true);
       setSeriesError(null);
       try {
-        const list = await listTokenSeries(symbol, cId);
+        const list = await queryTokenSeries(symbol, cId);
         setSeriesList(list);
         setSelectedSeriesId((prev) => {
           if (prev !== null && list.some((entry) => entry.carbonSeriesId === prev)) {
@@ -192,7 +245,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
       setSeriesNftLoading(true);
       setSeriesNftError(null);
       try {
-        const res = await listTokenNfts({
+        const res = await queryTokenNfts({
           carbonTokenId: carbonId,
           carbonSeriesId: selectedSeriesId,
           cursor,
@@ -226,11 +279,11 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
   );
 
   const loadOwnedTokens = useCallback(async () => {
-    if (!walletAddress) return;
+    if (!accountAddress) return;
     setOwnedTokensLoading(true);
     setOwnedTokensError(null);
     try {
-      const res = await listAccountOwnedTokens({ account: walletAddress, pageSize: 100 });
+      const res = await queryAccountOwnedTokens({ account: accountAddress, pageSize: 100 });
       setOwnedTokens(res.items);
       addLog("[infuse] Loaded owned NFT tokens", { count: res.items.length });
     } catch (err: unknown) {
@@ -241,15 +294,15 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     } finally {
       setOwnedTokensLoading(false);
     }
-  }, [walletAddress, addLog]);
+  }, [accountAddress, addLog]);
 
   const loadOwnedSeries = useCallback(async () => {
-    if (!walletAddress || !selectedOwnedTokenSymbol) return;
+    if (!accountAddress || !selectedOwnedTokenSymbol) return;
     setOwnedSeriesLoading(true);
     setOwnedSeriesError(null);
     try {
-      const res = await listAccountOwnedSeries({
-        account: walletAddress,
+      const res = await queryAccountOwnedSeries({
+        account: accountAddress,
         tokenSymbol: selectedOwnedTokenSymbol,
         carbonTokenId: selectedOwnedTokenCarbonId ?? 0n,
         pageSize: 100,
@@ -267,16 +320,16 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     } finally {
       setOwnedSeriesLoading(false);
     }
-  }, [walletAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, addLog]);
+  }, [accountAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, addLog]);
 
   const loadOwnedNfts = useCallback(
     async (cursor: string, opts?: { reset?: boolean; pageIndex?: number }) => {
-      if (!walletAddress) return;
+      if (!accountAddress) return;
       setOwnedNftLoading(true);
       setOwnedNftError(null);
       try {
-        const res = await listAccountNfts({
-          account: walletAddress,
+        const res = await queryAccountNfts({
+          account: accountAddress,
           tokenSymbol: selectedOwnedTokenSymbol,
           carbonTokenId: selectedOwnedTokenCarbonId ?? 0n,
           carbonSeriesId: selectedOwnedSeriesId ?? 0,
@@ -307,7 +360,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
         setOwnedNftLoading(false);
       }
     },
-    [walletAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, selectedOwnedSeriesId, addLog],
+    [accountAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, selectedOwnedSeriesId, addLog],
   );
 
   useEffect(() => {
@@ -321,6 +374,8 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     setInfusionError(null);
     setInfusionTxHash(null);
     setInfusing(false);
+    restoredTargetRef.current = null;
+    restoredOwnedSeriesRef.current = null;
     if (selectedToken?.symbol && isNft) {
       void loadTokenDetails();
     }
@@ -344,6 +399,10 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
 
   useEffect(() => {
     resetSeriesNftListing();
+    if (restoredTargetRef.current) {
+      setSelectedTargetNft(restoredTargetRef.current);
+      restoredTargetRef.current = null;
+    }
     if (carbonId != null && selectedSeriesId != null) {
       void loadSeriesNfts("", { reset: true });
     }
@@ -361,26 +420,38 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     setInfusionQueue([]);
     setInfusionError(null);
     setInfusionTxHash(null);
-    if (walletAddress) {
+    if (accountAddress) {
       void loadOwnedTokens();
     }
-  }, [walletAddress, loadOwnedTokens, resetOwnedNftListing]);
+  }, [accountAddress, loadOwnedTokens, resetOwnedNftListing]);
 
   useEffect(() => {
     setOwnedSeriesOptions([]);
     setOwnedSeriesError(null);
-    setSelectedOwnedSeriesId(null);
-    if (walletAddress && selectedOwnedTokenSymbol) {
+    setSelectedOwnedSeriesId(restoredOwnedSeriesRef.current);
+    restoredOwnedSeriesRef.current = null;
+    if (accountAddress && selectedOwnedTokenSymbol) {
       void loadOwnedSeries();
     }
-  }, [walletAddress, selectedOwnedTokenSymbol, loadOwnedSeries]);
+  }, [accountAddress, selectedOwnedTokenSymbol, loadOwnedSeries]);
 
   useEffect(() => {
     resetOwnedNftListing();
-    if (walletAddress) {
+    if (accountAddress) {
       void loadOwnedNfts("", { reset: true });
     }
-  }, [walletAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, selectedOwnedSeriesId, loadOwnedNfts, resetOwnedNftListing]);
+  }, [accountAddress, selectedOwnedTokenSymbol, selectedOwnedTokenCarbonId, selectedOwnedSeriesId, loadOwnedNfts, resetOwnedNftListing]);
+
+  // Reload the visible pages when a confirmed tx invalidates them.
+  useQueryRefresh(carbonId != null ? queryKeys.tokenSeries(carbonId) : null, () => {
+    if (selectedToken?.symbol && carbonId != null) void loadSeries(selectedToken.symbol, carbonId);
+  });
+  useQueryRefresh(carbonId != null ? queryKeys.tokenNfts(carbonId) : null, () => {
+    if (selectedSeriesId != null) void loadSeriesNfts(seriesNftCursorHistory[seriesNftPageIndex] ?? "");
+  });
+  useQueryRefresh(accountAddress ? queryKeys.account(accountAddress) : null, () => {
+    void loadOwnedNfts(ownedNftCursorHistory[ownedNftPageIndex] ?? "");
+  });
 
   const handleSeriesNext = useCallback(() => {
     if (!seriesNftNextCursor) return;
@@ -438,27 +509,121 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     setMaxDataLimit(INFUSE_FEES_DEFAULTS.maxDataLimit);
   }, []);
 
-  const infuseDisabled = !targetCarbonAddress || infusionQueue.length === 0 || infusing;
+  // One group per carbon token; each group becomes a single transfer call.
+  const instanceGroups = useMemo(() => {
+    const groupedByToken = new Map<string, { carbonTokenId: bigint; instanceIds: bigint[] }>();
+    for (const item of infusionQueue) {
+      const key = item.carbonTokenId.toString();
+      const existing = groupedByToken.get(key);
+      if (existing) {
+        existing.instanceIds.push(item.instanceId);
+      } else {
+        groupedByToken.set(key, { carbonTokenId: item.carbonTokenId, instanceIds: [item.instanceId] });
+      }
+    }
+    return Array.from(groupedByToken.values());
+  }, [infusionQueue]);
+
+  const feeSummary = useMemo(() => {
+    try {
+      const gasFeeBaseValue = parseBigIntInput(gasFeeBase, "Gas fee base");
+      const feeMultiplierValue = parseBigIntInput(feeMultiplier, "Fee multiplier");
+      const maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
+        allowEmpty: true,
+        defaultValue: 0n,
+      });
+      if (infusionQueue.length === 0) {
+        return { ok: false as const, error: "Add NFTs to the queue to estimate totals." };
+      }
+
+      const feeOptions = new FeeOptions(gasFeeBaseValue, feeMultiplierValue);
+
+      // Mirror infuseNfts grouping to keep the max gas estimate aligned with tx construction.
+      const groupedCounts = new Map<string, number>();
+      for (const item of infusionQueue) {
+        const key = item.carbonTokenId.toString();
+        groupedCounts.set(key, (groupedCounts.get(key) ?? 0) + 1);
+      }
+
+      let maxGasValue: bigint;
+      if (groupedCounts.size === 1) {
+        const count = Array.from(groupedCounts.values())[0] ?? 0;
+        maxGasValue = feeOptions.calculateMaxGas(count);
+      } else {
+        maxGasValue = feeOptions.calculateMaxGas(infusionQueue.length);
+      }
+
+      return { ok: true as const, maxGas: maxGasValue, maxData: maxDataValue };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Invalid fee configuration";
+      return { ok: false as const, error: message };
+    }
+  }, [gasFeeBase, feeMultiplier, maxDataLimit, infusionQueue]);
+  const feePreflight = useFeePreflight(walletAddress, feeSummary.ok ? feeSummary : null);
+  const { blocked: feesBlocked, refresh: refreshFeeBalances } = feePreflight;
+
+  const buildUnsignedTx = useCallback(
+    (senderPublicKey: Bytes32) => {
+      if (!targetCarbonAddress || instanceGroups.length === 0) return null;
+      let feeOptions: FeeOptions;
+      let maxDataValue: bigint;
+      try {
+        feeOptions = new FeeOptions(
+          parseBigIntInput(gasFeeBase, "Gas fee base"),
+          parseBigIntInput(feeMultiplier, "Fee multiplier"),
+        );
+        maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", { allowEmpty: true, defaultValue: 0n });
+      } catch (err: unknown) {
+        return { success: false as const, error: err instanceof Error ? err.message : String(err) };
+      }
+      const expiry = resolveExpiry();
+      if (expiry === null) {
+        return { success: false as const, error: expiryError ?? "Invalid expiry" };
+      }
+      return buildInfuseTx({
+        senderPublicKey,
+        targetCarbonAddress,
+        groups: instanceGroups,
+        feeOptions,
+        maxData: maxDataValue,
+        expiry,
+      });
+    },
+    [targetCarbonAddress, instanceGroups, gasFeeBase, feeMultiplier, maxDataLimit, resolveExpiry, expiryError],
+  );
+  const buildSizeTx = useCallback(() => buildUnsignedTx(PLACEHOLDER_SIGNER), [buildUnsignedTx]);
+  const txSize = useTxSizeMeter(buildSizeTx);
+
+  const infuseDisabled =
+    !!watchAddress ||
+    !targetCarbonAddress || infusionQueue.length === 0 || infusing || txSize.overLimit || !!expiryError || feesBlocked;
 
   const handleInfuse = useCallback(async () => {
     if (!targetCarbonAddress) {
-      setInfusionError("Select target NFT to infuse into");
+      setInfusionError(createTxError("invalid_input", "Select target NFT to infuse into"));
       return;
     }
     if (infusionQueue.length === 0) {
-      setInfusionError("Add NFTs to the infusion queue");
+      setInfusionError(createTxError("invalid_input", "Add NFTs to the infusion queue"));
       return;
     }
     const walletConn = phaCtx?.conn;
     if (!walletConn) {
       const message = "Connect wallet before infusing";
-      setInfusionError(message);
+      setInfusionError(createTxError("wallet_unavailable", message));
       addLog("[error] Wallet not connected for infusion", {});
       return;
     }
+    if (txSize.overLimit) {
+      setInfusionError(
+        createTxError("encoding_failure", "Transaction is too large for Phantasma Link. Infuse fewer NFTs at once."),
+      );
+      addLog("[error] Infusion transaction exceeds Link size limit", { report: txSize.report });
+      return;
+    }
     if (carbonId == null) {
       const message = "Token carbon id is not available yet";
-      setInfusionError(message);
+      setInfusionError(createTxError("invalid_input", message));
       addLog("[error] Token carbon id missing for infusion", { symbol: selectedToken?.symbol });
       return;
     }
@@ -471,7 +636,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
       maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", { allowEmpty: true, defaultValue: 0n });
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      setInfusionError(message);
+      setInfusionError(createTxError("invalid_input", message));
       addLog("[error] Invalid fee configuration for infusion", { error: message });
       return;
     }
@@ -479,18 +644,8 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     setInfusing(true);
     setInfusionError(null);
     setInfusionTxHash(null);
+    const txPipeline = beginTx();
     try {
-      const groupedByToken = new Map<string, { carbonTokenId: bigint; instanceIds: bigint[] }>();
-      for (const item of infusionQueue) {
-        const key = item.carbonTokenId.toString();
-        const existing = groupedByToken.get(key);
-        if (existing) {
-          existing.instanceIds.push(item.instanceId);
-        } else {
-          groupedByToken.set(key, { carbonTokenId: item.carbonTokenId, instanceIds: [item.instanceId] });
-        }
-      }
-      const instanceGroups = Array.from(groupedByToken.values());
       if (instanceGroups.length === 0) {
         throw new Error("No NFTs selected for infusion");
       }
@@ -499,11 +654,22 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
         conn: walletConn,
         targetCarbonAddress,
         groups: instanceGroups,
+        targetCarbonTokenId: carbonId ?? undefined,
         feeOptions,
         maxData: maxDataValue,
+        expiry: resolveExpiry(),
+        addLog,
+        pipeline: txPipeline,
       });
       if (!res.success) {
-        throw new Error(res.error);
+        if (res.unconfirmed) {
+          addLog("[infuse] Infusion transaction not confirmed yet", { txHash: res.txHash });
+          return;
+        }
+        const failure = res.errorInfo ?? classifyTxError(res.error);
+        setInfusionError(failure);
+        addLog("[error] Infusion transaction failed", { error: failure.message, kind: failure.kind });
+        return;
       }
       setInfusionTxHash(res.txHash);
       addLog("[infuse] Submitted infusion transaction", {
@@ -516,24 +682,30 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
       await loadSeriesNfts("", { reset: true });
       await loadOwnedNfts("", { reset: true });
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setInfusionError(message);
-      addLog("[error] Infusion transaction failed", { error: message });
+      const failure = classifyTxError(err);
+      setInfusionError(failure);
+      addLog("[error] Infusion transaction failed", { error: failure.message, kind: failure.kind });
     } finally {
       setInfusing(false);
+      refreshFeeBalances();
     }
   }, [
     phaCtx?.conn,
     targetCarbonAddress,
     carbonId,
     infusionQueue,
+    instanceGroups,
+    txSize,
     gasFeeBase,
     feeMultiplier,
     maxDataLimit,
+    resolveExpiry,
+    refreshFeeBalances,
     loadSeriesNfts,
     loadOwnedNfts,
     addLog,
     selectedToken?.symbol,
+    beginTx,
   ]);
 
   const ownedTokenOptionsDisplay = useMemo(() => {
@@ -555,41 +727,95 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
     );
   }, [gasFeeBase, feeMultiplier, maxDataLimit]);
 
-  const feeSummary = useMemo(() => {
-    try {
-      const gasFeeBaseValue = parseBigIntInput(gasFeeBase, "Gas fee base");
-      const feeMultiplierValue = parseBigIntInput(feeMultiplier, "Fee multiplier");
-      const maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
-        allowEmpty: true,
-        defaultValue: 0n,
-      });
-      if (infusionQueue.length === 0) {
-        return { ok: false as const, error: "Add NFTs to the queue to estimate totals." };
-      }
-
-      const feeOptions = new FeeOptions(gasFeeBaseValue, feeMultiplierValue);
+  const draftData = useMemo<InfuseFormDraft>(
+    () => ({
+      seriesId: selectedSeriesId,
+      targetNft: selectedTargetNft,
+      ownedTokenSymbol: selectedOwnedTokenSymbol,
+      ownedSeriesId: selectedOwnedSeriesId,
+      queue: infusionQueue.map((item) => item.nft),
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+    }),
+    [
+      selectedSeriesId,
+      selectedTargetNft,
+      selectedOwnedTokenSymbol,
+      selectedOwnedSeriesId,
+      infusionQueue,
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+    ],
+  );
+  // The series picker defaults to the first series on its own, so it does not make a draft
+  // worth keeping.
+  const draftEmpty =
+    !selectedTargetNft &&
+    !selectedOwnedTokenSymbol &&
+    selectedOwnedSeriesId === null &&
+    infusionQueue.length === 0 &&
+    isFeesDefault;
 
-      // Mirror infuseNfts grouping to keep the max gas estimate aligned with tx construction.
-      const groupedCounts = new Map<string, number>();
-      for (const item of infusionQueue) {
-        const key = item.carbonTokenId.toString();
-        groupedCounts.set(key, (groupedCounts.get(key) ?? 0) + 1);
+  const applyDraft = useCallback(
+    (draft: InfuseFormDraft) => {
+      const seriesId =
+        draft.seriesId !== null && seriesList.some((entry) => entry.carbonSeriesId === draft.seriesId)
+          ? draft.seriesId
+          : selectedSeriesId;
+      // The target belongs to its series; drop it if that series is gone.
+      const targetNft = seriesId === draft.seriesId ? draft.targetNft : null;
+      if (seriesId !== selectedSeriesId) {
+        restoredTargetRef.current = targetNft;
+        setSelectedSeriesId(seriesId);
+      } else {
+        setSelectedTargetNft(targetNft);
       }
 
-      let maxGasValue: bigint;
-      if (groupedCounts.size === 1) {
-        const count = Array.from(groupedCounts.values())[0] ?? 0;
-        maxGasValue = feeOptions.calculateMaxGas(count);
+      const ownedToken = ownedTokenOptionsDisplay.find((option) => option.symbol === draft.ownedTokenSymbol);
+      const ownedTokenSymbol = ownedToken?.symbol ?? "";
+      const ownedSeriesId = ownedToken ? draft.ownedSeriesId : null;
+      if (ownedTokenSymbol !== selectedOwnedTokenSymbol) {
+        restoredOwnedSeriesRef.current = ownedSeriesId;
+        setSelectedOwnedTokenSymbol(ownedTokenSymbol);
+        setSelectedOwnedTokenCarbonId(ownedToken?.carbonId ?? null);
       } else {
-        maxGasValue = feeOptions.calculateMaxGas(infusionQueue.length);
+        setSelectedOwnedSeriesId(ownedSeriesId);
       }
 
-      return { ok: true as const, maxGas: maxGasValue, maxData: maxDataValue };
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Invalid fee configuration";
-      return { ok: false as const, error: message };
-    }
-  }, [gasFeeBase, feeMultiplier, maxDataLimit, infusionQueue]);
+      const queue: InfusionQueueItem[] = [];
+      for (const nft of draft.queue) {
+        const address = nft.carbonNftAddress;
+        if (!address || address === targetNft?.carbonNftAddress) continue;
+        if (queue.some((item) => item.carbonNftAddress === address)) continue;
+        try {
+          const { instanceId, carbonTokenId } = extractCarbonNftInfo(address);
+          queue.push({ nft, instanceId, carbonTokenId, carbonNftAddress: address });
+        } catch {
+          // A malformed entry is left out; the rest of the queue still restores.
+        }
+      }
+      setInfusionQueue(queue);
+      setGasFeeBase(draft.gasFeeBase);
+      setFeeMultiplier(draft.feeMultiplier);
+      setMaxDataLimit(draft.maxDataLimit);
+    },
+    [seriesList, selectedSeriesId, ownedTokenOptionsDisplay, selectedOwnedTokenSymbol],
+  );
+
+  const targetNftId = getNftId(selectedTargetNft);
+  const formDraft = useFormDraft({
+    tab: "infuse",
+    walletAddress,
+    token: selectedToken?.symbol ?? null,
+    data: draftData,
+    empty: draftEmpty,
+    label: `${tokenPrimary} infusion${targetNftId ? ` into #${targetNftId}` : ""}`,
+    ready:
+      !!selectedToken && isNft && !loadingToken && carbonId !== null && !seriesLoading && !ownedTokensLoading,
+    onRestore: applyDraft,
+  });
 
   if (!selectedToken) {
     return (
@@ -636,6 +862,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
           <div className="text-sm text-red-600">{tokenError}</div>
         ) : (
           <>
+            <FormDraftPrompt draft={formDraft} />
             <div className="space-y-2">
               <div className="text-xs font-medium uppercase text-muted-foreground">Series</div>
               {seriesLoading ? (
@@ -731,6 +958,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                       <NftPreviewCard
                         key={`${nft.carbonNftAddress}-${nftId || idx}`}
                         nft={nft}
+                        symbol={tokenPrimary}
                         selected={isSelected}
                         onSelect={() => setSelectedTargetNft(nft)}
                       />
@@ -739,13 +967,27 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                 </div>
               )}
               {selectedTargetNft && (
-                <div className="text-xs text-muted-foreground">
-                  Target NFT:
-                  <span className="ml-1 font-mono" title={getNftId(selectedTargetNft) || undefined}>
-                    {getNftId(selectedTargetNft)
-                      ? truncateMiddle(getNftId(selectedTargetNft), 46, 12)
-                      : "—"}
-                  </span>
+                <div className="space-y-0.5 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-1">
+                    Target NFT:
+                    {getNftId(selectedTargetNft) ? (
+                      <ExplorerLink
+                        kind="nft"
+                        value={getNftId(selectedTargetNft)}
+                        symbol={tokenPrimary}
+                        maxLength={46}
+                        tailLength={12}
+                      />
+                    ) : (
+                      "—"
+                    )}
+                  </div>
+                  {selectedTargetNft.carbonNftAddress && (
+                    <div className="flex items-center gap-1">
+                      Carbon address:
+                      <ExplorerLink value={selectedTargetNft.carbonNftAddress} maxLength={46} tailLength={12} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -886,7 +1128,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                 </div>
               </div>
 
-            {!walletAddress ? (
+            {!accountAddress ? (
               <div className="text-sm text-muted-foreground">Connect wallet to see NFTs you can infuse.</div>
             ) : ownedNftLoading ? (
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -915,6 +1157,7 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                     <div key={`${nft.carbonNftAddress}-${nftId || idx}`} className="space-y-1">
                       <NftPreviewCard
                         nft={nft}
+                        symbol={tokenPrimary}
                         disabled={isTarget || alreadyQueued}
                         onSelect={() => handleAddToQueue(nft)}
                       />
@@ -947,12 +1190,10 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                   {infusionQueue.map((item) => (
                     <div key={item.carbonNftAddress} className="flex items-start gap-2 rounded border p-2">
                       <div className="flex-1">
-                        <NftPreviewCard nft={item.nft} disabled />
-                        <div className="mt-1 text-[11px] text-muted-foreground">
+                        <NftPreviewCard nft={item.nft} symbol={tokenPrimary} disabled />
+                        <div className="mt-1 flex items-center gap-1 text-[11px] text-muted-foreground">
                           Instance ID:
-                          <span className="ml-1 font-mono">
-                            {truncateMiddle(item.instanceId.toString(), 46, 12)}
-                          </span>
+                          <ExplorerLink value={item.instanceId.toString()} maxLength={46} tailLength={12} />
                         </div>
                       </div>
                       <Button
@@ -1055,10 +1296,22 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                         <div className="mt-1 text-amber-500">{feeSummary.error}</div>
                       )}
                     </div>
+                    <TxExpiryControl expiry={txExpiry} disabled={infusing} />
                   </div>
                 ) : null}
               </div>
 
+              <div className="space-y-3 pt-2">
+                <FeePreflightBanner preflight={feePreflight} />
+                <TxSizeMeter report={txSize.report} error={txSize.error} />
+                <TxExportPanel
+                  buildTx={buildUnsignedTx}
+                  defaultSigner={phaCtx?.conn?.link?.account?.address}
+                  fileLabel={`infuse-${selectedToken.symbol}`}
+                  addLog={addLog}
+                />
+              </div>
+
               <div className="flex items-center gap-2 pt-2">
                 <Button type="button" onClick={handleInfuse} disabled={infuseDisabled}>
                   {infusing ? (
@@ -1071,8 +1324,10 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
                     </>
                   )}
                 </Button>
-                {!selectedTargetNft && (
-                  <span className="text-xs text-muted-foreground">Select target NFT first</span>
+                {watchAddress ? (
+                  <span className="text-xs text-muted-foreground">Read-only while watching an address</span>
+                ) : (
+                  !selectedTargetNft && <span className="text-xs text-muted-foreground">Select target NFT first</span>
                 )}
                 {selectedTargetNft && infusionQueue.length === 0 && (
                   <span className="text-xs text-muted-foreground">Add NFTs to the queue</span>
@@ -1081,19 +1336,23 @@ export function TokenInfuseTab({ selectedToken, phaCtx, addLog }: TokenInfuseTab
 
               <div className="space-y-1 text-sm text-muted-foreground">
                 <div className="font-medium text-foreground">Infusion status</div>
-                {infusing && (
-                  <div className="flex items-center gap-2 text-amber-500">
-                    <Loader2 className="h-4 w-4 animate-spin" /> Waiting for transaction confirmation…
-                  </div>
+                {(infusing || txUnconfirmed) && (
+                  <TxLifecycleProgress
+                    event={txEvent}
+                    warning={txWarning}
+                    onDecision={decideTx}
+                    onStopWaiting={stopWaitingTx}
+                  />
                 )}
+                <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
                 {!infusing && infusionTxHash && (
                   <div className="flex items-center gap-2 text-emerald-600">
                     Transaction confirmed
-                    <span className="font-mono text-xs break-all">{infusionTxHash}</span>
+                    <ExplorerLink kind="tx" value={infusionTxHash} className="text-xs" />
                   </div>
                 )}
                 {!infusing && infusionError && (
-                  <div className="text-destructive">Infusion failed: {infusionError}</div>
+                  <TxErrorNotice error={infusionError} title="Infusion failed" />
                 )}
               </div>
             </div>
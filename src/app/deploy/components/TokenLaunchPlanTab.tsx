@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { EasyConnect } from "phantasma-sdk-ts";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Circle,
+  Clock,
+  Layers,
+  Loader2,
+  Pause,
+  Play,
+  Trash2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  createLaunchPlan,
+  isLaunchPlanRunning,
+  parseCollectionLaunchSpec,
+  runLaunchPlan,
+  type LaunchPlan,
+  type LaunchStep,
+} from "@/lib/phantasmaClient";
+
+import type { AddLogFn } from "../types";
+import { useLaunchPlans } from "../hooks/useLaunchPlans";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { formatTimeAgo } from "../utils/timeFormatting";
+import { ExplorerLink } from "./ExplorerLink";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+
+type PhaCtxMinimal = {
+  conn?: EasyConnect | null;
+};
+
+type TokenLaunchPlanTabProps = {
+  phaCtx: PhaCtxMinimal;
+  addLog: AddLogFn;
+  onRefreshTokens: (ownerAddress: string) => Promise<void>;
+  expandToken: (tokenKey: string) => void;
+  // Set while an address is being watched: plans stay visible, nothing can be signed.
+  watchAddress?: string | null;
+};
+
+function describeStep(plan: LaunchPlan, step: LaunchStep): string {
+  const symbol = plan.spec.token.token.symbol;
+  if (step.kind === "deploy") return `Deploy ${symbol}`;
+  const seriesIndex = step.seriesIndex ?? 0;
+  const seriesId = plan.seriesIds[seriesIndex];
+  const seriesLabel = `series ${seriesIndex + 1}${seriesId !== null && seriesId !== undefined ? ` (#${seriesId})` : ""}`;
+  if (step.kind === "series") {
+    const name = plan.spec.series[seriesIndex]?.values.name?.trim();
+    return `Create ${seriesLabel}${name ? ` "${name}"` : ""}`;
+  }
+  const mint = plan.spec.series[seriesIndex]?.mints[step.mintIndex ?? 0];
+  const name = mint?.values.name?.trim();
+  return `Mint NFT ${(step.mintIndex ?? 0) + 1} into ${seriesLabel}${name ? ` "${name}"` : ""}`;
+}
+
+function StepStatusIcon({ step, interrupted }: { step: LaunchStep; interrupted: boolean }) {
+  switch (step.status) {
+    case "done":
+      return <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 shrink-0 text-destructive" />;
+    case "unconfirmed":
+      return <Clock className="h-4 w-4 shrink-0 text-amber-500" />;
+    case "running":
+      return interrupted ? (
+        <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+      ) : (
+        <Loader2 className="h-4 w-4 shrink-0 animate-spin text-sky-600" />
+      );
+    default:
+      return <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  }
+}
+
+export function TokenLaunchPlanTab({
+  phaCtx,
+  addLog,
+  onRefreshTokens,
+  expandToken,
+  watchAddress,
+}: TokenLaunchPlanTabProps) {
+  const walletAddress = phaCtx?.conn?.link?.account?.address ?? null;
+  const canSign = !watchAddress && !!walletAddress && !!phaCtx?.conn;
+  const { plans, removePlan } = useLaunchPlans(walletAddress);
+  const [specIssues, setSpecIssues] = useState<string[] | null>(null);
+  const [runningPlanId, setRunningPlanId] = useState<string | null>(null);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle();
+
+  const handleImportSpec = useCallback(
+    async (file: File) => {
+      if (!walletAddress) return;
+      let text: string;
+      try {
+        text = await file.text();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        toast.error(`Failed to read file: ${message}`);
+        return;
+      }
+      const result = parseCollectionLaunchSpec(text);
+      if (!result.success) {
+        setSpecIssues(result.issues);
+        addLog("[launch] Collection spec rejected", { name: file.name, issues: result.issues });
+        toast.error(result.error);
+        return;
+      }
+      setSpecIssues(null);
+      const plan = createLaunchPlan(result.spec, walletAddress);
+      addLog("[launch] Created launch plan", {
+        planId: plan.id,
+        symbol: result.spec.token.token.symbol,
+        steps: plan.steps.length,
+      });
+      toast.success(`Launch plan for ${result.spec.token.token.symbol} ready (${plan.steps.length} steps)`);
+    },
+    [walletAddress, addLog],
+  );
+
+  const handleRun = useCallback(
+    async (plan: LaunchPlan) => {
+      if (!canSign || !phaCtx?.conn || !walletAddress) return;
+      const symbol = plan.spec.token.token.symbol;
+      setRunningPlanId(plan.id);
+      const txPipeline = beginTx();
+      addLog("[launch] Running launch plan", { planId: plan.id, symbol });
+      try {
+        const res = await runLaunchPlan({ planId: plan.id, conn: phaCtx.conn, addLog, pipeline: txPipeline });
+        if (res.success) {
+          toast.success(`${symbol} collection launched`);
+          await onRefreshTokens(walletAddress);
+          expandToken(symbol);
+        } else if (res.unconfirmed) {
+          toast(`A ${symbol} launch transaction is not confirmed yet; resume the plan to check it again`);
+        } else {
+          toast.error(res.error);
+        }
+      } catch (err: unknown) {
+        // Also reached when the token list refresh after a finished launch fails.
+        const message = err instanceof Error ? err.message : String(err);
+        addLog("[error] Launch plan exception", { planId: plan.id, symbol, error: message });
+        toast.error(message);
+      } finally {
+        setRunningPlanId(null);
+      }
+    },
+    [canSign, phaCtx, walletAddress, beginTx, addLog, onRefreshTokens, expandToken],
+  );
+
+  const handleRemove = useCallback(
+    (plan: LaunchPlan) => {
+      removePlan(plan.id);
+      addLog("[launch] Removed launch plan", { planId: plan.id, symbol: plan.spec.token.token.symbol });
+    },
+    [removePlan, addLog],
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers size={18} />
+          Launch NFT collection
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Load a collection spec (the token&apos;s deploy spec plus its series and initial NFTs) to run deploy, series
+          creation and minting as one plan. Progress is saved in this browser; a failed or abandoned step is resumed
+          instead of starting over.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <label
+              className={`inline-flex items-center gap-2 rounded-md border px-3 py-1 text-sm font-medium bg-background transition ${
+                walletAddress ? "cursor-pointer hover:bg-muted" : "pointer-events-none opacity-50"
+              }`}
+            >
+              <Upload className="h-4 w-4" />
+              Load collection spec
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                disabled={!walletAddress}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleImportSpec(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {!walletAddress && <span className="text-xs text-muted-foreground">Connect wallet to create a plan</span>}
+          </div>
+          {specIssues && specIssues.length > 0 && (
+            <div className="rounded border border-red-500/40 bg-red-500/5 p-2 text-xs text-red-500">
+              <div className="font-medium">Spec problems</div>
+              <ul className="mt-1 list-disc space-y-0.5 pl-4 font-mono">
+                {specIssues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {runningPlanId && (
+          <TxLifecycleProgress event={txEvent} warning={txWarning} onDecision={decideTx} onStopWaiting={stopWaitingTx} />
+        )}
+        <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
+
+        {walletAddress && plans.length === 0 && (
+          <div className="text-sm text-muted-foreground">No launch plans for this wallet on this network yet.</div>
+        )}
+
+        {plans.map((plan) => {
+          const running = runningPlanId === plan.id;
+          // A "running" step nobody is running was cut off by a reload or a closed tab.
+          const interrupted = !isLaunchPlanRunning(plan.id);
+          const doneCount = plan.steps.filter((step) => step.status === "done").length;
+          const complete = doneCount === plan.steps.length;
+          const started = plan.steps.some((step) => step.status !== "pending");
+          return (
+            <div key={plan.id} className="space-y-3 rounded-md border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium">
+                    <span className="font-mono">{plan.spec.token.token.symbol}</span> · {plan.spec.token.metadata.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground" title={new Date(plan.createdAt).toLocaleString()}>
+                    {doneCount}/{plan.steps.length} steps done · created {formatTimeAgo(plan.createdAt)}
+                    {plan.carbonTokenId && <> · token id {plan.carbonTokenId}</>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {running ? (
+                    <Button type="button" size="sm" variant="outline" onClick={stopWaitingTx}>
+                      <Pause className="mr-2 h-4 w-4" /> Pause
+                    </Button>
+                  ) : (
+                    !complete && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => void handleRun(plan)}
+                        disabled={!canSign || runningPlanId !== null}
+                      >
+                        <Play className="mr-2 h-4 w-4" /> {started ? "Resume" : "Run"}
+                      </Button>
+                    )
+                  )}
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    title="Remove plan"
+                    disabled={running}
+                    onClick={() => handleRemove(plan)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <ol className="space-y-1 text-sm">
+                {plan.steps.map((step, index) => (
+                  <li key={index} className="space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StepStatusIcon step={step} interrupted={interrupted} />
+                      <span className={step.status === "done" ? "text-muted-foreground" : undefined}>
+                        {describeStep(plan, step)}
+                      </span>
+                      {step.txHash && <ExplorerLink kind="tx" value={step.txHash} maxLength={20} tailLength={6} />}
+                      {step.status === "running" && interrupted && (
+                        <span className="text-xs text-amber-600">interrupted; resume to check it</span>
+                      )}
+                      {step.status === "unconfirmed" && (
+                        <span className="text-xs text-amber-600">not confirmed yet; resume to check again</span>
+                      )}
+                    </div>
+                    {step.error && step.status !== "done" && (
+                      <div className="pl-6 text-xs text-destructive break-all">{step.error}</div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+
+        {watchAddress && (
+          <div className="text-xs text-muted-foreground">Read-only while watching an address.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -28,6 +28,8 @@ type TokenListPanelProps = {
   expandedTokens: Record<string, boolean>;
   onRefresh: () => void;
   hasWalletAddress: boolean;
+  // Set when the list shows a watched address instead of the wallet's tokens.
+  watchAddress?: string | null;
   canSelectToken: boolean;
   selectedTokenKey: string | null;
   onSelectToken: (token: Token, key: string) => void;
@@ -46,6 +48,7 @@ export function TokenListPanel({
   expandedTokens,
   onRefresh,
   hasWalletAddress,
+  watchAddress,
   canSelectToken,
   selectedTokenKey,
   onSelectToken,
@@ -63,7 +66,7 @@ export function TokenListPanel({
       <CardHeader className="flex flex-row items-center justify-between gap-3">
         <CardTitle className="flex items-center gap-2">
           <Coins size={18} />
-          Your Tokens
+          {watchAddress ? "Watched Tokens" : "Your Tokens"}
           {hasWalletAddress && (
             <span className="text-sm font-normal text-muted-foreground">
               ({tokens.length})
@@ -127,9 +130,11 @@ export function TokenListPanel({
                 <div className="text-sm text-muted-foreground">
                   No tokens found for this address
                 </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Deploy your first token using the form →
-            </div>
+                {!watchAddress && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Deploy your first token using the form →
+                  </div>
+                )}
           </div>
         ) : (
           <ul className="space-y-2">
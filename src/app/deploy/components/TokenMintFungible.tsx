@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Address, EasyConnect, FeeOptions, Token } from "phantasma-sdk-ts";
+import { Bytes32, EasyConnect, FeeOptions, Token } from "phantasma-sdk-ts";
 import { Loader2, Sparkles } from "lucide-react";
 import { toast } from "sonner";
 
@@ -10,10 +10,35 @@ import { Button } from "@/components/ui/button";
 
 import type { AddLogFn } from "../types";
 import { getTokenPrimary } from "../utils/tokenHelpers";
-import { getTokenExtended, mintFungible } from "@/lib/phantasmaClient";
+import { isValidAddress } from "../utils/addressHelpers";
+import {
+  PLACEHOLDER_SIGNER,
+  buildMintFungibleTx,
+  classifyTxError,
+  createTxError,
+  mintFungible,
+  queryKeys,
+  queryTokenExtended,
+  type TxErrorInfo,
+} from "@/lib/phantasmaClient";
 import { formatBaseUnitsToDecimal, parseHumanAmountToBaseUnits, INTX_MAX_VALUE } from "../utils/decimalUnits";
 import { parseBigIntInput } from "../utils/bigintInputs";
 import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
+import { useQueryRefresh } from "../hooks/useQueryRefresh";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { useTxSizeMeter } from "../hooks/useTxSizeMeter";
+import { useTxExpiry } from "../hooks/useTxExpiry";
+import { useFeePreflight } from "../hooks/useFeePreflight";
+import { useFormDraft } from "../hooks/useFormDraft";
+import { ExplorerLink } from "./ExplorerLink";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+import { TxSizeMeter } from "./TxSizeMeter";
+import { TxExportPanel } from "./TxExportPanel";
+import { TxExpiryControl } from "./TxExpiryControl";
+import { FeePreflightBanner } from "./FeePreflightBanner";
+import { FormDraftPrompt } from "./FormDraftPrompt";
+import { TxErrorNotice } from "./TxErrorNotice";
 
 type PhaCtxMinimal = {
   conn?: EasyConnect | null;
@@ -31,6 +56,16 @@ type TokenMintFungibleProps = {
   selectedToken: Token;
   phaCtx: PhaCtxMinimal;
   addLog: AddLogFn;
+  // Set while an address is being watched: everything stays visible, nothing can be signed.
+  watchAddress?: string | null;
+};
+
+type MintFungibleFormDraft = {
+  amountInput: string;
+  targetAddress: string;
+  gasFeeBase: string;
+  feeMultiplier: string;
+  maxDataLimit: string;
 };
 
 const FEE_DEFAULTS = {
@@ -83,16 +118,7 @@ function formatLimit(baseUnits: bigint | null, decimals: number): string {
   return `${formatBaseUnitsToDecimal(baseUnits, decimals)} (${baseUnits.toString()} base units)`;
 }
 
-function isValidAddress(address: string): boolean {
-  try {
-    Address.FromText(address);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFungibleProps) {
+export function TokenMintFungible({ selectedToken, phaCtx, addLog, watchAddress }: TokenMintFungibleProps) {
   const [snapshot, setSnapshot] = useState<TokenSnapshot | null>(() => snapshotFromToken(selectedToken));
   const [loadingSnapshot, setLoadingSnapshot] = useState(false);
   const [snapshotError, setSnapshotError] = useState<string | null>(null);
@@ -104,14 +130,26 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
   );
   const [amountError, setAmountError] = useState<string | null>(null);
   const [addressError, setAddressError] = useState<string | null>(null);
-  const [mintError, setMintError] = useState<string | null>(null);
+  const [mintError, setMintError] = useState<TxErrorInfo | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [minting, setMinting] = useState(false);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle(selectedToken.symbol);
+  const txUnconfirmed = txEvent?.stage === "unconfirmed";
   const [feesExpanded, setFeesExpanded] = useState(false);
   const [feesAreDefault, setFeesAreDefault] = useState(true);
   const [gasFeeBase, setGasFeeBase] = useState(FEE_DEFAULTS.gasFeeBase);
   const [feeMultiplier, setFeeMultiplier] = useState(FEE_DEFAULTS.feeMultiplier);
   const [maxDataLimit, setMaxDataLimit] = useState(FEE_DEFAULTS.maxDataLimit);
+  const txExpiry = useTxExpiry();
+  const { resolveExpiry, error: expiryError, reset: resetExpiry } = txExpiry;
 
   const walletAddress = phaCtx?.conn?.link?.account?.address ?? "";
   const tokenPrimary = getTokenPrimary(selectedToken, selectedToken.symbol);
@@ -128,7 +166,8 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
     setMaxDataLimit(FEE_DEFAULTS.maxDataLimit);
     setFeesExpanded(false);
     setFeesAreDefault(true);
-  }, [selectedToken]);
+    resetExpiry();
+  }, [selectedToken, resetExpiry]);
 
   useEffect(() => {
     setTargetAddress(walletAddress ?? "");
@@ -144,7 +183,7 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
     setLoadingSnapshot(true);
     setSnapshotError(null);
     addLog("[mint] Loading token snapshot for fungible mint", { symbol });
-    void getTokenExtended(symbol)
+    void queryTokenExtended(symbol)
       .then((token) => {
         if (cancelled) return;
         setSnapshot(snapshotFromToken(token));
@@ -171,6 +210,11 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
     };
   }, [selectedToken?.symbol, snapshotReloadToken, addLog]);
 
+  // Supply changes confirmed elsewhere (History re-check, another tab) refresh the snapshot too.
+  useQueryRefresh(selectedToken?.symbol ? queryKeys.token(selectedToken.symbol) : null, () =>
+    setSnapshotReloadToken((prev) => prev + 1),
+  );
+
   useEffect(() => {
     const defaults =
       gasFeeBase.trim() === FEE_DEFAULTS.gasFeeBase &&
@@ -195,6 +239,8 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
       return { ok: false as const, error: message };
     }
   }, [gasFeeBase, feeMultiplier, maxDataLimit]);
+  const feePreflight = useFeePreflight(walletAddress, feeSummary.ok ? feeSummary : null);
+  const { blocked: feesBlocked, refresh: refreshFeeBalances } = feePreflight;
 
   const decimals = snapshot?.decimals ?? 0;
   const carbonTokenId = snapshot?.carbonId ?? toCarbonId(selectedToken?.carbonId);
@@ -252,13 +298,63 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
       ? "Unlimited"
       : `${formatBaseUnitsToDecimal(maxSupply, decimals)} (${maxSupply.toString()} base units)`;
 
+  const buildUnsignedTx = useCallback(
+    (senderPublicKey: Bytes32) => {
+      if (carbonTokenId === null || amountBaseUnits === null || amountError || addressError) {
+        return null;
+      }
+      let feeOptions: FeeOptions;
+      let maxDataValue: bigint;
+      try {
+        feeOptions = new FeeOptions(
+          parseBigIntInput(gasFeeBase, "Gas fee base"),
+          parseBigIntInput(feeMultiplier, "Fee multiplier"),
+        );
+        maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", { allowEmpty: true, defaultValue: 0n });
+      } catch (err: unknown) {
+        return { success: false as const, error: err instanceof Error ? err.message : String(err) };
+      }
+      const expiry = resolveExpiry();
+      if (expiry === null) {
+        return { success: false as const, error: expiryError ?? "Invalid expiry" };
+      }
+      return buildMintFungibleTx({
+        senderPublicKey,
+        carbonTokenId,
+        destinationAddress: targetAddress,
+        amount: amountBaseUnits,
+        feeOptions,
+        maxData: maxDataValue,
+        expiry,
+      });
+    },
+    [
+      resolveExpiry,
+      expiryError,
+      carbonTokenId,
+      amountBaseUnits,
+      amountError,
+      addressError,
+      targetAddress,
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+    ],
+  );
+  const buildSizeTx = useCallback(() => buildUnsignedTx(PLACEHOLDER_SIGNER), [buildUnsignedTx]);
+  const txSize = useTxSizeMeter(buildSizeTx);
+
   const canMint =
+    !watchAddress &&
     !!phaCtx?.conn &&
+    !txSize.overLimit &&
     carbonTokenId !== null &&
     amountBaseUnits !== null &&
     amountBaseUnits > 0n &&
     !amountError &&
     !addressError &&
+    !expiryError &&
+    !feesBlocked &&
     !loadingSnapshot &&
     !minting;
 
@@ -267,6 +363,7 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
       return;
     }
     setMinting(true);
+    const txPipeline = beginTx();
     setMintError(null);
     setTxHash(null);
     const destination = targetAddress.trim();
@@ -279,7 +376,7 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
       maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", { allowEmpty: true, defaultValue: 0n });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
-      setMintError(message);
+      setMintError(createTxError("invalid_input", message));
       toast.error(message);
       setMinting(false);
       return;
@@ -304,10 +401,21 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
         amount: amountBaseUnits,
         feeOptions,
         maxData: maxDataValue,
+        expiry: resolveExpiry(),
         addLog,
+        pipeline: txPipeline,
       });
       if (!res.success) {
-        throw new Error(res.error);
+        if (res.unconfirmed) {
+          toast("Mint transaction is not confirmed yet");
+          addLog("[mint] Fungible mint not confirmed yet", { txHash: res.txHash });
+          return;
+        }
+        const failure = res.errorInfo ?? classifyTxError(res.error);
+        setMintError(failure);
+        toast.error(failure.message);
+        addLog("[error] Fungible mint failed", { error: failure.message, kind: failure.kind });
+        return;
       }
       toast.success("Mint transaction submitted");
       setTxHash(res.txHash);
@@ -318,12 +426,13 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
       });
       setSnapshotReloadToken((prev) => prev + 1);
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setMintError(message);
-      toast.error(message);
-      addLog("[error] Fungible mint failed", { error: message });
+      const failure = classifyTxError(err);
+      setMintError(failure);
+      toast.error(failure.message);
+      addLog("[error] Fungible mint failed", { error: failure.message, kind: failure.kind });
     } finally {
       setMinting(false);
+      refreshFeeBalances();
     }
   }, [
     canMint,
@@ -335,7 +444,10 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
     gasFeeBase,
     feeMultiplier,
     maxDataLimit,
+    resolveExpiry,
+    refreshFeeBalances,
     addLog,
+    beginTx,
   ]);
 
   const handleReset = useCallback(() => {
@@ -348,8 +460,37 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
     setMaxDataLimit(FEE_DEFAULTS.maxDataLimit);
     setFeesExpanded(false);
     setFeesAreDefault(true);
+    resetExpiry();
+  }, [resetExpiry]);
+
+  const draftData = useMemo<MintFungibleFormDraft>(
+    () => ({ amountInput, targetAddress, gasFeeBase, feeMultiplier, maxDataLimit }),
+    [amountInput, targetAddress, gasFeeBase, feeMultiplier, maxDataLimit],
+  );
+  const draftEmpty =
+    !amountInput.trim() &&
+    (!targetAddress.trim() || targetAddress.trim() === walletAddress) &&
+    feesAreDefault;
+
+  const applyDraft = useCallback((draft: MintFungibleFormDraft) => {
+    setAmountInput(draft.amountInput);
+    setTargetAddress(draft.targetAddress);
+    setGasFeeBase(draft.gasFeeBase);
+    setFeeMultiplier(draft.feeMultiplier);
+    setMaxDataLimit(draft.maxDataLimit);
   }, []);
 
+  const formDraft = useFormDraft({
+    tab: "mint",
+    walletAddress: walletAddress || null,
+    token: selectedToken.symbol,
+    data: draftData,
+    empty: draftEmpty,
+    label: `${tokenPrimary} supply${amountInput.trim() ? ` ${amountInput.trim()}` : ""}`,
+    ready: !loadingSnapshot,
+    onRestore: applyDraft,
+  });
+
   if (!snapshot) {
     return (
       <Card>
@@ -386,6 +527,7 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
           <div className="text-sm text-red-600">Carbon token ID is unavailable for this token.</div>
         ) : (
           <>
+            <FormDraftPrompt draft={formDraft} />
             <div className="grid gap-3 rounded-lg border bg-muted/20 p-3 text-sm">
               <div className="flex flex-wrap justify-between gap-2">
                 <span className="text-muted-foreground">Decimals</span>
@@ -502,6 +644,9 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
                     <div className="mt-1 text-amber-500">{feeSummary.error}</div>
                   )}
                 </div>
+                <div className="mt-3">
+                  <TxExpiryControl expiry={txExpiry} disabled={minting} />
+                </div>
               </>
             ) : (
               <p className="mt-3 text-xs text-muted-foreground">
@@ -512,22 +657,45 @@ export function TokenMintFungible({ selectedToken, phaCtx, addLog }: TokenMintFu
             )}
           </div>
 
-            {mintError && <div className="text-sm text-red-600">{mintError}</div>}
+            {(minting || txUnconfirmed) && (
+              <TxLifecycleProgress
+                event={txEvent}
+                warning={txWarning}
+                onDecision={decideTx}
+                onStopWaiting={stopWaitingTx}
+              />
+            )}
+            <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
+            {mintError && <TxErrorNotice error={mintError} title="Mint failed" />}
             {txHash && (
-              <div className="text-sm text-green-600 break-all">
-                Transaction hash: <span className="font-mono">{txHash}</span>
+              <div className="flex items-center gap-1 text-sm text-green-600">
+                Transaction hash: <ExplorerLink kind="tx" value={txHash} />
               </div>
             )}
 
+            <FeePreflightBanner preflight={feePreflight} />
+            <TxSizeMeter report={txSize.report} error={txSize.error} />
+
+            <TxExportPanel
+              buildTx={buildUnsignedTx}
+              defaultSigner={phaCtx?.conn?.link?.account?.address}
+              fileLabel={`mint-${selectedToken.symbol}`}
+              addLog={addLog}
+            />
+
             <div className="flex flex-wrap gap-3">
               <Button type="button" onClick={handleMint} disabled={!canMint} className="flex items-center gap-2">
                 {minting && <Loader2 className="h-4 w-4 animate-spin" />}
                 Mint
               </Button>
-              {!phaCtx?.conn && (
-                <p className="text-xs text-muted-foreground">
-                  Connect your wallet to mint additional supply.
-                </p>
+              {watchAddress ? (
+                <p className="text-xs text-muted-foreground">Read-only while watching an address.</p>
+              ) : (
+                !phaCtx?.conn && (
+                  <p className="text-xs text-muted-foreground">
+                    Connect your wallet to mint additional supply.
+                  </p>
+                )
               )}
             </div>
           </>
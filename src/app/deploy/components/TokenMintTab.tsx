@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
+  Bytes32,
   Token,
   EasyConnect,
   VmStructSchema,
@@ -22,27 +23,50 @@ import {
   DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Loader2, Sparkles, CheckCircle2, XCircle, ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
-import { toast } from "sonner";
+import { Loader2, Sparkles, CheckCircle2, ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
 
 import { getTokenPrimary, isTokenNFT } from "../utils/tokenHelpers";
-import { getNftId, truncateMiddle } from "../utils/nftHelpers";
+import { getNftId } from "../utils/nftHelpers";
+import { isValidAddress } from "../utils/addressHelpers";
 import { isHexValueValid, isVmValueValid } from "../utils/vmValidation";
 import { convertRoyaltiesPercent, type RoyaltiesConversion } from "../utils/royalties";
 import { normalizeImageUrl } from "../utils/urlHelpers";
 import { formatVmTypeLabel } from "../utils/vmTypeLabel";
 import type { AddLogFn } from "../types";
 import {
-  getTokenExtended,
-  listTokenSeries,
-  listTokenNfts,
+  PLACEHOLDER_SIGNER,
+  buildMintNftTx,
+  classifyTxError,
+  createTxError,
   mintNft,
+  queryKeys,
+  queryTokenExtended,
+  queryTokenNfts,
+  queryTokenSeries,
+  DEFAULT_NFT_MAX_DATA,
+  NFT_FEE_DEFAULTS,
   type TokenSeriesListItem,
+  type TxErrorInfo,
 } from "@/lib/phantasmaClient";
+import { ExplorerLink } from "./ExplorerLink";
 import { NftPreviewCard } from "./NftPreviewCard";
 import { parseBigIntInput } from "../utils/bigintInputs";
 import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
 import { TokenMintFungible } from "./TokenMintFungible";
+import { useQueryRefresh } from "../hooks/useQueryRefresh";
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { useTxSizeMeter } from "../hooks/useTxSizeMeter";
+import { useTxExpiry } from "../hooks/useTxExpiry";
+import { useFeePreflight } from "../hooks/useFeePreflight";
+import { useFormDraft } from "../hooks/useFormDraft";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+import { TxSizeMeter } from "./TxSizeMeter";
+import { TxExportPanel } from "./TxExportPanel";
+import { TxExpiryControl } from "./TxExpiryControl";
+import { FeePreflightBanner } from "./FeePreflightBanner";
+import { FormDraftPrompt } from "./FormDraftPrompt";
+import { TxErrorNotice } from "./TxErrorNotice";
 
 type PhaCtxMinimal = {
   conn?: EasyConnect | null;
@@ -52,20 +76,41 @@ type TokenMintTabProps = {
   selectedToken: Token | null;
   phaCtx: PhaCtxMinimal;
   addLog: AddLogFn;
+  // Set while an address is being watched: everything stays visible, nothing can be signed.
+  watchAddress?: string | null;
 };
 
 type RomField = { name: string; type: VmType };
 
-const DEFAULT_ROM_HEX = "0x";
-const DEFAULT_MAX_DATA = 100n;
-const NFT_FEE_DEFAULTS = {
-  gasFeeBase: "10000",
-  feeMultiplier: "1000",
-  maxDataLimit: DEFAULT_MAX_DATA.toString(),
+type MintFormDraft = {
+  seriesId: number | null;
+  name: string;
+  description: string;
+  imageURL: string;
+  infoURL: string;
+  royaltiesPercent: string;
+  romHex: string;
+  extraValues: Record<string, string>;
+  ramValues: Record<string, string>;
+  recipientAddress: string;
+  gasFeeBase: string;
+  feeMultiplier: string;
+  maxDataLimit: string;
 };
+
+// Keeps the current keys (the token's schema) and takes their values from a draft.
+function mergeDraftValues(current: Record<string, string>, draft: Record<string, string>) {
+  const next: Record<string, string> = {};
+  for (const key of Object.keys(current)) {
+    next[key] = draft[key] ?? "";
+  }
+  return next;
+}
+
+const DEFAULT_ROM_HEX = "0x";
 const NFT_PAGE_SIZE = 10;
 
-export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProps) {
+export function TokenMintTab({ selectedToken, phaCtx, addLog, watchAddress }: TokenMintTabProps) {
   const [loadingToken, setLoadingToken] = useState(false);
   const [tokenError, setTokenError] = useState<string | null>(null);
   const [carbonId, setCarbonId] = useState<bigint | null>(null);
@@ -91,7 +136,17 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
   const imagePreviewUrl = useMemo(() => normalizeImageUrl(imageURL), [imageURL]);
 
   const [submitting, setSubmitting] = useState(false);
-  const [mintError, setMintError] = useState<string | null>(null);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle(selectedToken?.symbol);
+  const txUnconfirmed = txEvent?.stage === "unconfirmed";
+  const [mintError, setMintError] = useState<TxErrorInfo | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [mintedAddresses, setMintedAddresses] = useState<string[] | null>(null);
   const [phantasmaNftId, setPhantasmaNftId] = useState<string | null>(null);
@@ -106,9 +161,23 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
   const [gasFeeBase, setGasFeeBase] = useState(NFT_FEE_DEFAULTS.gasFeeBase);
   const [feeMultiplier, setFeeMultiplier] = useState(NFT_FEE_DEFAULTS.feeMultiplier);
   const [maxDataLimit, setMaxDataLimit] = useState(NFT_FEE_DEFAULTS.maxDataLimit);
+  const [recipientAddress, setRecipientAddress] = useState(phaCtx?.conn?.link?.account?.address ?? "");
+  const txExpiry = useTxExpiry();
+  const { resolveExpiry, error: expiryError, reset: resetExpiry } = txExpiry;
 
   const walletAddress = phaCtx?.conn?.link?.account?.address ?? null;
-  const canSign = !!walletAddress && !!phaCtx?.conn;
+  const canSign = !watchAddress && !!walletAddress && !!phaCtx?.conn;
+
+  useEffect(() => {
+    setRecipientAddress(walletAddress ?? "");
+  }, [walletAddress, selectedToken?.symbol]);
+
+  const recipientError = useMemo(() => {
+    const trimmed = recipientAddress.trim();
+    if (!trimmed) return "Recipient address is required";
+    if (!isValidAddress(trimmed)) return "Recipient address is invalid";
+    return null;
+  }, [recipientAddress]);
 
   const tokenPrimary = selectedToken
     ? getTokenPrimary(selectedToken, selectedToken.symbol)
@@ -142,7 +211,8 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     setMaxDataLimit(NFT_FEE_DEFAULTS.maxDataLimit);
     setFeesExpanded(false);
     setFeesAreDefault(true);
-  }, []);
+    resetExpiry();
+  }, [resetExpiry]);
 
   const resetNftListing = useCallback(() => {
     setSeriesNfts([]);
@@ -180,7 +250,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
       const feeMultiplierValue = parseBigIntInput(feeMultiplier, "Fee multiplier");
       const maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
         allowEmpty: true,
-        defaultValue: DEFAULT_MAX_DATA,
+        defaultValue: DEFAULT_NFT_MAX_DATA,
       });
       const feeOptions = new MintNftFeeOptions(gasFeeBaseValue, feeMultiplierValue);
       const maxGasValue = feeOptions.calculateMaxGas();
@@ -190,13 +260,15 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
       return { ok: false as const, error: message };
     }
   }, [gasFeeBase, feeMultiplier, maxDataLimit]);
+  const feePreflight = useFeePreflight(walletAddress, feeSummary.ok ? feeSummary : null);
+  const { blocked: feesBlocked, refresh: refreshFeeBalances } = feePreflight;
 
   const loadTokenDetails = useCallback(async () => {
     if (!selectedToken?.symbol) return;
     setLoadingToken(true);
     setTokenError(null);
     try {
-      const token = await getTokenExtended(selectedToken.symbol);
+      const token = await queryTokenExtended(selectedToken.symbol);
       const schemas = token.tokenSchemas ?? null;
       const rawCarbonId = token.carbonId;
       if (typeof rawCarbonId !== "string" || !rawCarbonId.trim()) {
@@ -282,7 +354,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
       setSeriesLoading(true);
       setSeriesError(null);
       try {
-        const list = await listTokenSeries(symbol, cId);
+        const list = await queryTokenSeries(symbol, cId);
         setSeriesList(list);
         setSelectedSeriesId((prev) => {
           if (prev !== null && list.some((entry) => entry.carbonSeriesId === prev)) {
@@ -313,7 +385,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
       setNftLoading(true);
       setNftError(null);
       try {
-        const res = await listTokenNfts({
+        const res = await queryTokenNfts({
           carbonTokenId: carbonId,
           carbonSeriesId: selectedSeriesId,
           cursor,
@@ -393,6 +465,14 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     }
   }, [carbonId, selectedSeriesId, loadSeriesNfts, resetNftListing]);
 
+  // Reload the series list and the visible NFT page when a confirmed tx invalidates them.
+  useQueryRefresh(carbonId != null ? queryKeys.tokenSeries(carbonId) : null, () => {
+    if (selectedToken?.symbol && carbonId != null) void loadSeries(selectedToken.symbol, carbonId);
+  });
+  useQueryRefresh(carbonId != null ? queryKeys.tokenNfts(carbonId) : null, () => {
+    if (selectedSeriesId != null) void loadSeriesNfts(nftCursorHistory[nftPageIndex] ?? "");
+  });
+
   const visibleStandard = useMemo(() => {
     const has = (field: string) => romFields.some((f) => f.name === field);
     return {
@@ -424,8 +504,9 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
   const romHexInvalid =
     visibleStandard.rom && romHex.trim().length > 0 && !isHexValueValid(romHex);
 
-  const formValid = useMemo(() => {
-    if (!canSign || !isNft || !selectedToken || !carbonId || !romSchema || !selectedSeriesId) {
+  // Field validity without the wallet requirement; offline export works on valid inputs alone.
+  const inputsValid = useMemo(() => {
+    if (!isNft || !selectedToken || !carbonId || !romSchema || !selectedSeriesId) {
       return false;
     }
     if (visibleStandard.name && !name.trim()) return false;
@@ -484,7 +565,6 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     }
     return true;
   }, [
-    canSign,
     isNft,
     selectedToken,
     carbonId,
@@ -505,9 +585,138 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     ramFields,
     ramValues,
   ]);
+  const formValid = canSign && inputsValid && !recipientError && !expiryError && !feesBlocked;
+
+  // ROM metadata and RAM values as sent to mintNft; shared by the submit handler, size meter and export.
+  const mintPayload = useMemo(() => {
+    if (!romSchema) return null;
+    const metadata: Record<string, string> = {};
+    const fields = romSchema.fields ?? [];
+    for (const field of fields) {
+      const key = String(field?.name?.data ?? "");
+      if (!key || key === "rom" || key === "id" || key === "_i") continue;
+      let value = "";
+      switch (key) {
+        case "name":
+          value = name.trim();
+          break;
+        case "description":
+          value = description.trim();
+          break;
+        case "imageURL":
+          value = imageURL.trim();
+          break;
+        case "infoURL":
+          value = infoURL.trim();
+          break;
+        case "royalties":
+          value = royaltiesBaseUnitsString || "";
+          break;
+        default:
+          value = (extraValues[key] ?? "").trim();
+          break;
+      }
+      metadata[key] = value;
+    }
+
+    const shouldSendRam = !!(ramSchema && ramFields.length > 0);
+    const ramInputValues: Record<string, string> = {};
+    if (shouldSendRam && ramSchema?.fields) {
+      for (const field of ramSchema.fields) {
+        const key = String(field?.name?.data ?? "");
+        if (!key) continue;
+        ramInputValues[key] = (ramValues[key] ?? "").trim();
+      }
+    }
+    return { metadata, shouldSendRam, ramInputValues };
+  }, [
+    romSchema,
+    ramSchema,
+    ramFields,
+    name,
+    description,
+    imageURL,
+    infoURL,
+    royaltiesBaseUnitsString,
+    extraValues,
+    ramValues,
+  ]);
+
+  const buildUnsignedTx = useCallback(
+    (senderPublicKey: Bytes32) => {
+      if (!inputsValid || recipientError || !mintPayload || !carbonId || !selectedSeriesId || !romSchema) {
+        return null;
+      }
+      let feeOptions: MintNftFeeOptions;
+      let maxDataValue: bigint;
+      try {
+        feeOptions = new MintNftFeeOptions(
+          parseBigIntInput(gasFeeBase, "Gas fee base"),
+          parseBigIntInput(feeMultiplier, "Fee multiplier"),
+        );
+        maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
+          allowEmpty: true,
+          defaultValue: DEFAULT_NFT_MAX_DATA,
+        });
+      } catch (err: unknown) {
+        return { success: false as const, error: err instanceof Error ? err.message : String(err) };
+      }
+      const expiry = resolveExpiry();
+      if (expiry === null) {
+        return { success: false as const, error: expiryError ?? "Invalid expiry" };
+      }
+      return buildMintNftTx({
+        senderPublicKey,
+        carbonTokenId: carbonId,
+        carbonSeriesId: selectedSeriesId,
+        destinationAddress: recipientAddress,
+        romSchema,
+        metadataValues: mintPayload.metadata,
+        romHex: romHex.trim(),
+        ramSchema: mintPayload.shouldSendRam ? ramSchema : null,
+        ramValues: mintPayload.shouldSendRam ? mintPayload.ramInputValues : undefined,
+        feeOptions,
+        maxData: maxDataValue,
+        expiry,
+      });
+    },
+    [
+      inputsValid,
+      recipientError,
+      recipientAddress,
+      mintPayload,
+      carbonId,
+      selectedSeriesId,
+      romSchema,
+      romHex,
+      ramSchema,
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+      resolveExpiry,
+      expiryError,
+    ],
+  );
+  const buildSizeTx = useCallback(() => buildUnsignedTx(PLACEHOLDER_SIGNER), [buildUnsignedTx]);
+  const txSize = useTxSizeMeter(buildSizeTx);
 
   const handleMint = useCallback(async () => {
-    if (!phaCtx?.conn || !selectedToken?.symbol || !carbonId || !selectedSeriesId || !romSchema) {
+    if (
+      !phaCtx?.conn ||
+      !selectedToken?.symbol ||
+      !carbonId ||
+      !selectedSeriesId ||
+      !romSchema ||
+      !mintPayload ||
+      recipientError
+    ) {
+      return;
+    }
+    if (txSize.overLimit) {
+      setMintError(
+        createTxError("encoding_failure", "Transaction is too large for Phantasma Link. Reduce the ROM or metadata size."),
+      );
+      addLog("[error] Mint transaction exceeds Link size limit", { report: txSize.report });
       return;
     }
     setSubmitting(true);
@@ -515,46 +724,10 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     setTxHash(null);
     setMintedAddresses(null);
     setPhantasmaNftId(null);
+    const txPipeline = beginTx();
 
     try {
-      const metadata: Record<string, string> = {};
-      const fields = romSchema.fields ?? [];
-      for (const field of fields) {
-        const key = String(field?.name?.data ?? "");
-        if (!key || key === "rom" || key === "id" || key === "_i") continue;
-        let value = "";
-        switch (key) {
-          case "name":
-            value = name.trim();
-            break;
-          case "description":
-            value = description.trim();
-            break;
-          case "imageURL":
-            value = imageURL.trim();
-            break;
-        case "infoURL":
-          value = infoURL.trim();
-          break;
-        case "royalties":
-          value = royaltiesBaseUnitsString || "";
-          break;
-          default:
-            value = (extraValues[key] ?? "").trim();
-            break;
-        }
-        metadata[key] = value;
-      }
-
-      const shouldSendRam = !!(ramSchema && ramFields.length > 0);
-      const ramInputValues: Record<string, string> = {};
-      if (shouldSendRam && ramSchema?.fields) {
-        for (const field of ramSchema.fields) {
-          const key = String(field?.name?.data ?? "");
-          if (!key) continue;
-          ramInputValues[key] = (ramValues[key] ?? "").trim();
-        }
-      }
+      const { metadata, shouldSendRam, ramInputValues } = mintPayload;
 
       let gasFeeBaseValue: bigint;
       let feeMultiplierValue: bigint;
@@ -564,11 +737,11 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
         feeMultiplierValue = parseBigIntInput(feeMultiplier, "Fee multiplier");
         maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
           allowEmpty: true,
-          defaultValue: DEFAULT_MAX_DATA,
+          defaultValue: DEFAULT_NFT_MAX_DATA,
         });
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
-        setMintError(message);
+        setMintError(createTxError("invalid_input", message));
         addLog("[error] Mint fee parsing failed", { error: message });
         return;
       }
@@ -579,6 +752,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
         symbol: selectedToken.symbol,
         carbonTokenId: String(carbonId),
         seriesId: selectedSeriesId,
+        recipient: recipientAddress.trim(),
         metadataKeys: Object.keys(metadata),
         ramKeys: shouldSendRam ? Object.keys(ramInputValues) : [],
         fees: {
@@ -592,6 +766,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
         conn: phaCtx.conn as EasyConnect,
         carbonTokenId: carbonId,
         carbonSeriesId: selectedSeriesId,
+        destinationAddress: recipientAddress,
         romSchema,
         metadataValues: metadata,
         romHex: romHex.trim(),
@@ -599,11 +774,21 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
         ramValues: shouldSendRam ? ramInputValues : undefined,
         maxData: maxDataValue,
         feeOptions,
+        expiry: resolveExpiry(),
         addLog,
+        pipeline: txPipeline,
       });
 
       if (!res.success) {
-        throw new Error(res.error);
+        if (res.unconfirmed) {
+          addLog("[mint] Mint transaction not confirmed yet", { txHash: res.txHash });
+          return;
+        }
+        const failure = res.errorInfo ?? classifyTxError(res.error);
+        if (res.txHash) setTxHash(res.txHash);
+        setMintError(failure);
+        addLog("[error] Mint transaction failed", { error: failure.message, kind: failure.kind });
+        return;
       }
 
       setTxHash(res.txHash);
@@ -617,11 +802,12 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
       await loadSeriesNfts("", { reset: true });
       resetInputs();
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setMintError(message);
-      addLog("[error] Mint transaction failed", { error: message });
+      const failure = classifyTxError(err);
+      setMintError(failure);
+      addLog("[error] Mint transaction failed", { error: failure.message, kind: failure.kind });
     } finally {
       setSubmitting(false);
+      refreshFeeBalances();
     }
   }, [
     phaCtx?.conn,
@@ -630,21 +816,20 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     selectedSeriesId,
     romSchema,
     ramSchema,
-    ramFields,
     romHex,
-    name,
-    description,
-    imageURL,
-    infoURL,
-    royaltiesBaseUnitsString,
-    extraValues,
-    ramValues,
+    mintPayload,
+    recipientAddress,
+    recipientError,
+    txSize,
     gasFeeBase,
     feeMultiplier,
     maxDataLimit,
+    resolveExpiry,
+    refreshFeeBalances,
     addLog,
     resetInputs,
     loadSeriesNfts,
+    beginTx,
   ]);
 
   const handleNextNftPage = useCallback(() => {
@@ -658,6 +843,84 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
     void loadSeriesNfts(prevCursor, { pageIndex: nftPageIndex - 1, preserveHistory: true });
   }, [nftPageIndex, nftCursorHistory, loadSeriesNfts]);
 
+  const draftData = useMemo<MintFormDraft>(
+    () => ({
+      seriesId: selectedSeriesId,
+      name,
+      description,
+      imageURL,
+      infoURL,
+      royaltiesPercent,
+      romHex,
+      extraValues,
+      ramValues,
+      recipientAddress,
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+    }),
+    [
+      selectedSeriesId,
+      name,
+      description,
+      imageURL,
+      infoURL,
+      royaltiesPercent,
+      romHex,
+      extraValues,
+      ramValues,
+      recipientAddress,
+      gasFeeBase,
+      feeMultiplier,
+      maxDataLimit,
+    ],
+  );
+  // The series picker and the recipient default to something on their own, so they do not
+  // make a draft worth keeping.
+  const draftEmpty =
+    !name.trim() &&
+    !description.trim() &&
+    !imageURL.trim() &&
+    !infoURL.trim() &&
+    !royaltiesPercent.trim() &&
+    romHex.trim() === DEFAULT_ROM_HEX &&
+    Object.values(extraValues).every((value) => !value.trim()) &&
+    Object.values(ramValues).every((value) => !value.trim()) &&
+    (!recipientAddress.trim() || recipientAddress.trim() === walletAddress) &&
+    feesAreDefault;
+
+  const applyDraft = useCallback(
+    (draft: MintFormDraft) => {
+      if (draft.seriesId !== null && seriesList.some((entry) => entry.carbonSeriesId === draft.seriesId)) {
+        setSelectedSeriesId(draft.seriesId);
+      }
+      setName(draft.name);
+      setDescription(draft.description);
+      setImageURL(draft.imageURL);
+      setInfoURL(draft.infoURL);
+      setRoyaltiesPercent(draft.royaltiesPercent);
+      setRomHex(draft.romHex);
+      setExtraValues((prev) => mergeDraftValues(prev, draft.extraValues));
+      setRamValues((prev) => mergeDraftValues(prev, draft.ramValues));
+      setRecipientAddress(draft.recipientAddress);
+      setGasFeeBase(draft.gasFeeBase);
+      setFeeMultiplier(draft.feeMultiplier);
+      setMaxDataLimit(draft.maxDataLimit);
+    },
+    [seriesList],
+  );
+
+  const formDraft = useFormDraft({
+    tab: "mint",
+    walletAddress,
+    token: selectedToken?.symbol ?? null,
+    data: draftData,
+    empty: draftEmpty,
+    label: `${tokenPrimary} NFT${name.trim() ? ` "${name.trim()}"` : ""}`,
+    ready: !!selectedToken && isNft && !loadingToken && carbonId !== null && !seriesLoading,
+    onRestore: applyDraft,
+  });
+
   if (!selectedToken) {
     return (
       <Card>
@@ -673,7 +936,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
   }
 
   if (!isNft) {
-    return <TokenMintFungible selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} />;
+    return <TokenMintFungible selectedToken={selectedToken} phaCtx={phaCtx} addLog={addLog} watchAddress={watchAddress} />;
   }
 
   return (
@@ -706,6 +969,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
           </div>
         ) : (
           <>
+            <FormDraftPrompt draft={formDraft} />
             <div className="space-y-2">
               <div className="text-xs font-medium uppercase text-muted-foreground">Series</div>
               {seriesLoading ? (
@@ -962,6 +1226,29 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
               </div>
             )}
 
+            <div className="space-y-1">
+              <div className="text-xs font-medium">
+                Recipient <span className="text-red-500">*</span>
+              </div>
+              <input
+                className={`w-full rounded border px-2 py-1 font-mono${recipientError ? " border-red-500 focus-visible:ring-red-500" : ""}`}
+                value={recipientAddress}
+                onChange={(e) => setRecipientAddress(e.target.value)}
+                placeholder="P..."
+                spellCheck={false}
+              />
+              {recipientError ? (
+                <div className="text-xs text-red-600">{recipientError}</div>
+              ) : (
+                walletAddress &&
+                recipientAddress.trim() !== walletAddress && (
+                  <div className="text-xs text-muted-foreground">
+                    The NFT goes straight to this address; you still sign and pay the fees.
+                  </div>
+                )
+              )}
+            </div>
+
             <div className="rounded-lg border p-3">
               <button
                 type="button"
@@ -1034,6 +1321,9 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
                       <div className="mt-1 text-amber-500">{feeSummary.error}</div>
                     )}
                   </div>
+                  <div className="mt-3">
+                    <TxExpiryControl expiry={txExpiry} disabled={submitting} />
+                  </div>
                 </>
               ) : (
                 <p className="mt-3 text-xs text-muted-foreground">
@@ -1044,11 +1334,21 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
               )}
             </div>
 
+            <FeePreflightBanner preflight={feePreflight} />
+            <TxSizeMeter report={txSize.report} error={txSize.error} />
+
+            <TxExportPanel
+              buildTx={buildUnsignedTx}
+              defaultSigner={phaCtx?.conn?.link?.account?.address}
+              fileLabel={`mint-${selectedToken.symbol}`}
+              addLog={addLog}
+            />
+
             <div className="flex items-center gap-2">
               <Button
                 type="button"
                 onClick={handleMint}
-                disabled={!formValid || submitting || seriesList.length === 0}
+                disabled={!formValid || submitting || seriesList.length === 0 || txSize.overLimit}
               >
                 {submitting ? (
                   <>
@@ -1061,21 +1361,26 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
                 )}
               </Button>
               {!canSign && (
-                <span className="text-xs text-muted-foreground">Connect wallet to continue</span>
+                <span className="text-xs text-muted-foreground">
+                  {watchAddress ? "Read-only while watching an address" : "Connect wallet to continue"}
+                </span>
               )}
             </div>
 
             <div className="w-full space-y-2 text-sm text-muted-foreground">
               <div className="font-medium text-foreground">Mint status</div>
-              {!submitting && !mintError && !txHash && (
+              {!submitting && !mintError && !txHash && !txUnconfirmed && (
                 <div>No recent mint transactions.</div>
               )}
-              {submitting && (
-                <div className="flex items-center gap-2 text-amber-500">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Waiting for transaction confirmation…
-                </div>
+              {(submitting || txUnconfirmed) && (
+                <TxLifecycleProgress
+                  event={txEvent}
+                  warning={txWarning}
+                  onDecision={decideTx}
+                  onStopWaiting={stopWaitingTx}
+                />
               )}
+              <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
               {!submitting && !mintError && txHash && (
                 <div className="space-y-2">
                   <div className="text-emerald-600 flex items-center gap-2">
@@ -1083,11 +1388,9 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
                     NFT minted successfully
                   </div>
                   {phantasmaNftId && (
-                    <div className="text-xs">
+                    <div className="flex items-center gap-1 text-xs">
                       Phantasma NFT ID:{" "}
-                      <span className="font-mono" title={phantasmaNftId}>
-                        {truncateMiddle(phantasmaNftId, 46, 12)}
-                      </span>
+                      <ExplorerLink kind="nft" value={phantasmaNftId} symbol={tokenPrimary} maxLength={46} tailLength={12} />
                     </div>
                   )}
                   {mintedAddresses && mintedAddresses.length > 0 && (
@@ -1095,60 +1398,22 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
                       <div className="text-xs font-medium">Carbon NFT addresses:</div>
                       <ul className="space-y-1">
                         {mintedAddresses.map((addr) => (
-                          <li key={addr} className="font-mono text-xs break-all">
-                            {addr}
+                          <li key={addr} className="text-xs">
+                            <ExplorerLink value={addr} />
                           </li>
                         ))}
                       </ul>
                     </div>
                   )}
-                  <div className="flex items-center gap-2">
-                    <span className="font-mono text-xs break-all" title={txHash}>
-                      {truncateMiddle(txHash, 46, 12)}
-                    </span>
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="outline"
-                      onClick={() => {
-                        navigator.clipboard
-                          .writeText(txHash)
-                          .then(() => toast.success("Hash copied"))
-                          .catch(() => toast.error("Copy failed"));
-                      }}
-                    >
-                      Copy
-                    </Button>
-                  </div>
+                  <ExplorerLink kind="tx" value={txHash} maxLength={46} tailLength={12} className="text-xs" />
                 </div>
               )}
               {!submitting && mintError && (
-                <div className="space-y-1 text-destructive">
-                  <div className="flex items-center gap-2">
-                    <XCircle className="h-4 w-4" />
-                    Mint failed: {mintError}
-                  </div>
+                <TxErrorNotice error={mintError} title="Mint failed">
                   {txHash && (
-                    <div className="flex items-center gap-2 text-muted-foreground">
-                      <span className="font-mono text-xs break-all" title={txHash}>
-                        {truncateMiddle(txHash, 46, 12)}
-                      </span>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="outline"
-                        onClick={() => {
-                          navigator.clipboard
-                            .writeText(txHash)
-                            .then(() => toast.success("Hash copied"))
-                            .catch(() => toast.error("Copy failed"));
-                        }}
-                      >
-                        Copy
-                      </Button>
-                    </div>
+                    <ExplorerLink kind="tx" value={txHash} maxLength={46} tailLength={12} className="text-xs text-muted-foreground" />
                   )}
-                </div>
+                </TxErrorNotice>
               )}
             </div>
 
@@ -1190,7 +1455,7 @@ export function TokenMintTab({ selectedToken, phaCtx, addLog }: TokenMintTabProp
               ) : (
                 <div className="space-y-2">
                   {seriesNfts.map((nft) => (
-                    <NftPreviewCard key={`${nft.carbonNftAddress}-${getNftId(nft)}`} nft={nft} />
+                    <NftPreviewCard key={`${nft.carbonNftAddress}-${getNftId(nft)}`} nft={nft} symbol={tokenPrimary} />
                   ))}
                 </div>
               )}
@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
+  Bytes32,
   CreateSeriesFeeOptions,
   EasyConnect,
   Token,
@@ -15,8 +16,7 @@ import {
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Rocket, CheckCircle2, XCircle } from "lucide-react";
-import { toast } from "sonner";
+import { Loader2, Rocket, CheckCircle2 } from "lucide-react";
 
 import { getTokenPrimary, isTokenNFT } from "../utils/tokenHelpers";
 import { isHexValueValid, isVmValueValid } from "../utils/vmValidation";
@@ -26,8 +26,33 @@ import { formatVmTypeLabel } from "../utils/vmTypeLabel";
 import { parseBigIntInput } from "../utils/bigintInputs";
 import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
 
+import { useTxLifecycle } from "../hooks/useTxLifecycle";
+import { useTxSizeMeter } from "../hooks/useTxSizeMeter";
+import { useTxExpiry } from "../hooks/useTxExpiry";
+import { useFeePreflight } from "../hooks/useFeePreflight";
+import { useFormDraft } from "../hooks/useFormDraft";
+import { ExplorerLink } from "./ExplorerLink";
+import { TxLifecycleProgress } from "./TxLifecycleProgress";
+import { TxReviewDialog } from "./TxReviewDialog";
+import { TxSizeMeter } from "./TxSizeMeter";
+import { TxExportPanel } from "./TxExportPanel";
+import { TxExpiryControl } from "./TxExpiryControl";
+import { FeePreflightBanner } from "./FeePreflightBanner";
+import { FormDraftPrompt } from "./FormDraftPrompt";
+import { TxErrorNotice } from "./TxErrorNotice";
+
 import type { AddLogFn } from "../types";
-import { createSeries, getTokenExtended } from "@/lib/phantasmaClient";
+import {
+  PLACEHOLDER_SIGNER,
+  buildSeriesTx,
+  classifyTxError,
+  createSeries,
+  createTxError,
+  queryTokenExtended,
+  DEFAULT_SERIES_MAX_DATA,
+  SERIES_FEE_DEFAULTS,
+  type TxErrorInfo,
+} from "@/lib/phantasmaClient";
 
 type PhaCtxMinimal = {
   conn?: EasyConnect | null;
@@ -37,19 +62,27 @@ type TokenSeriesTabProps = {
   selectedToken: Token | null;
   phaCtx: PhaCtxMinimal;
   addLog: AddLogFn;
+  // Set while an address is being watched: everything stays visible, nothing can be signed.
+  watchAddress?: string | null;
 };
 
 type SeriesField = { name: string; type: VmType };
 
-const DEFAULT_SERIES_MAX_DATA = 100000000n;
-const SERIES_FEE_DEFAULTS = {
-  gasFeeBase: "10000",
-  gasFeeCreateSeriesBase: "2500000000",
-  feeMultiplier: "10000",
-  maxDataLimit: DEFAULT_SERIES_MAX_DATA.toString(),
+type SeriesFormDraft = {
+  name: string;
+  description: string;
+  imageURL: string;
+  infoURL: string;
+  royaltiesPercent: string;
+  romHex: string;
+  extraValues: Record<string, string>;
+  gasFeeBase: string;
+  gasFeeCreateSeriesBase: string;
+  feeMultiplier: string;
+  maxDataLimit: string;
 };
 
-export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTabProps) {
+export function TokenSeriesTab({ selectedToken, phaCtx, addLog, watchAddress }: TokenSeriesTabProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [carbonId, setCarbonId] = useState<bigint | null>(null);
@@ -68,7 +101,17 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
   const [submitting, setSubmitting] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [seriesId, setSeriesId] = useState<number | null>(null);
-  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<TxErrorInfo | null>(null);
+  const {
+    event: txEvent,
+    warning: txWarning,
+    begin: beginTx,
+    decide: decideTx,
+    stopWaiting: stopWaitingTx,
+    review: txReview,
+    resolveReview: resolveTxReview,
+  } = useTxLifecycle(selectedToken?.symbol);
+  const txUnconfirmed = txEvent?.stage === "unconfirmed";
   const [feesExpanded, setFeesExpanded] = useState(false);
   const [feesAreDefault, setFeesAreDefault] = useState(true);
   const [gasFeeBase, setGasFeeBase] = useState(SERIES_FEE_DEFAULTS.gasFeeBase);
@@ -77,9 +120,11 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
   );
   const [feeMultiplier, setFeeMultiplier] = useState(SERIES_FEE_DEFAULTS.feeMultiplier);
   const [maxDataLimit, setMaxDataLimit] = useState(SERIES_FEE_DEFAULTS.maxDataLimit);
+  const txExpiry = useTxExpiry();
+  const { resolveExpiry, error: expiryError, reset: resetExpiry } = txExpiry;
 
   const walletAddress = phaCtx?.conn?.link?.account?.address ?? null;
-  const canSign = !!walletAddress && !!phaCtx?.conn;
+  const canSign = !watchAddress && !!walletAddress && !!phaCtx?.conn;
 
   const tokenPrimary = selectedToken
     ? getTokenPrimary(selectedToken, selectedToken.symbol)
@@ -101,6 +146,7 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
     setMaxDataLimit(SERIES_FEE_DEFAULTS.maxDataLimit);
     setFeesExpanded(false);
     setFeesAreDefault(true);
+    resetExpiry();
     setExtraValues((prev) => {
       const cleared: Record<string, string> = {};
       for (const key of Object.keys(prev)) {
@@ -108,7 +154,7 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
       }
       return cleared;
     });
-  }, []);
+  }, [resetExpiry]);
 
   const handleManualReset = useCallback(() => {
     resetInputs();
@@ -154,13 +200,15 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
       return { ok: false as const, error: message };
     }
   }, [gasFeeBase, gasFeeCreateSeriesBase, feeMultiplier, maxDataLimit]);
+  const feePreflight = useFeePreflight(walletAddress, feeSummary.ok ? feeSummary : null);
+  const { blocked: feesBlocked, refresh: refreshFeeBalances } = feePreflight;
 
   const loadTokenDetails = useCallback(async () => {
     if (!selectedToken?.symbol) return;
     setLoading(true);
     setError(null);
     try {
-      const t: Token = await getTokenExtended(selectedToken.symbol);
+      const t: Token = await queryTokenExtended(selectedToken.symbol);
       const tokenSchemas = t.tokenSchemas ?? null;
       const rawCarbonId = t.carbonId;
       if (typeof rawCarbonId !== "string" || !rawCarbonId.trim()) {
@@ -248,8 +296,9 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
   const seriesRomInvalid =
     visibleStandard.rom && romHex.trim().length > 0 && !isHexValueValid(romHex);
 
-  const formValid = useMemo(() => {
-    if (!canSign || !isNft || !selectedToken || !carbonId || !seriesSchema) return false;
+  // Field validity without the wallet requirement; offline export works on valid inputs alone.
+  const inputsValid = useMemo(() => {
+    if (!isNft || !selectedToken || !carbonId || !seriesSchema) return false;
     // All fields from schema (excluding id/mode) are required
     if (visibleStandard.name && !name.trim()) return false;
     if (visibleStandard.description && !description.trim()) return false;
@@ -290,7 +339,6 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
     }
     return true;
   }, [
-    canSign,
     isNft,
     selectedToken,
     carbonId,
@@ -306,17 +354,100 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
     extraValues,
     schemaFieldMap,
   ]);
+  const formValid = canSign && inputsValid && !expiryError && !feesBlocked;
+
+  // Build values by iterating exact SDK schema and reading UI state (case-sensitive keys)
+  const seriesValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    for (const sf of (seriesSchema?.fields ?? [])) {
+      const k = String(sf.name?.data ?? '');
+      if (!k) continue;
+      if (k === '_i' || k === 'mode' || k === 'rom') continue;
+      let v = '';
+      switch (k) {
+        case 'name': v = name.trim(); break;
+        case 'description': v = description.trim(); break;
+        case 'imageURL': v = imageURL.trim(); break;
+        case 'infoURL': v = infoURL.trim(); break;
+        case 'royalties': v = royaltiesBaseUnitsString || ""; break;
+        default:
+          v = (extraValues[k] ?? '').trim();
+          break;
+      }
+      values[k] = v;
+    }
+    return values;
+  }, [seriesSchema, name, description, imageURL, infoURL, royaltiesBaseUnitsString, extraValues]);
+
+  const buildUnsignedTx = useCallback(
+    (creatorPublicKey: Bytes32) => {
+      if (!inputsValid || !seriesSchema || !carbonId) return null;
+      let feeOptions: CreateSeriesFeeOptions;
+      let maxDataValue: bigint;
+      try {
+        feeOptions = new CreateSeriesFeeOptions(
+          parseBigIntInput(gasFeeBase, "Gas fee base"),
+          parseBigIntInput(gasFeeCreateSeriesBase, "Gas fee create series base"),
+          parseBigIntInput(feeMultiplier, "Fee multiplier"),
+        );
+        maxDataValue = parseBigIntInput(maxDataLimit, "Max data limit", {
+          allowEmpty: true,
+          defaultValue: DEFAULT_SERIES_MAX_DATA,
+        });
+      } catch (err: unknown) {
+        return { success: false as const, error: err instanceof Error ? err.message : String(err) };
+      }
+      const expiry = resolveExpiry();
+      if (expiry === null) {
+        return { success: false as const, error: expiryError ?? "Invalid expiry" };
+      }
+      return buildSeriesTx({
+        creatorPublicKey,
+        carbonTokenId: carbonId,
+        seriesSchema,
+        seriesValues,
+        romHex: visibleStandard.rom ? romHex.trim() : undefined,
+        feeOptions,
+        maxData: maxDataValue,
+        expiry,
+      });
+    },
+    [
+      inputsValid,
+      seriesSchema,
+      carbonId,
+      seriesValues,
+      visibleStandard,
+      romHex,
+      gasFeeBase,
+      gasFeeCreateSeriesBase,
+      feeMultiplier,
+      maxDataLimit,
+      resolveExpiry,
+      expiryError,
+    ],
+  );
+  const buildSizeTx = useCallback(() => buildUnsignedTx(PLACEHOLDER_SIGNER), [buildUnsignedTx]);
+  const txSize = useTxSizeMeter(buildSizeTx);
 
   const handleCreate = useCallback(async () => {
     if (!selectedToken?.symbol || !carbonId) return;
     if (!phaCtx?.conn) {
-      setSubmitError("Wallet is not connected");
+      setSubmitError(createTxError("wallet_unavailable", "Wallet is not connected"));
+      return;
+    }
+    if (txSize.overLimit) {
+      setSubmitError(
+        createTxError("encoding_failure", "Transaction is too large for Phantasma Link. Reduce the ROM or metadata size."),
+      );
+      addLog("[error] Series transaction exceeds Link size limit", { report: txSize.report });
       return;
     }
     setSubmitting(true);
     setSubmitError(null);
     setTxHash(null);
     setSeriesId(null);
+    const txPipeline = beginTx();
 
     try {
       // Use schema captured during load to avoid any drift
@@ -325,25 +456,7 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
         throw new Error("Series schema not loaded");
       })();
 
-      // Build values by iterating exact SDK schema and reading UI state (case-sensitive keys)
-      const values: Record<string, string> = {};
-      for (const sf of (schema.fields ?? [])) {
-        const k = String(sf.name?.data ?? '');
-        if (!k) continue;
-        if (k === '_i' || k === 'mode' || k === 'rom') continue;
-        let v = '';
-        switch (k) {
-          case 'name': v = name.trim(); break;
-          case 'description': v = description.trim(); break;
-          case 'imageURL': v = imageURL.trim(); break;
-          case 'infoURL': v = infoURL.trim(); break;
-          case 'royalties': v = royaltiesBaseUnitsString || ""; break;
-          default:
-            v = (extraValues[k] ?? '').trim();
-            break;
-        }
-        values[k] = v;
-      }
+      const values = seriesValues;
 
       let gasFeeBaseValue: bigint;
       let gasFeeCreateSeriesBaseValue: bigint;
@@ -362,7 +475,7 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
         });
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
-        setSubmitError(message);
+        setSubmitError(createTxError("invalid_input", message));
         addLog("[error] Series fee parsing failed", { error: message });
         return;
       }
@@ -393,45 +506,125 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
         romHex: visibleStandard.rom ? romHex.trim() : undefined,
         feeOptions,
         maxData: maxDataValue,
+        expiry: resolveExpiry(),
         addLog,
+        pipeline: txPipeline,
       });
 
       if (!res.success) {
-        throw new Error(res.error);
+        if (res.unconfirmed) {
+          addLog("[series] Series transaction not confirmed yet", { txHash: res.txHash });
+          return;
+        }
+        const failure = res.errorInfo ?? classifyTxError(res.error);
+        if (res.txHash) setTxHash(res.txHash);
+        setSubmitError(failure);
+        addLog("[error] Failed to create series", { error: failure.message, kind: failure.kind });
+        return;
       }
       setTxHash(res.txHash);
       if (res.seriesId !== undefined) setSeriesId(res.seriesId);
       addLog("[series] Created series", { txHash: res.txHash, seriesId: res.seriesId });
       resetInputs();
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setSubmitError(message);
-      addLog("[error] Failed to create series", { error: message });
+      const failure = classifyTxError(err);
+      setSubmitError(failure);
+      addLog("[error] Failed to create series", { error: failure.message, kind: failure.kind });
     } finally {
       setSubmitting(false);
+      refreshFeeBalances();
     }
   }, [
     selectedToken?.symbol,
     carbonId,
     phaCtx?.conn,
     visibleStandard,
-    name,
-    description,
-    imageURL,
-    infoURL,
-    royaltiesPercent,
-    royaltiesBaseUnitsString,
     romHex,
     gasFeeBase,
     gasFeeCreateSeriesBase,
     feeMultiplier,
     maxDataLimit,
+    resolveExpiry,
+    refreshFeeBalances,
     addLog,
     seriesSchema,
+    seriesValues,
     extraValues,
+    txSize,
     resetInputs,
+    beginTx,
   ]);
 
+  const draftData = useMemo<SeriesFormDraft>(
+    () => ({
+      name,
+      description,
+      imageURL,
+      infoURL,
+      royaltiesPercent,
+      romHex,
+      extraValues,
+      gasFeeBase,
+      gasFeeCreateSeriesBase,
+      feeMultiplier,
+      maxDataLimit,
+    }),
+    [
+      name,
+      description,
+      imageURL,
+      infoURL,
+      royaltiesPercent,
+      romHex,
+      extraValues,
+      gasFeeBase,
+      gasFeeCreateSeriesBase,
+      feeMultiplier,
+      maxDataLimit,
+    ],
+  );
+  const draftEmpty =
+    !name.trim() &&
+    !description.trim() &&
+    !imageURL.trim() &&
+    !infoURL.trim() &&
+    !royaltiesPercent.trim() &&
+    romHex.trim() === "0x" &&
+    Object.values(extraValues).every((value) => !value.trim()) &&
+    feesAreDefault;
+
+  const applyDraft = useCallback((draft: SeriesFormDraft) => {
+    setName(draft.name);
+    setDescription(draft.description);
+    setImageURL(draft.imageURL);
+    setInfoURL(draft.infoURL);
+    setRoyaltiesPercent(draft.royaltiesPercent);
+    setRomHex(draft.romHex);
+    // Only fields the token's current schema still has.
+    setExtraValues((prev) => {
+      const next: Record<string, string> = {};
+      for (const key of Object.keys(prev)) {
+        next[key] = draft.extraValues[key] ?? "";
+      }
+      return next;
+    });
+    setGasFeeBase(draft.gasFeeBase);
+    setGasFeeCreateSeriesBase(draft.gasFeeCreateSeriesBase);
+    setFeeMultiplier(draft.feeMultiplier);
+    setMaxDataLimit(draft.maxDataLimit);
+  }, []);
+
+  const formDraft = useFormDraft({
+    tab: "series",
+    walletAddress,
+    token: selectedToken?.symbol ?? null,
+    data: draftData,
+    empty: draftEmpty,
+    label: `${tokenPrimary} series${name.trim() ? ` "${name.trim()}"` : ""}`,
+    ready: !!selectedToken && isNft && !loading && carbonId !== null,
+    onRestore: applyDraft,
+  });
+
   if (!selectedToken) {
     return (
       <Card>
@@ -480,6 +673,7 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
           <div className="text-sm text-red-600">{error}</div>
         ) : (
           <>
+            <FormDraftPrompt draft={formDraft} />
             <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
               {visibleStandard.name && (
                 <div className="space-y-1">
@@ -705,6 +899,9 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
                       <div className="mt-1 text-amber-500">{feeSummary.error}</div>
                     )}
                   </div>
+                  <div className="mt-3">
+                    <TxExpiryControl expiry={txExpiry} disabled={submitting} />
+                  </div>
                 </>
               ) : (
                 <p className="mt-3 text-xs text-muted-foreground">
@@ -715,8 +912,18 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
               )}
             </div>
 
+            <FeePreflightBanner preflight={feePreflight} />
+            <TxSizeMeter report={txSize.report} error={txSize.error} />
+
+            <TxExportPanel
+              buildTx={buildUnsignedTx}
+              defaultSigner={phaCtx?.conn?.link?.account?.address}
+              fileLabel={`series-${selectedToken.symbol}`}
+              addLog={addLog}
+            />
+
             <div className="flex items-center gap-2">
-              <Button type="button" onClick={handleCreate} disabled={!formValid || submitting}>
+              <Button type="button" onClick={handleCreate} disabled={!formValid || submitting || txSize.overLimit}>
                 {submitting ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Creating…
@@ -728,21 +935,26 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
                 )}
               </Button>
               {!canSign && (
-                <span className="text-xs text-muted-foreground">Connect wallet to continue</span>
+                <span className="text-xs text-muted-foreground">
+                  {watchAddress ? "Read-only while watching an address" : "Connect wallet to continue"}
+                </span>
               )}
             </div>
 
             <div className="w-full space-y-2 text-sm text-muted-foreground">
               <div className="font-medium text-foreground">Series creation status</div>
-              {!submitting && !submitError && !txHash && (
+              {!submitting && !submitError && !txHash && !txUnconfirmed && (
                 <div>No recent series creation.</div>
               )}
-              {submitting && (
-                <div className="flex items-center gap-2 text-amber-500">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Waiting for transaction confirmation…
-                </div>
+              {(submitting || txUnconfirmed) && (
+                <TxLifecycleProgress
+                  event={txEvent}
+                  warning={txWarning}
+                  onDecision={decideTx}
+                  onStopWaiting={stopWaitingTx}
+                />
               )}
+              <TxReviewDialog preview={txReview} onResolve={resolveTxReview} />
               {!submitting && !submitError && txHash && (
                 <div className="space-y-1">
                   <div className="text-emerald-600 flex items-center gap-2">
@@ -754,49 +966,15 @@ export function TokenSeriesTab({ selectedToken, phaCtx, addLog }: TokenSeriesTab
                       </span>
                     )}
                   </div>
-                  <div className="flex items-center gap-2">
-                    <span className="font-mono text-xs break-all">{txHash}</span>
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="outline"
-                      onClick={() => {
-                        navigator.clipboard
-                          .writeText(txHash)
-                          .then(() => toast.success("Hash copied"))
-                          .catch(() => toast.error("Copy failed"));
-                      }}
-                    >
-                      Copy
-                    </Button>
-                  </div>
+                  <ExplorerLink kind="tx" value={txHash} className="max-w-full text-xs" />
                 </div>
               )}
               {!submitting && submitError && (
-                <div className="space-y-1 text-destructive">
-                  <div className="flex items-center gap-2">
-                    <XCircle className="h-4 w-4" />
-                    Transaction failed: {submitError}
-                  </div>
+                <TxErrorNotice error={submitError}>
                   {txHash && (
-                    <div className="flex items-center gap-2 text-muted-foreground">
-                      <span className="font-mono text-xs break-all">{txHash}</span>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="outline"
-                        onClick={() => {
-                          navigator.clipboard
-                            .writeText(txHash)
-                            .then(() => toast.success("Hash copied"))
-                            .catch(() => toast.error("Copy failed"));
-                        }}
-                      >
-                        Copy
-                      </Button>
-                    </div>
+                    <ExplorerLink kind="tx" value={txHash} className="max-w-full text-xs text-muted-foreground" />
                   )}
-                </div>
+                </TxErrorNotice>
               )}
             </div>
           </>
@@ -0,0 +1,36 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Lightbulb, XCircle } from "lucide-react";
+
+import { TX_ERROR_KIND_LABELS, type TxErrorInfo } from "@/lib/phantasmaClient";
+
+type TxErrorNoticeProps = {
+  error: TxErrorInfo;
+  title?: string;
+  // Extra rows under the message, e.g. the failed tx hash.
+  children?: ReactNode;
+};
+
+export function TxErrorNotice({ error, title = "Transaction failed", children }: TxErrorNoticeProps) {
+  return (
+    <div className="space-y-1 text-sm text-destructive">
+      <div className="flex items-start gap-2">
+        <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+        <span className="break-words">
+          {title}: {error.message}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-start gap-2 pl-6 text-xs">
+        <span className="rounded border border-destructive/40 px-1.5 py-0.5">{TX_ERROR_KIND_LABELS[error.kind]}</span>
+        {error.hint && (
+          <span className="flex items-start gap-1 text-amber-600">
+            <Lightbulb className="mt-0.5 h-3 w-3 shrink-0" />
+            {error.hint}
+          </span>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
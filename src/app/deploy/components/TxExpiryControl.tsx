@@ -0,0 +1,64 @@
+"use client";
+
+import { TX_EXPIRY_PRESETS } from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+import type { TxExpiryState } from "../hooks/useTxExpiry";
+
+type TxExpiryControlProps = {
+  expiry: TxExpiryState;
+  disabled?: boolean;
+};
+
+function formatWindow(windowMs: number): string {
+  const minutes = Math.round(windowMs / 60_000);
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} h`;
+  }
+  return `${minutes} min`;
+}
+
+export function TxExpiryControl({ expiry, disabled }: TxExpiryControlProps) {
+  const options = [...TX_EXPIRY_PRESETS.map(({ id, label }) => ({ id, label })), { id: "custom" as const, label: "Custom" }];
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">Expiry</label>
+      <div className="flex flex-wrap items-center gap-2">
+        {options.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => expiry.setPreset(option.id)}
+            className={cn(
+              "rounded-md border px-3 py-1 text-sm transition",
+              expiry.preset === option.id ? "bg-primary text-primary-foreground" : "bg-background hover:bg-muted",
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+        {expiry.preset === "custom" && (
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              className="w-20 rounded border px-2 py-1 font-mono"
+              value={expiry.customMinutes}
+              disabled={disabled}
+              onChange={(e) => expiry.setCustomMinutes(e.target.value)}
+              inputMode="numeric"
+            />
+            <span className="text-muted-foreground">minutes</span>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {expiry.windowMs !== null
+          ? `The network rejects the transaction if it is not included within ${formatWindow(expiry.windowMs)} of submitting, including the time spent approving it in Link.`
+          : "The network rejects the transaction once its expiry passes."}
+      </p>
+      {expiry.error && <p className="text-xs text-red-500">{expiry.error}</p>}
+      {expiry.skewWarning && <p className="text-xs text-amber-500">{expiry.skewWarning}</p>}
+    </div>
+  );
+}
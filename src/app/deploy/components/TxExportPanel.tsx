@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { Address, Bytes32 } from "phantasma-sdk-ts";
+import { ChevronDown, Copy, Download } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  createUnsignedTxExport,
+  type TxBuildResult,
+  type UnsignedTxExport,
+} from "@/lib/phantasmaClient";
+
+import type { AddLogFn } from "../types";
+import { downloadTextFile } from "../utils/fileDownload";
+
+export type UnsignedTxBuilder = (
+  signer: Bytes32,
+) => TxBuildResult<object> | Promise<TxBuildResult<object>> | null;
+
+type TxExportPanelProps = {
+  buildTx: UnsignedTxBuilder;
+  // Prefills the signer field; offline signers usually differ from the connected wallet.
+  defaultSigner?: string | null;
+  // Used in downloaded file names, e.g. "deploy-MYTOKEN".
+  fileLabel: string;
+  addLog: AddLogFn;
+};
+
+function signerPublicKey(addressText: string): Bytes32 {
+  const address = Address.FromText(addressText);
+  if (!address.IsUser) {
+    throw new Error("Signer must be a user address");
+  }
+  return new Bytes32(address.GetPublicKey());
+}
+
+export function TxExportPanel({ buildTx, defaultSigner, fileLabel, addLog }: TxExportPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [signer, setSigner] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const effectiveSigner = signer.trim() || defaultSigner?.trim() || "";
+
+  const buildExport = async (): Promise<UnsignedTxExport | null> => {
+    setError(null);
+    if (!effectiveSigner) {
+      setError("Signer address is required");
+      return null;
+    }
+    let key: Bytes32;
+    try {
+      key = signerPublicKey(effectiveSigner);
+    } catch (err: unknown) {
+      setError(`Invalid signer address: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+    setBusy(true);
+    try {
+      const built = await buildTx(key);
+      if (!built) {
+        setError("Fill in the required fields before exporting");
+        return null;
+      }
+      if (!built.success) {
+        setError(built.error);
+        return null;
+      }
+      const exported = createUnsignedTxExport(built.txMsg);
+      addLog("[export] Unsigned transaction exported", {
+        signer: exported.signer,
+        txType: exported.txType,
+        byteSize: exported.byteSize,
+      });
+      return exported;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const baseName = `${fileLabel}-unsigned-${Date.now()}`;
+
+  const handleDownloadJson = async () => {
+    const exported = await buildExport();
+    if (!exported) return;
+    downloadTextFile(`${baseName}.json`, JSON.stringify(exported, null, 2), "application/json");
+  };
+
+  const handleDownloadHex = async () => {
+    const exported = await buildExport();
+    if (!exported) return;
+    downloadTextFile(`${baseName}.hex`, exported.txHex);
+  };
+
+  const handleCopyHex = async () => {
+    const exported = await buildExport();
+    if (!exported) return;
+    navigator.clipboard
+      .writeText(exported.txHex)
+      .then(() => toast.success("Unsigned transaction hex copied"))
+      .catch(() => toast.error("Copy failed"));
+  };
+
+  return (
+    <div className="rounded-lg border p-3">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between gap-2 text-left"
+        onClick={() => setExpanded((prev) => !prev)}
+      >
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+          Export for offline signing
+        </h3>
+        <ChevronDown size={16} className={`transition-transform ${expanded ? "rotate-180" : ""}`} />
+      </button>
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Builds the same transaction without asking Link to sign it. The signer pays the fees and owns the
+            result; sign the exported hex bytes on the offline machine and broadcast the signed blob from the
+            Broadcast tab. The expiry from Fees &amp; limits starts counting at export, so leave enough time for the
+            round trip.
+          </p>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium">Signer address</label>
+            <input
+              className="w-full rounded border px-2 py-1 font-mono text-sm"
+              value={signer}
+              onChange={(e) => setSigner(e.target.value)}
+              placeholder={defaultSigner ?? "P2K…"}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" size="sm" variant="outline" disabled={busy} onClick={handleDownloadJson}>
+              <Download className="mr-2 h-4 w-4" /> JSON with summary
+            </Button>
+            <Button type="button" size="sm" variant="outline" disabled={busy} onClick={handleDownloadHex}>
+              <Download className="mr-2 h-4 w-4" /> Hex
+            </Button>
+            <Button type="button" size="sm" variant="outline" disabled={busy} onClick={handleCopyHex}>
+              <Copy className="mr-2 h-4 w-4" /> Copy hex
+            </Button>
+          </div>
+          {error && <div className="text-xs text-red-500">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
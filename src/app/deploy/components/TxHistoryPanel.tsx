@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Ban,
+  CheckCircle2,
+  ChevronDown,
+  History,
+  Loader2,
+  RefreshCw,
+  Search,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { classifyTxError, type TxJournalEntry } from "@/lib/phantasmaClient";
+
+import { TX_OPERATION_LABELS } from "../utils/txOperationLabels";
+import { ExplorerLink } from "./ExplorerLink";
+
+type TxHistoryPanelProps = {
+  entries: TxJournalEntry[];
+  nexus: string;
+  hasWalletAddress: boolean;
+  onRecheckEntry: (txHash: string) => void;
+  onRemoveEntry: (txHash: string) => void;
+  onClear: () => void;
+};
+
+function formatTimestamp(value: number): string {
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return String(value);
+  }
+}
+
+function StatusBadge({ entry }: { entry: TxJournalEntry }) {
+  switch (entry.status) {
+    case "confirmed":
+      return (
+        <span className="flex items-center gap-1 text-emerald-600">
+          <CheckCircle2 className="h-3 w-3" /> Confirmed
+        </span>
+      );
+    case "failed":
+      return (
+        <span className="flex items-center gap-1 text-destructive">
+          <XCircle className="h-3 w-3" /> Failed
+        </span>
+      );
+    case "abandoned":
+      return (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Ban className="h-3 w-3" /> Not tracked
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1 text-amber-500">
+          <Loader2 className="h-3 w-3 animate-spin" /> Pending
+        </span>
+      );
+  }
+}
+
+function JournalError({ error }: { error: string }) {
+  const { hint } = classifyTxError(error);
+  return (
+    <div className="text-xs text-destructive break-all">
+      {error}
+      {hint && <div className="text-amber-600">{hint}</div>}
+    </div>
+  );
+}
+
+export function TxHistoryPanel({
+  entries,
+  nexus,
+  hasWalletAddress,
+  onRecheckEntry,
+  onRemoveEntry,
+  onClear,
+}: TxHistoryPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <button
+            type="button"
+            className="flex items-center gap-2 text-left focus:outline-none"
+            onClick={() => setExpanded((prev) => !prev)}
+            aria-expanded={expanded}
+          >
+            <ChevronDown size={16} className={`transition-transform ${expanded ? "rotate-180" : ""}`} />
+            <span className="flex items-center gap-2">
+              <History size={16} />
+              Transaction History
+              <span className="text-sm font-normal text-muted-foreground">
+                ({entries.length} on {nexus})
+              </span>
+            </span>
+          </button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={onClear}
+            disabled={entries.length === 0}
+          >
+            <Trash2 className="mr-2 h-4 w-4" /> Clear
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {expanded && (
+        <CardContent className="space-y-2 text-sm">
+          {!hasWalletAddress ? (
+            <div className="text-muted-foreground">Connect wallet to see its transaction history.</div>
+          ) : entries.length === 0 ? (
+            <div className="text-muted-foreground">No transactions recorded for this wallet yet.</div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.txHash} className="rounded-md border p-3 space-y-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="font-medium">
+                    {TX_OPERATION_LABELS[entry.operation] ?? entry.operation}
+                    {entry.tokenSymbol && <span className="ml-1 font-mono">{entry.tokenSymbol}</span>}
+                  </div>
+                  <StatusBadge entry={entry} />
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <ExplorerLink kind="tx" value={entry.txHash} maxLength={24} tailLength={8} />
+                  <Button asChild size="icon" variant="ghost" className="h-6 w-6" title="Inspect transaction">
+                    <Link href={`/tx/${entry.txHash}`}>
+                      <Search className="h-3 w-3" />
+                    </Link>
+                  </Button>
+                  {(entry.status === "pending" || entry.status === "abandoned") && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      title="Check again"
+                      onClick={() => onRecheckEntry(entry.txHash)}
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => onRemoveEntry(entry.txHash)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                {Object.keys(entry.summary).length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    {Object.entries(entry.summary).map(([key, value]) => (
+                      <span key={key}>
+                        {key}: <span className="font-mono break-all">{value}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {entry.error && <JournalError error={entry.error} />}
+                <div className="text-xs text-muted-foreground">
+                  Submitted {formatTimestamp(entry.createdAt)} · updated {formatTimestamp(entry.updatedAt)}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Circle, Clock, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { TxLifecycleEvent, TxLifecycleStage, UnconfirmedDecision } from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+type TxLifecycleProgressProps = {
+  event: TxLifecycleEvent | null;
+  onDecision?: (decision: UnconfirmedDecision) => void;
+  onStopWaiting?: () => void;
+  warning?: string | null;
+};
+
+const STEPS: { stage: TxLifecycleStage; label: string }[] = [
+  { stage: "built", label: "Built" },
+  { stage: "awaiting_signature", label: "Signature" },
+  { stage: "broadcast", label: "Broadcast" },
+  { stage: "confirming", label: "Confirming" },
+  { stage: "confirmed", label: "Confirmed" },
+];
+
+// "signed" is reported right before "broadcast" by Link, so both map onto the same step.
+const STEP_INDEX: Record<TxLifecycleStage, number> = {
+  built: 0,
+  awaiting_signature: 1,
+  signed: 2,
+  broadcast: 2,
+  confirming: 3,
+  confirmed: 4,
+  failed: -1,
+  unconfirmed: 3,
+};
+
+function describeEvent(event: TxLifecycleEvent | null): string {
+  if (!event) return "Preparing transaction…";
+  switch (event.stage) {
+    case "built":
+      return "Transaction built";
+    case "awaiting_signature":
+      return "Waiting for wallet signature…";
+    case "signed":
+      return "Signed by wallet";
+    case "broadcast":
+      return "Broadcast to the network";
+    case "confirming":
+      return `Waiting for transaction confirmation… (attempt ${event.attempt}/${event.maxAttempts}, next check in ${Math.ceil(event.nextDelayMs / 1000)}s)`;
+    case "confirmed":
+      return "Transaction confirmed";
+    case "failed":
+      return "Transaction failed";
+    case "unconfirmed":
+      if (event.resolution === "give_up") {
+        return "Stopped tracking this transaction. It may still be processed by the network.";
+      }
+      if (event.resolution === "check_later") {
+        return "Not confirmed yet. It stays pending in Transaction History and is checked again on next start.";
+      }
+      return "Not confirmed yet. The transaction may still land.";
+  }
+}
+
+export function TxLifecycleProgress({ event, onDecision, onStopWaiting, warning }: TxLifecycleProgressProps) {
+  const currentIndex = event ? STEP_INDEX[event.stage] : -1;
+  const unconfirmed = event?.stage === "unconfirmed";
+  const awaitingDecision = unconfirmed && !event.resolution;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-amber-500">
+        {unconfirmed ? <Clock className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+        {describeEvent(event)}
+      </div>
+      <ol className="flex flex-wrap items-center gap-3 text-xs">
+        {STEPS.map((step, index) => {
+          const done = currentIndex > index;
+          const active = currentIndex === index;
+          return (
+            <li
+              key={step.stage}
+              className={cn(
+                "flex items-center gap-1",
+                done && "text-emerald-600",
+                active && "text-foreground font-medium",
+                !done && !active && "text-muted-foreground",
+              )}
+            >
+              {done ? (
+                <CheckCircle2 className="h-3 w-3" />
+              ) : active && !unconfirmed ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Circle className="h-3 w-3" />
+              )}
+              {step.label}
+            </li>
+          );
+        })}
+      </ol>
+      {warning && (
+        <div className="flex items-center gap-2 text-xs text-amber-500">
+          <AlertTriangle className="h-3 w-3" />
+          {warning}
+        </div>
+      )}
+      {awaitingDecision && onDecision && (
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" onClick={() => onDecision("keep_waiting")}>
+            Keep waiting
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => onDecision("check_later")}>
+            Check again later
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => onDecision("give_up")}>
+            Give up
+          </Button>
+        </div>
+      )}
+      {event?.stage === "confirming" && onStopWaiting && (
+        <Button type="button" size="sm" variant="outline" onClick={onStopWaiting}>
+          Stop waiting
+        </Button>
+      )}
+    </div>
+  );
+}
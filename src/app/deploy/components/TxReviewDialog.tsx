@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect } from "react";
+import { FileSearch, ShieldCheck, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TxPreview, TxPreviewField } from "@/lib/phantasmaClient";
+
+import { formatBytes } from "../utils/byteFormatting";
+import { formatKcalAmount, formatSoulAmount } from "../utils/feeFormatting";
+
+type TxReviewDialogProps = {
+  preview: TxPreview | null;
+  onResolve: (approved: boolean) => void;
+};
+
+export function formatPreviewValue(field: TxPreviewField): string {
+  try {
+    switch (field.kind) {
+      case "kcal":
+        return formatKcalAmount(BigInt(field.value));
+      case "soul":
+        return formatSoulAmount(BigInt(field.value));
+      case "timestamp": {
+        const ms = Number(field.value);
+        const deltaSeconds = Math.round((ms - Date.now()) / 1000);
+        const relative = deltaSeconds >= 0 ? `in ${deltaSeconds}s` : `${-deltaSeconds}s ago`;
+        return `${new Date(ms).toLocaleString()} (${relative})`;
+      }
+      case "bytes":
+        return formatBytes(Number(field.value));
+      default:
+        return field.value;
+    }
+  } catch {
+    return field.value;
+  }
+}
+
+export function TxPreviewSections({ preview }: { preview: TxPreview }) {
+  return (
+    <div className="space-y-3">
+      {preview.sections.map((section, sectionIndex) => (
+        <div key={`${section.title}-${sectionIndex}`} className="rounded-md border p-3">
+          <div className="mb-2 text-sm font-medium">{section.title}</div>
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-1 text-xs sm:grid-cols-[max-content_1fr]">
+            {section.fields.map((field, fieldIndex) => (
+              <div key={`${field.label}-${fieldIndex}`} className="contents">
+                <dt className="text-muted-foreground">{field.label}</dt>
+                <dd
+                  className={
+                    field.kind === "address" || field.kind === "hex" ? "font-mono break-all" : "break-all"
+                  }
+                >
+                  {formatPreviewValue(field)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TxReviewDialog({ preview, onResolve }: TxReviewDialogProps) {
+  useEffect(() => {
+    if (!preview) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onResolve(false);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [preview, onResolve]);
+
+  if (!preview) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="flex max-h-[90vh] w-full max-w-2xl flex-col">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5" />
+            Review {preview.typeName} transaction
+          </CardTitle>
+          <Button type="button" size="icon" variant="ghost" onClick={() => onResolve(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3 overflow-y-auto">
+          <div className="text-sm text-muted-foreground">
+            Serialized size: <span className="font-mono">{formatBytes(preview.byteSize)}</span> (
+            {preview.byteSize.toLocaleString()} bytes, unsigned)
+          </div>
+          <TxPreviewSections preview={preview} />
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => onResolve(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => onResolve(true)}>
+            <ShieldCheck className="mr-2 h-4 w-4" /> Continue to wallet
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
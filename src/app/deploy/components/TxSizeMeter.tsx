@@ -0,0 +1,52 @@
+"use client";
+
+import type { TxSizeReport } from "@/lib/phantasmaClient";
+import { cn } from "@/lib/utils";
+
+import { formatBytes } from "../utils/byteFormatting";
+
+type TxSizeMeterProps = {
+  report: TxSizeReport | null;
+  error?: string | null;
+};
+
+// Bar turns amber past this share of the Link budget so users notice before they hit the wall.
+const WARN_RATIO = 0.85;
+
+export function TxSizeMeter({ report, error }: TxSizeMeterProps) {
+  if (!report) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Transaction size: {error ? `not available (${error})` : "shown once the required fields are filled"}
+      </div>
+    );
+  }
+
+  const ratio = report.signedBytes / report.limitBytes;
+  const percent = Math.min(100, Math.round(ratio * 100));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-muted-foreground">
+          Transaction size: <span className="font-mono">{formatBytes(report.signedBytes)}</span> of{" "}
+          <span className="font-mono">{formatBytes(report.limitBytes)}</span> Link limit
+        </span>
+        <span className={cn(report.withinLimit ? "text-muted-foreground" : "text-red-500 font-medium")}>
+          {report.withinLimit
+            ? `${formatBytes(report.remainingBytes)} remaining`
+            : `${formatBytes(-report.remainingBytes)} over the limit`}
+        </span>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded bg-muted">
+        <div
+          className={cn(
+            "h-full",
+            !report.withinLimit ? "bg-red-500" : ratio >= WARN_RATIO ? "bg-amber-500" : "bg-emerald-500",
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Eye, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import { isValidAddress } from "../utils/addressHelpers";
+import { ExplorerLink } from "./ExplorerLink";
+
+type WatchAddressBarProps = {
+  watchAddress: string | null;
+  onWatch: (address: string) => void;
+  onStop: () => void;
+};
+
+// Loads any account's tokens, series and NFTs without a wallet. The page stays read-only
+// until watching stops.
+export function WatchAddressBar({ watchAddress, onWatch, onStop }: WatchAddressBarProps) {
+  const [input, setInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = input.trim();
+    if (!trimmed) {
+      setError("Enter an address to watch");
+      return;
+    }
+    if (!isValidAddress(trimmed)) {
+      setError("Invalid Phantasma address");
+      return;
+    }
+    setError(null);
+    setInput("");
+    onWatch(trimmed);
+  };
+
+  if (watchAddress) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Eye className="h-4 w-4 text-amber-600" />
+        <span className="text-muted-foreground">Watching</span>
+        <ExplorerLink kind="address" value={watchAddress} />
+        <Button type="button" size="sm" variant="outline" onClick={onStop}>
+          <X className="mr-1 h-3 w-3" /> Stop watching
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-1" onSubmit={handleSubmit}>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className="min-w-[16rem] flex-1 rounded border px-3 py-1.5 font-mono text-sm"
+          placeholder="Watch address (P2K…), read-only"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setError(null);
+          }}
+          spellCheck={false}
+        />
+        <Button type="submit" size="sm" variant="outline">
+          <Eye className="mr-1 h-3 w-3" /> Watch
+        </Button>
+      </div>
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </form>
+  );
+}
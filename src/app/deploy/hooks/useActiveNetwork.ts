@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from "react";
+
+import {
+  BUILT_IN_NETWORKS,
+  DEFAULT_NETWORK,
+  getActiveNetwork,
+  listNetworkProfiles,
+  subscribeNetwork,
+} from "@/lib/phantasmaClient";
+
+// The server render has no localStorage, so it always shows the build default.
+export function useActiveNetwork() {
+  return useSyncExternalStore(subscribeNetwork, getActiveNetwork, () => DEFAULT_NETWORK);
+}
+
+export function useNetworkProfiles() {
+  return useSyncExternalStore(subscribeNetwork, listNetworkProfiles, () => BUILT_IN_NETWORKS);
+}
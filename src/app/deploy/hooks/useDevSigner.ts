@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+
+import { getDevSignerAddress, subscribeDevSigner } from "@/lib/phantasmaClient";
+
+// Address of the loaded local dev signer, or null. The key only exists client-side.
+export function useDevSigner(): string | null {
+  return useSyncExternalStore(subscribeDevSigner, getDevSignerAddress, () => null);
+}
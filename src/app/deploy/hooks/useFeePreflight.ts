@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import {
+  evaluateFeePreflight,
+  getFeeBalances,
+  type FeeBalances,
+  type FeeRequirement,
+} from "@/lib/phantasmaClient";
+
+// Loads the payer's KCAL/SOUL balances and compares them with the form's worst-case fees.
+// `fees` is null while the fee inputs are invalid; the report is then withheld too.
+export function useFeePreflight(address: string | null | undefined, fees: FeeRequirement | null) {
+  const [balances, setBalances] = useState<FeeBalances | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (!address) {
+      setBalances(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    void getFeeBalances(address)
+      .then((result) => {
+        if (!cancelled) setBalances(result);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setBalances(null);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, reloadToken]);
+
+  const maxGas = fees?.maxGas ?? null;
+  const maxData = fees?.maxData ?? null;
+  const report = useMemo(() => {
+    if (!balances || balances.address !== address || maxGas === null || maxData === null) {
+      return null;
+    }
+    return evaluateFeePreflight(balances, { maxGas, maxData });
+  }, [balances, address, maxGas, maxData]);
+
+  const refresh = useCallback(() => setReloadToken((prev) => prev + 1), []);
+
+  return {
+    address: address ?? null,
+    report,
+    loading,
+    error,
+    blocked: !!report && !report.ok,
+    refresh,
+  };
+}
+
+export type FeePreflightState = ReturnType<typeof useFeePreflight>;
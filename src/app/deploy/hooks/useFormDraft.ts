@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  deleteFormDraft,
+  formDraftKey,
+  loadFormDraft,
+  saveFormDraft,
+  type FormDraft,
+  type FormDraftScope,
+} from "@/lib/phantasmaClient";
+
+import type { TokenActionTab } from "../types";
+import { useActiveNetwork } from "./useActiveNetwork";
+
+const AUTOSAVE_DEBOUNCE_MS = 800;
+
+type UseFormDraftOptions<T> = {
+  tab: TokenActionTab;
+  walletAddress: string | null | undefined;
+  // Selected token symbol; null for forms that do not act on one.
+  token: string | null;
+  // Serializable snapshot of the form inputs.
+  data: T;
+  // An empty form deletes its draft instead of saving it, so a reset or a successful
+  // submission clears the draft too.
+  empty: boolean;
+  label: string;
+  // False while the form is still loading what a restored draft would be applied on top of
+  // (token schemas, ...). Nothing is loaded or saved until then.
+  ready?: boolean;
+  onRestore: (data: T) => void;
+};
+
+// Autosaves a form to IndexedDB and offers the saved draft back when the form opens again.
+// Autosave starts only once the user has restored or discarded a waiting draft, so opening a
+// form never overwrites a draft with blank inputs.
+export function useFormDraft<T>({
+  tab,
+  walletAddress,
+  token,
+  data,
+  empty,
+  label,
+  ready = true,
+  onRestore,
+}: UseFormDraftOptions<T>) {
+  const network = useActiveNetwork();
+  const scope = useMemo<FormDraftScope>(
+    () => ({ wallet: walletAddress ?? "", networkId: network.id, tab, token }),
+    [walletAddress, network.id, tab, token],
+  );
+  const key = formDraftKey(scope);
+  const serialized = useMemo(() => JSON.stringify(data), [data]);
+
+  const [pending, setPending] = useState<FormDraft<T> | null>(null);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Key whose waiting draft (if any) has been dealt with; autosave is limited to it.
+  const [resolvedKey, setResolvedKey] = useState<string | null>(null);
+  const serializedRef = useRef(serialized);
+  const onRestoreRef = useRef(onRestore);
+  // Snapshot currently stored under `key` (null: none), so unchanged inputs are not rewritten
+  // and "last edited" only moves on real edits.
+  const storedRef = useRef<string | null>(null);
+
+  // Declared before the load effect so it compares against this render's inputs.
+  useEffect(() => {
+    serializedRef.current = serialized;
+    onRestoreRef.current = onRestore;
+  });
+
+  useEffect(() => {
+    setPending(null);
+    setSavedAt(null);
+    setResolvedKey(null);
+    storedRef.current = null;
+    if (!ready) return;
+    let cancelled = false;
+    loadFormDraft<T>(scope).then(
+      (draft) => {
+        if (cancelled) return;
+        storedRef.current = draft ? JSON.stringify(draft.data) : null;
+        if (draft && storedRef.current !== serializedRef.current) {
+          setPending(draft);
+          return;
+        }
+        setSavedAt(draft?.updatedAt ?? null);
+        setResolvedKey(key);
+      },
+      (err: unknown) => {
+        if (cancelled) return;
+        // Without storage the form still works; it just is not autosaved.
+        setError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [key, scope, ready]);
+
+  useEffect(() => {
+    if (!ready || resolvedKey !== key) return;
+    if (empty ? storedRef.current === null : storedRef.current === serialized) return;
+    const timer = setTimeout(() => {
+      storedRef.current = empty ? null : serialized;
+      const write = empty
+        ? deleteFormDraft(key).then(() => null)
+        : saveFormDraft(scope, label, JSON.parse(serialized) as T).then((draft) => draft.updatedAt);
+      write.then(
+        (updatedAt) => {
+          setSavedAt(updatedAt);
+          setError(null);
+        },
+        (err: unknown) => setError(err instanceof Error ? err.message : String(err)),
+      );
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [serialized, empty, label, key, scope, ready, resolvedKey]);
+
+  const restore = useCallback(() => {
+    if (!pending) return;
+    onRestoreRef.current(pending.data);
+    storedRef.current = JSON.stringify(pending.data);
+    setSavedAt(pending.updatedAt);
+    setPending(null);
+    setResolvedKey(key);
+  }, [pending, key]);
+
+  const discard = useCallback(() => {
+    setPending(null);
+    setResolvedKey(key);
+    storedRef.current = null;
+    void deleteFormDraft(key).catch(() => undefined);
+  }, [key]);
+
+  return { pending, savedAt, error, restore, discard };
+}
+
+export type FormDraftState = ReturnType<typeof useFormDraft>;
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { deleteFormDraft, listFormDrafts, subscribeFormDrafts, type FormDraft } from "@/lib/phantasmaClient";
+
+import { useActiveNetwork } from "./useActiveNetwork";
+
+// Saved drafts of the wallet on the active network, newest first; follows autosaves live.
+export function useFormDrafts(walletAddress: string | null | undefined) {
+  const network = useActiveNetwork();
+  const [drafts, setDrafts] = useState<FormDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts([]);
+    setError(null);
+    if (!walletAddress) return;
+    let cancelled = false;
+    const reload = () => {
+      listFormDrafts({ wallet: walletAddress, networkId: network.id }).then(
+        (list) => {
+          if (cancelled) return;
+          setDrafts(list);
+          setError(null);
+        },
+        (err: unknown) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        },
+      );
+    };
+    reload();
+    const unsubscribe = subscribeFormDrafts(reload);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [walletAddress, network.id]);
+
+  const removeDraft = useCallback((key: string) => {
+    deleteFormDraft(key).catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  return { drafts, error, removeDraft };
+}
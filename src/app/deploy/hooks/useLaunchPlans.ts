@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { listLaunchPlans, removeLaunchPlan, subscribeLaunchPlans, type LaunchPlan } from "@/lib/phantasmaClient";
+
+import { useActiveNetwork } from "./useActiveNetwork";
+
+// Launch plans of the connected wallet on the current network, newest first.
+export function useLaunchPlans(walletAddress: string | null) {
+  const [plans, setPlans] = useState<LaunchPlan[]>([]);
+  const network = useActiveNetwork();
+
+  const refresh = useCallback(() => {
+    setPlans(walletAddress ? listLaunchPlans({ wallet: walletAddress, networkId: network.id }) : []);
+  }, [walletAddress, network.id]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeLaunchPlans(refresh);
+  }, [refresh]);
+
+  const removePlan = useCallback((planId: string) => removeLaunchPlan(planId), []);
+
+  return { plans, removePlan };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from "react";
+
+import { subscribeQuery } from "@/lib/phantasmaClient";
+
+// Calls `onRefresh` when cached queries under `prefix` are invalidated (e.g. a confirmed mint)
+// or refreshed in the background. Re-reading through the query functions is then enough.
+export function useQueryRefresh(prefix: string | null, onRefresh: () => void) {
+  const callbackRef = useRef(onRefresh);
+
+  useEffect(() => {
+    callbackRef.current = onRefresh;
+  });
+
+  useEffect(() => {
+    if (!prefix) return;
+    return subscribeQuery(prefix, () => callbackRef.current());
+  }, [prefix]);
+}
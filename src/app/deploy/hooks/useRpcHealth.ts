@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+
+import {
+  checkNetworkHealth,
+  getRpcHealthSnapshot,
+  getServingEndpoint,
+  networkEndpoints,
+  startRpcHealthMonitor,
+  subscribeRpcHealth,
+  type NetworkProfile,
+  type RpcEndpointHealth,
+} from "@/lib/phantasmaClient";
+
+// Monitors the endpoints of `network` while mounted; mount it once per page.
+export function useRpcHealth(network: NetworkProfile) {
+  const snapshot = useSyncExternalStore(subscribeRpcHealth, getRpcHealthSnapshot, getRpcHealthSnapshot);
+
+  useEffect(() => startRpcHealthMonitor(network), [network]);
+
+  const endpoints: RpcEndpointHealth[] = networkEndpoints(network).map(
+    (url) =>
+      snapshot.endpoints[url] ?? { url, status: "unknown", latencyMs: null, blockHeight: null, checkedAt: null },
+  );
+  const serving = getServingEndpoint(network);
+
+  const checkNow = useCallback(() => {
+    void checkNetworkHealth(network).catch(() => undefined);
+  }, [network]);
+
+  return { endpoints, serving, checkNow };
+}
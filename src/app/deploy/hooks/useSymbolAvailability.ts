@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { checkSymbolAvailability, type SymbolAvailability } from "@/lib/phantasmaClient";
+
+import { useActiveNetwork } from "./useActiveNetwork";
+
+const LOOKUP_DEBOUNCE_MS = 500;
+
+// Debounced availability lookup for the symbol being typed. `symbol` is null while the symbol is
+// empty or fails local validation; nothing is looked up then.
+export function useSymbolAvailability(symbol: string | null, walletAddress: string | null | undefined) {
+  const network = useActiveNetwork();
+  const [result, setResult] = useState<{ symbol: string; availability: SymbolAvailability } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    setResult(null);
+    if (!symbol) {
+      setChecking(false);
+      return;
+    }
+    let cancelled = false;
+    setChecking(true);
+    const timer = setTimeout(() => {
+      void checkSymbolAvailability(symbol, walletAddress).then((availability) => {
+        if (cancelled) return;
+        setResult({ symbol, availability });
+        setChecking(false);
+      });
+    }, LOOKUP_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [symbol, walletAddress, network.id, reloadToken]);
+
+  const refresh = useCallback(() => setReloadToken((prev) => prev + 1), []);
+
+  const availability = result && result.symbol === symbol ? result.availability : null;
+  return {
+    symbol,
+    networkLabel: network.label,
+    availability,
+    checking,
+    taken: availability?.status === "taken",
+    refresh,
+  };
+}
+
+export type SymbolAvailabilityState = ReturnType<typeof useSymbolAvailability>;
@@ -2,7 +2,7 @@ import { useCallback, useState } from "react";
 import { toast } from "sonner";
 import type { Token } from "phantasma-sdk-ts";
 
-import { getTokens } from "@/lib/phantasmaClient";
+import { getActiveNetwork, queryAccountTokens, type QueryOptions } from "@/lib/phantasmaClient";
 
 import type { AddLogFn } from "../types";
 
@@ -25,18 +25,19 @@ export function useTokenInventory(addLog: AddLogFn, pageSize = 10) {
   }, [resetPagination]);
 
   const loadTokens = useCallback(
-    async (ownerAddress: string) => {
-      addLog("[fetch] loadTokens started", { ownerAddress });
+    // Pass `{ force: true }` to bypass the query cache (manual refresh).
+    async (ownerAddress: string, options?: QueryOptions) => {
+      addLog("[fetch] loadTokens started", { ownerAddress, force: !!options?.force });
       setLoadingTokens(true);
 
       try {
         addLog("[rpc] Calling getTokens API", {
           ownerAddress,
-          api_url: process.env.NEXT_PUBLIC_API_URL,
-          nexus: process.env.NEXT_PUBLIC_PHANTASMA_NEXUS,
+          api_url: getActiveNetwork().rpcUrl,
+          nexus: getActiveNetwork().nexus,
         });
 
-        const list = await getTokens(ownerAddress);
+        const list = await queryAccountTokens(ownerAddress, options);
 
         addLog("[rpc] getTokens response received", {
           response_type: typeof list,
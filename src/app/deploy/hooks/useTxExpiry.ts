@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import {
+  CLOCK_SKEW_WARN_MS,
+  DEFAULT_TX_EXPIRY_PRESET,
+  TX_EXPIRY_PRESETS,
+  computeTxExpiry,
+  fetchChainClockLeadMs,
+  getActiveNetwork,
+  parseCustomExpiryMinutes,
+  type TxExpiryPresetId,
+} from "@/lib/phantasmaClient";
+
+const DEFAULT_CUSTOM_MINUTES = "30";
+
+// One lookup per network and page load is enough: clock drift does not change between submissions.
+let clockLeadRequest: { networkId: string; lead: Promise<number> } | null = null;
+
+function loadClockLead(): Promise<number> {
+  const networkId = getActiveNetwork().id;
+  if (clockLeadRequest?.networkId !== networkId) {
+    const lead = fetchChainClockLeadMs().catch(() => {
+      if (clockLeadRequest?.lead === lead) clockLeadRequest = null;
+      return 0;
+    });
+    clockLeadRequest = { networkId, lead };
+  }
+  return clockLeadRequest.lead;
+}
+
+// Expiry window selection shared by every transaction form. `resolveExpiry` stamps the
+// absolute expiry at call time, so call it when the tx is built, not when the form renders.
+export function useTxExpiry() {
+  const [preset, setPreset] = useState<TxExpiryPresetId>(DEFAULT_TX_EXPIRY_PRESET);
+  const [customMinutes, setCustomMinutes] = useState(DEFAULT_CUSTOM_MINUTES);
+  const [clockLeadMs, setClockLeadMs] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadClockLead().then((lead) => {
+      if (!cancelled) setClockLeadMs(lead);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const windowResult = useMemo(() => {
+    if (preset === "custom") {
+      return parseCustomExpiryMinutes(customMinutes);
+    }
+    const match = TX_EXPIRY_PRESETS.find((item) => item.id === preset);
+    return { ok: true as const, windowMs: match?.windowMs ?? TX_EXPIRY_PRESETS[0].windowMs };
+  }, [preset, customMinutes]);
+
+  const windowMs = windowResult.ok ? windowResult.windowMs : null;
+  const error = windowResult.ok ? null : windowResult.error;
+
+  const resolveExpiry = useCallback(
+    (): bigint | null => (windowMs === null ? null : computeTxExpiry(windowMs, clockLeadMs)),
+    [windowMs, clockLeadMs],
+  );
+
+  const skewWarning =
+    clockLeadMs > CLOCK_SKEW_WARN_MS
+      ? `Your clock is about ${Math.round(clockLeadMs / 1000)}s behind the chain; expiry is extended to compensate.`
+      : null;
+
+  const reset = useCallback(() => {
+    setPreset(DEFAULT_TX_EXPIRY_PRESET);
+    setCustomMinutes(DEFAULT_CUSTOM_MINUTES);
+  }, []);
+
+  return {
+    preset,
+    setPreset,
+    customMinutes,
+    setCustomMinutes,
+    windowMs,
+    error,
+    skewWarning,
+    resolveExpiry,
+    reset,
+  };
+}
+
+export type TxExpiryState = ReturnType<typeof useTxExpiry>;
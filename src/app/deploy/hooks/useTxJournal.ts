@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  clearTxJournal,
+  listTxJournal,
+  recheckJournalTransaction,
+  removeTxJournalEntry,
+  resumePendingTransactions,
+  subscribeTxJournal,
+  type TxJournalEntry,
+} from "@/lib/phantasmaClient";
+
+import type { AddLogFn } from "../types";
+import { useActiveNetwork } from "./useActiveNetwork";
+
+// Journal entries of the connected wallet on the current network. Pending entries left over
+// from a previous session are re-polled on mount and after a network switch.
+export function useTxJournal(walletAddress: string | null, addLog: AddLogFn) {
+  const [entries, setEntries] = useState<TxJournalEntry[]>([]);
+  const { nexus } = useActiveNetwork();
+
+  const refresh = useCallback(() => {
+    setEntries(walletAddress ? listTxJournal({ wallet: walletAddress, nexus }) : []);
+  }, [walletAddress, nexus]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeTxJournal(refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    void resumePendingTransactions(addLog).catch((err: unknown) => {
+      addLog("[error] Failed to resume pending transactions", { error: String(err) });
+    });
+  }, [addLog, nexus]);
+
+  const recheckEntry = useCallback(
+    (txHash: string) => {
+      void recheckJournalTransaction(txHash, addLog).catch((err: unknown) => {
+        addLog("[error] Failed to re-check transaction", { txHash, error: String(err) });
+      });
+    },
+    [addLog],
+  );
+
+  const removeEntry = useCallback((txHash: string) => removeTxJournalEntry(txHash), []);
+
+  const clearEntries = useCallback(() => {
+    if (!walletAddress) return;
+    clearTxJournal({ wallet: walletAddress, nexus });
+  }, [walletAddress, nexus]);
+
+  return { entries, recheckEntry, removeEntry, clearEntries, nexus };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type {
+  TxLifecycleEvent,
+  TxPipelineOptions,
+  TxPreview,
+  UnconfirmedDecision,
+} from "@/lib/phantasmaClient";
+
+// Tracks the latest lifecycle event of the transaction a tab is currently submitting.
+// tokenSymbol labels the submitted transaction in the journal.
+export function useTxLifecycle(tokenSymbol?: string) {
+  const [event, setEvent] = useState<TxLifecycleEvent | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const decisionRef = useRef<((decision: UnconfirmedDecision) => void) | null>(null);
+  const [review, setReview] = useState<TxPreview | null>(null);
+  const reviewRef = useRef<((approved: boolean) => void) | null>(null);
+
+  const decide = useCallback((decision: UnconfirmedDecision) => {
+    const resolve = decisionRef.current;
+    decisionRef.current = null;
+    resolve?.(decision);
+  }, []);
+
+  const resolveReview = useCallback((approved: boolean) => {
+    const resolve = reviewRef.current;
+    reviewRef.current = null;
+    setReview(null);
+    resolve?.(approved);
+  }, []);
+
+  // Fresh pipeline options for one submission; call it right before invoking the action.
+  const begin = useCallback((): TxPipelineOptions => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setEvent(null);
+    setWarning(null);
+    return {
+      tokenSymbol,
+      signal: controller.signal,
+      onEvent: (next) => setEvent(next),
+      onWarning: (message) => setWarning(message),
+      reviewTx: (preview) =>
+        new Promise<boolean>((resolve) => {
+          reviewRef.current = resolve;
+          setReview(preview);
+        }),
+      onUnconfirmed: () =>
+        new Promise<UnconfirmedDecision>((resolve) => {
+          decisionRef.current = resolve;
+        }),
+    };
+  }, [tokenSymbol]);
+
+  const stopWaiting = useCallback(() => {
+    controllerRef.current?.abort();
+    decide("check_later");
+  }, [decide]);
+
+  useEffect(() => {
+    // Polling keeps running after unmount (the journal records the outcome), but an open
+    // "keep waiting?" question has nobody left to answer it.
+    return () => {
+      decide("check_later");
+      reviewRef.current?.(false);
+    };
+  }, [decide]);
+
+  const reset = useCallback(() => {
+    setEvent(null);
+    setWarning(null);
+  }, []);
+
+  return { event, warning, begin, decide, stopWaiting, reset, review, resolveReview };
+}
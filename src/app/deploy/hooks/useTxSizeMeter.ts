@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+
+import { measureTxMsg, type TxBuildResult, type TxSizeReport } from "@/lib/phantasmaClient";
+
+type TxSizeBuilder = () => TxBuildResult<object> | Promise<TxBuildResult<object>> | null;
+
+const MEASURE_DEBOUNCE_MS = 300;
+
+// Re-measures whenever `buildTx` changes identity, so callers should wrap it in useCallback
+// with the form values as dependencies. A null build means the form is not ready to measure.
+export function useTxSizeMeter(buildTx: TxSizeBuilder) {
+  const [report, setReport] = useState<TxSizeReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const built = await buildTx();
+        if (cancelled) return;
+        if (!built) {
+          setReport(null);
+          setError(null);
+          return;
+        }
+        if (!built.success) {
+          setReport(null);
+          setError(built.error);
+          return;
+        }
+        setReport(measureTxMsg(built.txMsg));
+        setError(null);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setReport(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    }, MEASURE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [buildTx]);
+
+  return { report, error, overLimit: report ? !report.withinLimit : false };
+}
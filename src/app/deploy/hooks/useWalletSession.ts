@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+
+import type { AddLogFn } from "../types";
+import { useActiveNetwork } from "./useActiveNetwork";
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+// Key of the wallet session (network + connected account). Tabs are keyed by it, so switching
+// accounts in Link drops wallet-scoped state (loaded carbon ids, owned NFTs, the infusion queue,
+// half-filled forms) instead of acting on it with another key. A tx already waiting for review is
+// cancelled by the remount; one already in the wallet is caught by the pipeline's session check.
+export function useWalletSession(walletAddress: string | null, addLog: AddLogFn): string {
+  const network = useActiveNetwork();
+  const previousRef = useRef({ address: walletAddress, networkId: network.id });
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { address: walletAddress, networkId: network.id };
+    if (previous.address === walletAddress || !previous.address) return;
+    addLog("[wallet] Connected account changed, resetting wallet-scoped state", {
+      from: previous.address,
+      to: walletAddress,
+      network: network.label,
+    });
+    // A network switch brings its own notice (and the sandbox its own wallet).
+    if (previous.networkId !== network.id) return;
+    if (walletAddress) {
+      toast.warning(
+        `Wallet account changed from ${shortAddress(previous.address)} to ${shortAddress(walletAddress)}. Forms and loaded NFTs were reset.`,
+      );
+    } else {
+      toast.warning("Wallet disconnected. Forms and loaded NFTs were reset.");
+    }
+  }, [walletAddress, network.id, network.label, addLog]);
+
+  return `${network.id}:${walletAddress ?? ""}`;
+}
@@ -1,28 +1,55 @@
 "use client";
 
-import { useCallback, useContext, useEffect, useState } from "react";
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import { PhaAccountWidgetV1, PhaConnectCtx } from "@phantasma/connect-react";
+import Link from "next/link";
 import { observer } from "mobx-react-lite";
 import type { Token } from "phantasma-sdk-ts";
 
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { DebugLogger } from "@/components/DebugLogger";
+import { Button } from "@/components/ui/button";
+import { getDevSignerConnection, getSandboxConnection, isMainnetProfile, isSandboxProfile } from "@/lib/phantasmaClient";
 
+import { DevSignerControl } from "./components/DevSignerControl";
+import { NetworkBadge, NetworkSelector } from "./components/NetworkSelector";
+import { RpcStatusIndicator } from "./components/RpcStatusIndicator";
 import { TokenListPanel } from "./components/TokenListPanel";
 import { TokenActionsTabs } from "./components/TokenActionsTabs";
+import { TxHistoryPanel } from "./components/TxHistoryPanel";
+import { FormDraftsPanel } from "./components/FormDraftsPanel";
+import { WatchAddressBar } from "./components/WatchAddressBar";
+import { useActiveNetwork } from "./hooks/useActiveNetwork";
+import { useDevSigner } from "./hooks/useDevSigner";
 import { useTokenInventory } from "./hooks/useTokenInventory";
+import { useTxJournal } from "./hooks/useTxJournal";
+import { useFormDrafts } from "./hooks/useFormDrafts";
+import { useWalletSession } from "./hooks/useWalletSession";
 import type { TokenActionTab } from "./types";
 import { getTokenPrimary, isTokenNFT } from "./utils/tokenHelpers";
 
 const PAGE_SIZE = 10;
 
+// The sandbox network comes with its own always-connected wallet in place of Link.
+const SANDBOX_PHA_CTX = { is_connected: true, conn: getSandboxConnection() };
+
 const DeployPage = observer(() => {
-  const phaCtx = useContext(PhaConnectCtx);
+  const linkCtx = useContext(PhaConnectCtx);
+  const network = useActiveNetwork();
+  const sandbox = isSandboxProfile(network);
+  // A loaded dev signer replaces Link; the signer drops its key itself when mainnet is selected.
+  const devSignerAddress = useDevSigner();
+  const devSignerCtx = useMemo(
+    () => (devSignerAddress ? { is_connected: true, conn: getDevSignerConnection() } : null),
+    [devSignerAddress],
+  );
+  const phaCtx = sandbox ? SANDBOX_PHA_CTX : (devSignerCtx ?? linkCtx);
 
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<TokenActionTab>("deploy");
   const [selectedTokenKey, setSelectedTokenKey] = useState<string | null>(null);
   const [selectedToken, setSelectedToken] = useState<Token | null>(null);
+  const [watchAddress, setWatchAddress] = useState<string | null>(null);
 
   const addLog = useCallback((message: string, data?: any) => {
     const timestamp = new Date().toISOString();
@@ -46,6 +73,12 @@ const DeployPage = observer(() => {
   } = useTokenInventory(addLog, PAGE_SIZE);
 
   const walletAddress = phaCtx?.conn?.link?.account?.address ?? null;
+  // Account whose inventory is shown: a watched address replaces the wallet's (read-only).
+  const inventoryAddress = watchAddress ?? walletAddress;
+  const txJournal = useTxJournal(walletAddress, addLog);
+  const formDrafts = useFormDrafts(walletAddress);
+  const walletSessionKey = useWalletSession(walletAddress, addLog);
+  const networkIdRef = useRef(network.id);
   const isTokenSelectable = useCallback(
     (token: Token) => {
       if (activeTab === "series" || activeTab === "infuse") {
@@ -63,6 +96,7 @@ const DeployPage = observer(() => {
       link_exists: !!phaCtx?.conn?.link,
       account_exists: !!phaCtx?.conn?.link?.account,
       address: walletAddress,
+      watchAddress,
       full_phaCtx: {
         ...phaCtx,
         conn: phaCtx?.conn
@@ -83,18 +117,40 @@ const DeployPage = observer(() => {
       },
     });
 
-    if (!walletAddress) {
+    clearTokens();
+    setSelectedToken(null);
+    setSelectedTokenKey(null);
+    if (!inventoryAddress) {
       addLog("[error] No wallet address found, clearing tokens");
-      clearTokens();
-      setSelectedToken(null);
-      setSelectedTokenKey(null);
       return;
     }
 
-    addLog("[success] Wallet address found, loading tokens", { address: walletAddress });
-    void loadTokens(walletAddress).catch(() => undefined);
+    if (watchAddress) {
+      addLog("[watch] Loading tokens of watched address", { address: watchAddress });
+    } else {
+      addLog("[success] Wallet address found, loading tokens", { address: walletAddress });
+    }
+    void loadTokens(inventoryAddress).catch(() => undefined);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [phaCtx?.is_connected, walletAddress]);
+  }, [phaCtx?.is_connected, inventoryAddress]);
+
+  // Tokens loaded from the previous network must not leak into actions on the new one.
+  useEffect(() => {
+    if (networkIdRef.current === network.id) return;
+    networkIdRef.current = network.id;
+    addLog("[network] Active network changed, clearing cached tokens", {
+      network: network.label,
+      rpcUrl: network.rpcUrl,
+      nexus: network.nexus,
+    });
+    clearTokens();
+    setSelectedToken(null);
+    setSelectedTokenKey(null);
+    if (inventoryAddress) {
+      void loadTokens(inventoryAddress).catch(() => undefined);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [network.id]);
 
   const handlePrevPage = useCallback(() => {
     setCurrentPage((prev) => Math.max(1, prev - 1));
@@ -106,10 +162,23 @@ const DeployPage = observer(() => {
   }, [setCurrentPage, tokens.length]);
 
   const handleRefreshTokens = useCallback(() => {
-    if (!walletAddress) return;
-    addLog("[action] Refresh button clicked", { address: walletAddress });
-    void loadTokens(walletAddress).catch(() => undefined);
-  }, [walletAddress, addLog, loadTokens]);
+    if (!inventoryAddress) return;
+    addLog("[action] Refresh button clicked", { address: inventoryAddress });
+    void loadTokens(inventoryAddress, { force: true }).catch(() => undefined);
+  }, [inventoryAddress, addLog, loadTokens]);
+
+  const handleWatch = useCallback(
+    (address: string) => {
+      addLog("[watch] Watching address (read-only)", { address });
+      setWatchAddress(address);
+    },
+    [addLog],
+  );
+
+  const handleStopWatching = useCallback(() => {
+    addLog("[watch] Stopped watching, back to the wallet", { address: walletAddress });
+    setWatchAddress(null);
+  }, [addLog, walletAddress]);
 
   const handleSelectToken = useCallback(
     (token: Token, key: string) => {
@@ -211,6 +280,23 @@ const DeployPage = observer(() => {
     [addLog],
   );
 
+  const handleOpenDraft = useCallback(
+    (tab: TokenActionTab, tokenSymbol: string | null) => {
+      setActiveTab(tab);
+      if (tokenSymbol) {
+        const match = tokens.find((token) => token?.symbol === tokenSymbol);
+        if (match) {
+          setSelectedToken(match);
+          setSelectedTokenKey(getTokenPrimary(match, tokenSymbol));
+        } else {
+          addLog("[warn] Draft token is not in the loaded token list", { symbol: tokenSymbol, tab });
+        }
+      }
+      addLog("[nav] Opened saved draft", { tab, symbol: tokenSymbol });
+    },
+    [tokens, addLog],
+  );
+
   const refreshTokens = useCallback(
     async (address: string) => {
       await loadTokens(address);
@@ -226,9 +312,33 @@ const DeployPage = observer(() => {
           <p className="text-muted-foreground">
             Deploy new Carbon tokens on Phantasma blockchain
           </p>
+          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>Transactions target</span>
+            <NetworkBadge network={network} />
+            <RpcStatusIndicator network={network} />
+          </div>
+          <div className="mt-3">
+            <WatchAddressBar watchAddress={watchAddress} onWatch={handleWatch} onStop={handleStopWatching} />
+          </div>
         </div>
         <div className="flex items-center gap-2">
-          <PhaAccountWidgetV1 state={phaCtx} />
+          <NetworkSelector />
+          <Button asChild variant="outline" size="sm">
+            <Link href="/tx">Inspect tx</Link>
+          </Button>
+          {sandbox ? (
+            <span
+              className="rounded-md border border-dashed px-3 py-1.5 font-mono text-xs"
+              title={`Sandbox wallet ${walletAddress}`}
+            >
+              Sandbox wallet {walletAddress?.slice(0, 6)}…{walletAddress?.slice(-4)}
+            </span>
+          ) : (
+            <>
+              {!isMainnetProfile(network) && <DevSignerControl />}
+              {!devSignerAddress && <PhaAccountWidgetV1 state={linkCtx} />}
+            </>
+          )}
           <ThemeToggle />
         </div>
       </div>
@@ -244,7 +354,8 @@ const DeployPage = observer(() => {
           onToggleExpanded={toggleExpanded}
           expandedTokens={expandedTokens}
           onRefresh={handleRefreshTokens}
-          hasWalletAddress={!!walletAddress}
+          hasWalletAddress={!!inventoryAddress}
+          watchAddress={watchAddress}
           canSelectToken={activeTab !== "deploy"}
           selectedTokenKey={activeTab === "deploy" ? null : selectedTokenKey}
           onSelectToken={handleSelectToken}
@@ -258,6 +369,7 @@ const DeployPage = observer(() => {
           }
         />
         <TokenActionsTabs
+          key={walletSessionKey}
           activeTab={activeTab}
           onTabChange={handleTabChange}
           phaCtx={phaCtx}
@@ -265,9 +377,28 @@ const DeployPage = observer(() => {
           onRefreshTokens={refreshTokens}
           expandToken={expandToken}
           selectedToken={activeTab === "deploy" ? null : selectedToken}
+          watchAddress={watchAddress}
         />
       </div>
 
+      <FormDraftsPanel
+        drafts={formDrafts.drafts}
+        error={formDrafts.error}
+        networkLabel={network.label}
+        hasWalletAddress={!!walletAddress}
+        onOpenDraft={handleOpenDraft}
+        onRemoveDraft={formDrafts.removeDraft}
+      />
+
+      <TxHistoryPanel
+        entries={txJournal.entries}
+        nexus={txJournal.nexus}
+        hasWalletAddress={!!walletAddress}
+        onRecheckEntry={txJournal.recheckEntry}
+        onRemoveEntry={txJournal.removeEntry}
+        onClear={txJournal.clearEntries}
+      />
+
       <DebugLogger heading="Detailed Debug Logs" logs={debugLogs} clearLogs={clearLogs} />
     </div>
   );
@@ -0,0 +1,10 @@
+import { Address } from "phantasma-sdk-ts";
+
+export function isValidAddress(address: string): boolean {
+  try {
+    Address.FromText(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,10 @@
+export function downloadTextFile(fileName: string, content: string, mimeType = "text/plain") {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  // Revoke on the next tick so the browser has picked the URL up.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
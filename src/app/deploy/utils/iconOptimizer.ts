@@ -0,0 +1,142 @@
+// In-browser icon pipeline: crop to a square, then downscale and re-encode until the base64
+// payload fits the budget. Larger dimensions win over higher quality; WebP is tried before PNG.
+
+export type IconCrop = {
+  // Square crop in source pixels.
+  x: number;
+  y: number;
+  size: number;
+};
+
+export type IconSource = {
+  image: HTMLImageElement;
+  width: number;
+  height: number;
+  // Object URL backing `image`; release it with URL.revokeObjectURL when done.
+  url: string;
+};
+
+export type OptimizedIcon = {
+  dataUri: string;
+  mimeType: string;
+  dimension: number;
+  // null for lossless PNG.
+  quality: number | null;
+  payloadChars: number;
+  approxBytes: number;
+};
+
+export type IconOptimizeResult = { success: true; icon: OptimizedIcon } | { success: false; error: string };
+
+export const ICON_SOURCE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"];
+
+const ICON_DIMENSIONS = [512, 384, 256, 192, 128, 96, 64, 48, 32];
+const WEBP_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.55, 0.45, 0.35];
+// SVGs without width/height attributes report no intrinsic size.
+const FALLBACK_SVG_SIZE = 512;
+
+export function dataUriPayloadChars(dataUri: string): number {
+  const comma = dataUri.indexOf(",");
+  return comma < 0 ? 0 : dataUri.length - comma - 1;
+}
+
+function approxBytesFromPayload(payloadChars: number, dataUri: string): number {
+  const padding = dataUri.endsWith("==") ? 2 : dataUri.endsWith("=") ? 1 : 0;
+  return Math.floor((payloadChars / 4) * 3) - padding;
+}
+
+export function loadIconSource(file: File): Promise<IconSource> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const width = image.naturalWidth || FALLBACK_SVG_SIZE;
+      const height = image.naturalHeight || FALLBACK_SVG_SIZE;
+      resolve({ image, width, height, url });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode ${file.name} as an image`));
+    };
+    image.src = url;
+  });
+}
+
+export function readFileAsDataUri(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === "string") resolve(reader.result);
+      else reject(new Error("Failed to read icon file"));
+    };
+    reader.onerror = () => reject(new Error("Failed to read icon file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Largest centred square, optionally zoomed in (zoom 1 = full short side) and panned.
+// `panX`/`panY` run from 0 (left/top) to 1 (right/bottom).
+export function computeSquareCrop(width: number, height: number, zoom = 1, panX = 0.5, panY = 0.5): IconCrop {
+  const size = Math.max(1, Math.round(Math.min(width, height) / Math.max(1, zoom)));
+  return {
+    x: Math.round((width - size) * Math.min(1, Math.max(0, panX))),
+    y: Math.round((height - size) * Math.min(1, Math.max(0, panY))),
+    size,
+  };
+}
+
+function supportsWebpEncoding(canvas: HTMLCanvasElement): boolean {
+  // Browsers without a WebP encoder silently fall back to PNG.
+  return canvas.toDataURL("image/webp", 0.5).startsWith("data:image/webp");
+}
+
+function encode(dataUri: string, mimeType: string, dimension: number, quality: number | null): OptimizedIcon {
+  const payloadChars = dataUriPayloadChars(dataUri);
+  return { dataUri, mimeType, dimension, quality, payloadChars, approxBytes: approxBytesFromPayload(payloadChars, dataUri) };
+}
+
+export function optimizeIcon(source: IconSource, crop: IconCrop, maxPayloadChars: number): IconOptimizeResult {
+  if (maxPayloadChars <= 0) {
+    return { success: false, error: "No room left for an icon; reduce the other metadata first" };
+  }
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return { success: false, error: "This browser cannot re-encode images (no 2D canvas)" };
+  }
+  const webp = supportsWebpEncoding(canvas);
+  // Never upscale past the crop, but always try at least the smallest size.
+  const dimensions = ICON_DIMENSIONS.filter((d) => d <= crop.size);
+  if (dimensions.length === 0) dimensions.push(Math.max(1, crop.size));
+
+  let smallest: OptimizedIcon | null = null;
+  for (const dimension of dimensions) {
+    canvas.width = dimension;
+    canvas.height = dimension;
+    context.clearRect(0, 0, dimension, dimension);
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = "high";
+    context.drawImage(source.image, crop.x, crop.y, crop.size, crop.size, 0, 0, dimension, dimension);
+
+    const candidates: Array<() => OptimizedIcon> = [];
+    if (webp) {
+      WEBP_QUALITIES.forEach((quality) =>
+        candidates.push(() => encode(canvas.toDataURL("image/webp", quality), "image/webp", dimension, quality)),
+      );
+    }
+    candidates.push(() => encode(canvas.toDataURL("image/png"), "image/png", dimension, null));
+
+    for (const candidate of candidates) {
+      const icon = candidate();
+      if (icon.payloadChars <= maxPayloadChars) {
+        return { success: true, icon };
+      }
+      if (!smallest || icon.payloadChars < smallest.payloadChars) smallest = icon;
+    }
+  }
+  const smallestNote = smallest ? ` (smallest attempt: ${smallest.payloadChars.toLocaleString()} chars)` : "";
+  return {
+    success: false,
+    error: `Could not fit the icon into ${maxPayloadChars.toLocaleString()} base64 chars${smallestNote}`,
+  };
+}
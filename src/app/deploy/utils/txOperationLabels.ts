@@ -0,0 +1,10 @@
+import type { TxJournalOperation } from "@/lib/phantasmaClient";
+
+export const TX_OPERATION_LABELS: Record<TxJournalOperation, string> = {
+  deploy: "Deploy token",
+  series: "Create series",
+  mint_nft: "Mint NFT",
+  mint_fungible: "Mint supply",
+  infuse: "Infuse NFTs",
+  broadcast: "Broadcast signed tx",
+};
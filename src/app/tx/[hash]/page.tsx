@@ -0,0 +1,20 @@
+"use client";
+
+import { useParams } from "next/navigation";
+
+import { TxHashForm } from "../components/TxHashForm";
+import { TxInspector } from "../components/TxInspector";
+import { TxPageHeader } from "../components/TxPageHeader";
+
+export default function TxInspectPage() {
+  const params = useParams<{ hash: string }>();
+  const hash = decodeURIComponent(params?.hash ?? "");
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 sm:p-6 space-y-6">
+      <TxPageHeader />
+      <TxHashForm key={hash} initialHash={hash} />
+      <TxInspector hash={hash} />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+type TxHashFormProps = {
+  initialHash?: string;
+};
+
+export function TxHashForm({ initialHash = "" }: TxHashFormProps) {
+  const router = useRouter();
+  const [hash, setHash] = useState(initialHash);
+  const trimmed = hash.trim();
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (trimmed) router.push(`/tx/${encodeURIComponent(trimmed)}`);
+      }}
+    >
+      <input
+        className="min-w-0 flex-1 rounded border px-3 py-2 font-mono text-sm"
+        placeholder="Transaction hash"
+        value={hash}
+        onChange={(e) => setHash(e.target.value)}
+        spellCheck={false}
+      />
+      <Button type="submit" disabled={!trimmed}>
+        <Search className="mr-2 h-4 w-4" /> Inspect
+      </Button>
+    </form>
+  );
+}
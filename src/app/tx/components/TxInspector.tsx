@@ -0,0 +1,280 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  classifyTxError,
+  type TxDecodedResult,
+  type TxInspection,
+} from "@/lib/phantasmaClient";
+
+import { ExplorerLink } from "@/app/deploy/components/ExplorerLink";
+import { TxPreviewSections } from "@/app/deploy/components/TxReviewDialog";
+import { formatKcalAmount } from "@/app/deploy/utils/feeFormatting";
+import { truncateMiddle } from "@/app/deploy/utils/nftHelpers";
+import { TX_OPERATION_LABELS } from "@/app/deploy/utils/txOperationLabels";
+
+import { useTxInspection } from "../hooks/useTxInspection";
+
+type TxInspectorProps = {
+  hash: string;
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="contents">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="break-all">{children}</dd>
+    </div>
+  );
+}
+
+function formatKcal(raw: string | undefined): string {
+  if (!raw) return "—";
+  try {
+    return formatKcalAmount(BigInt(raw));
+  } catch {
+    return raw;
+  }
+}
+
+function formatUnixSeconds(value: number | undefined): string {
+  if (!value) return "—";
+  return new Date(value * 1000).toLocaleString();
+}
+
+function StateBadge({ state }: { state: string }) {
+  if (state === "Halt") {
+    return (
+      <span className="flex items-center gap-1 text-emerald-600">
+        <CheckCircle2 className="h-4 w-4" /> {state}
+      </span>
+    );
+  }
+  if (state === "Fault" || state === "Break") {
+    return (
+      <span className="flex items-center gap-1 text-destructive">
+        <XCircle className="h-4 w-4" /> {state}
+      </span>
+    );
+  }
+  return <span className="text-amber-500">{state || "Unknown"}</span>;
+}
+
+function DecodedResult({ result }: { result: TxDecodedResult }) {
+  switch (result.kind) {
+    case "deploy":
+      return (
+        <Field label="Carbon token id">
+          <span className="font-mono">{result.carbonTokenId}</span>
+        </Field>
+      );
+    case "series":
+      return (
+        <Field label="Carbon series id">
+          <span className="font-mono">{result.carbonSeriesId}</span>
+        </Field>
+      );
+    case "mint_nft":
+      return (
+        <>
+          <Field label="Carbon token id">
+            <span className="font-mono">{result.carbonTokenId}</span>
+          </Field>
+          <Field label={`Minted instances (${result.instances.length})`}>
+            <div className="space-y-1 font-mono">
+              {result.instances.map((instance, index) => (
+                <div key={`${instance}-${index}`}>{instance}</div>
+              ))}
+            </div>
+          </Field>
+        </>
+      );
+  }
+}
+
+function InspectionDetails({ inspection }: { inspection: TxInspection }) {
+  const { tx, operation, preview, decodedResult, resultError, tokens, series, nfts } = inspection;
+  const hasAffected = tokens.length > 0 || series.length > 0 || nfts.length > 0;
+  const debugHint = tx.debugComment ? classifyTxError(tx.debugComment).hint : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+            <span>{TX_OPERATION_LABELS[operation] ?? operation}</span>
+            <StateBadge state={tx.state} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-1 text-sm sm:grid-cols-[max-content_1fr]">
+            <Field label="Hash">
+              <ExplorerLink kind="tx" value={tx.hash} className="whitespace-normal break-all" />
+            </Field>
+            <Field label="Block">
+              {tx.blockHeight} · {formatUnixSeconds(tx.timestamp)}
+            </Field>
+            <Field label="Sender">
+              {tx.sender ? <ExplorerLink kind="address" value={tx.sender} /> : "—"}
+            </Field>
+            <Field label="Gas payer">
+              {tx.gasPayer ? <ExplorerLink kind="address" value={tx.gasPayer} /> : "—"}
+            </Field>
+            <Field label="Fee">{formatKcal(tx.fee)}</Field>
+            <Field label="Gas limit / price">
+              <span className="font-mono">
+                {tx.gasLimit || "—"} / {tx.gasPrice || "—"}
+              </span>
+            </Field>
+            <Field label="Debug comment">
+              {tx.debugComment ? (
+                <>
+                  <span className="font-mono text-destructive">{tx.debugComment}</span>
+                  {debugHint && <div className="text-xs text-amber-600">{debugHint}</div>}
+                </>
+              ) : (
+                <span className="text-muted-foreground">(none)</span>
+              )}
+            </Field>
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Result</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-1 text-sm sm:grid-cols-[max-content_1fr]">
+            <Field label="Raw">
+              <span className="font-mono">{tx.result || "(empty)"}</span>
+            </Field>
+            {decodedResult && <DecodedResult result={decodedResult} />}
+          </dl>
+          {resultError && <div className="text-sm text-destructive">{resultError}</div>}
+          {!decodedResult && !resultError && tx.result && (
+            <div className="text-xs text-muted-foreground">No decoder for this transaction type.</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {hasAffected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Affected assets</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {tokens.map((token) => (
+              <div key={`token-${token.symbol}`}>
+                Token{" "}
+                <ExplorerLink kind="token" value={token.symbol} />{" "}
+                <span className="text-muted-foreground">
+                  ({token.isNonFungible ? "NFT" : "fungible"}, carbon id {token.carbonTokenId})
+                </span>
+              </div>
+            ))}
+            {series.map((item) => (
+              <div key={`series-${item.symbol}-${item.seriesId}`}>
+                Series <span className="font-mono">{truncateMiddle(item.seriesId, 24, 8)}</span> of{" "}
+                <ExplorerLink kind="token" value={item.symbol} />{" "}
+                <span className="text-muted-foreground">
+                  (carbon series {item.carbonSeriesId}, max mint {item.maxMint || "unlimited"})
+                </span>
+              </div>
+            ))}
+            {nfts.map((nft) => (
+              <div key={`nft-${nft.symbol}-${nft.tokenId}`}>
+                NFT{" "}
+                <ExplorerLink kind="nft" value={nft.tokenId} symbol={nft.symbol} label={`${nft.symbol} #${nft.mintNumber}`} />{" "}
+                <span className="text-muted-foreground">
+                  id <span className="font-mono">{truncateMiddle(nft.tokenId, 24, 8)}</span>
+                  {nft.owner && (
+                    <>
+                      {" "}
+                      → <ExplorerLink kind="address" value={nft.owner} maxLength={24} tailLength={8} />
+                    </>
+                  )}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events ({tx.events?.length ?? 0})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-xs">
+          {(tx.events ?? []).length === 0 ? (
+            <div className="text-muted-foreground">No events.</div>
+          ) : (
+            tx.events.map((event, index) => (
+              <div key={`${event.kind}-${index}`} className="rounded-md border p-2">
+                <div className="font-medium">
+                  {event.kind} <span className="text-muted-foreground">@ {event.contract}</span>
+                </div>
+                <div className="font-mono break-all text-muted-foreground">{event.address}</div>
+                {event.data && <div className="font-mono break-all">{event.data}</div>}
+              </div>
+            ))
+          )}
+          {(tx.extendedEvents ?? []).length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-muted-foreground">
+                Extended events ({tx.extendedEvents?.length})
+              </summary>
+              <pre className="mt-2 overflow-x-auto rounded-md border p-2">
+                {JSON.stringify(tx.extendedEvents, null, 2)}
+              </pre>
+            </details>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Decoded message</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TxPreviewSections preview={preview} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export function TxInspector({ hash }: TxInspectorProps) {
+  const { inspection, loading, error, refresh } = useTxInspection(hash);
+
+  if (loading && !inspection) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading transaction…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button type="button" size="sm" variant="outline" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} /> Reload
+        </Button>
+      </div>
+      {error && (
+        <div className="flex items-center gap-2 rounded-md border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+      {inspection && <InspectionDetails inspection={inspection} />}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import Link from "next/link";
+
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Button } from "@/components/ui/button";
+import { NetworkSelector } from "@/app/deploy/components/NetworkSelector";
+import { RpcStatusIndicator } from "@/app/deploy/components/RpcStatusIndicator";
+import { useActiveNetwork } from "@/app/deploy/hooks/useActiveNetwork";
+
+export function TxPageHeader() {
+  const network = useActiveNetwork();
+
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Transaction Inspector</h1>
+        <p className="text-muted-foreground">Look up a transaction and decode its Carbon result</p>
+      </div>
+      <div className="flex items-center gap-2">
+        <RpcStatusIndicator network={network} />
+        <NetworkSelector />
+        <Button asChild variant="outline" size="sm">
+          <Link href="/">Back to deployment</Link>
+        </Button>
+        <ThemeToggle />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { inspectTransaction, type TxInspection } from "@/lib/phantasmaClient";
+import { useActiveNetwork } from "@/app/deploy/hooks/useActiveNetwork";
+
+export function useTxInspection(hash: string) {
+  const [inspection, setInspection] = useState<TxInspection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const { id: networkId } = useActiveNetwork();
+
+  useEffect(() => {
+    if (!hash) {
+      setInspection(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    void inspectTransaction(hash)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setInspection(result.inspection);
+        } else {
+          setInspection(null);
+          setError(result.error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash, reloadToken, networkId]);
+
+  const refresh = useCallback(() => setReloadToken((prev) => prev + 1), []);
+
+  return { inspection, loading, error, refresh };
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { TxHashForm } from "./components/TxHashForm";
+import { TxPageHeader } from "./components/TxPageHeader";
+
+export default function TxLookupPage() {
+  return (
+    <div className="mx-auto max-w-6xl p-4 sm:p-6 space-y-6">
+      <TxPageHeader />
+      <TxHashForm />
+    </div>
+  );
+}
@@ -1,11 +1,82 @@
 import { PhantasmaAPI } from "phantasma-sdk-ts";
 
-const RPC_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5172/rpc";
-const NEXUS = (process.env.NEXT_PUBLIC_PHANTASMA_NEXUS as string) || "testnet";
+import { toMessage } from "./errors";
+import { getActiveNetwork, isSandboxProfile, type NetworkProfile } from "./network";
+import { orderEndpoints, reportEndpointFailure, reportEndpointSuccess } from "./rpcHealth";
+import { createSandboxApi } from "./sandbox";
 
-export function createApi() {
-  return new PhantasmaAPI(RPC_URL, undefined, NEXUS);
+type ApiNetwork = Pick<NetworkProfile, "rpcUrl" | "nexus" | "fallbackRpcUrls">;
+
+// A node that accepts the connection but never answers counts as down after this long.
+const RPC_ATTEMPT_TIMEOUT_MS = 15_000;
+
+// Sent to one endpoint only. If a node took the transaction but its answer was lost, the next
+// node would reject it as a duplicate and a live transaction would be reported as failed.
+const SINGLE_ATTEMPT_METHODS = new Set(["sendRawTransaction", "sendCarbonTransaction"]);
+
+// PhantasmaAPI.JSONRPC with a time limit; node errors still resolve as `{ error }`.
+async function postJsonRpc(url: string, method: string, params: unknown[]): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RPC_ATTEMPT_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      mode: "cors",
+      body: JSON.stringify({ jsonrpc: "2.0", method, params, id: "1" }),
+      headers: { "Content-Type": "application/json" },
+      signal: controller.signal,
+    });
+    const json = (await res.json()) as { result?: unknown; error?: unknown };
+    if (json.error) {
+      const message = (json.error as { message?: unknown }).message;
+      return { error: message ?? json.error };
+    }
+    return json.result;
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`No answer from ${url} within ${RPC_ATTEMPT_TIMEOUT_MS / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
-export { RPC_URL, NEXUS };
+// Sends each call to the preferred endpoint and moves on to the next one when the node cannot
+// be reached or does not answer in time.
+class FailoverPhantasmaAPI extends PhantasmaAPI {
+  constructor(private readonly network: ApiNetwork) {
+    super(network.rpcUrl, undefined, network.nexus);
+  }
 
+  async JSONRPC(method: string, params: unknown[]): Promise<unknown> {
+    const ordered = orderEndpoints(this.network);
+    const endpoints = SINGLE_ATTEMPT_METHODS.has(method) ? ordered.slice(0, 1) : ordered;
+    let lastError: unknown = null;
+    for (const url of endpoints) {
+      this.host = url;
+      const started = Date.now();
+      try {
+        const result = await postJsonRpc(url, method, params);
+        reportEndpointSuccess(this.network, url, Date.now() - started);
+        return result;
+      } catch (err) {
+        lastError = err;
+        reportEndpointFailure(this.network, url, err);
+      }
+    }
+    if (SINGLE_ATTEMPT_METHODS.has(method)) {
+      throw new Error(
+        `${toMessage(lastError)}. The transaction may still have reached the node; check the account's recent transactions before sending it again.`,
+      );
+    }
+    throw lastError;
+  }
+}
+
+// Resolved on every call so a network switch applies to the next request. Pass a profile to
+// stay on a specific network, e.g. while following a tx sent before a switch.
+export function createApi(network: ApiNetwork = getActiveNetwork()): PhantasmaAPI {
+  if (isSandboxProfile(network)) return createSandboxApi();
+  return new FailoverPhantasmaAPI(network);
+}
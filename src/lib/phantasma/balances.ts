@@ -0,0 +1,101 @@
+import { DomainSettings } from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { ensureError, rpcErrorOf } from "./errors";
+
+// Balances that pay for Carbon transactions: maxGas is charged in KCAL (fuel), maxData in SOUL.
+export type FeeBalances = {
+  address: string;
+  kcal: bigint;
+  soul: bigint;
+};
+
+export type FeeRequirement = {
+  maxGas: bigint;
+  maxData: bigint;
+};
+
+export type FeePreflightIssue = {
+  symbol: string;
+  decimals: number;
+  required: bigint;
+  available: bigint;
+};
+
+export type FeePreflightReport = {
+  ok: boolean;
+  issues: FeePreflightIssue[];
+  balances: FeeBalances;
+};
+
+function parseAmount(raw: string | undefined): bigint {
+  if (!raw) return 0n;
+  try {
+    return BigInt(raw);
+  } catch {
+    return 0n;
+  }
+}
+
+export async function getFeeBalances(address: string): Promise<FeeBalances> {
+  if (!address) {
+    throw new Error("address is required");
+  }
+  const api = createApi();
+  let account: unknown;
+  try {
+    account = await api.getAccount(address, true);
+  } catch (error: unknown) {
+    throw ensureError(error);
+  }
+  const rpcError = rpcErrorOf(account);
+  if (rpcError !== null || !account || typeof account !== "object") {
+    throw new Error(`Failed to load account ${address}: ${rpcError ?? "empty response"}`);
+  }
+  const balances = (account as { balances?: { symbol: string; amount: string }[] }).balances ?? [];
+  const amountOf = (symbol: string) => parseAmount(balances.find((b) => b.symbol === symbol)?.amount);
+  return {
+    address,
+    kcal: amountOf(DomainSettings.FuelTokenSymbol),
+    soul: amountOf(DomainSettings.StakingTokenSymbol),
+  };
+}
+
+// Compares balances with the worst case the tx may charge. Actual fees are usually lower,
+// but the node refuses a tx whose limits the payer cannot cover.
+export function evaluateFeePreflight(balances: FeeBalances, fees: FeeRequirement): FeePreflightReport {
+  const issues: FeePreflightIssue[] = [];
+  if (fees.maxGas > balances.kcal) {
+    issues.push({
+      symbol: DomainSettings.FuelTokenSymbol,
+      decimals: DomainSettings.FuelTokenDecimals,
+      required: fees.maxGas,
+      available: balances.kcal,
+    });
+  }
+  if (fees.maxData > balances.soul) {
+    issues.push({
+      symbol: DomainSettings.StakingTokenSymbol,
+      decimals: DomainSettings.StakingTokenDecimals,
+      required: fees.maxData,
+      available: balances.soul,
+    });
+  }
+  return { ok: issues.length === 0, issues, balances };
+}
+
+function formatUnits(value: bigint, decimals: number): string {
+  if (decimals <= 0) return value.toString();
+  const digits = value.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+export function formatFeePreflightIssue(issue: FeePreflightIssue): string {
+  return `Not enough ${issue.symbol}: up to ${formatUnits(issue.required, issue.decimals)} needed, account has ${formatUnits(issue.available, issue.decimals)}`;
+}
+
+export function formatFeePreflightError(report: FeePreflightReport): string {
+  return `${report.issues.map(formatFeePreflightIssue).join("; ")}. Top up the account or lower the fee limits.`;
+}
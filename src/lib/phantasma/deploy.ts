@@ -9,13 +9,19 @@ import {
   TokenMetadataBuilder,
   TokenSchemas,
   TokenSchemasBuilder,
-  TransactionData,
 } from "phantasma-sdk-ts";
 
-import { createApi } from "./api";
-import { ensureError, toMessage } from "./errors";
-import { waitForTransactionConfirmation } from "./tx";
-import { extractPublicKeyBytes, isWalletSignResult } from "./wallet";
+import { toMessage } from "./errors";
+import {
+  runCarbonTransaction,
+  toActionFailure,
+  type TxActionFailure,
+  type TxPipelineOptions,
+} from "./pipeline";
+import { queryKeys } from "./queryCache";
+import { computeTxExpiry } from "./txExpiry";
+import type { TxBuildResult } from "./txSize";
+import { extractPublicKeyBytes } from "./wallet";
 
 export type DeployParams = {
   conn: EasyConnect; // wallet connection object (phaCtx.conn)
@@ -31,18 +37,21 @@ export type DeployParams = {
   maxData: bigint;
   expiry?: bigint | null;
   addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
 };
 
 export type DeployResult =
   | { success: true; txHash: string; tokenId?: number; result?: unknown }
-  | { success: false; error: string };
+  | TxActionFailure;
 
-export async function deployCarbonToken(
-  params: DeployParams,
-): Promise<DeployResult> {
+// Everything needed to build the tx without a wallet; the size meter builds with a placeholder key.
+export type BuildDeployTxParams = Omit<DeployParams, "conn" | "ownerAddress" | "pipeline"> & {
+  ownerPublicKey: Bytes32;
+};
+
+export function buildDeployTx(params: BuildDeployTxParams): TxBuildResult {
   const {
-    conn,
-    ownerAddress,
+    ownerPublicKey: ownerBytes32,
     symbol,
     isNFT = false,
     decimals = 8,
@@ -55,19 +64,10 @@ export async function deployCarbonToken(
     addLog,
   } = params;
 
-  if (!conn) {
-    return { success: false, error: "Wallet connection (conn) is required" };
-  }
-  if (!ownerAddress) {
-    return { success: false, error: "ownerAddress is required" };
-  }
   if (!symbol) {
     return { success: false, error: "symbol is required" };
   }
 
-  const publicKeyBytes = extractPublicKeyBytes(conn);
-  const ownerBytes32 = new Bytes32(publicKeyBytes);
-
   let tokenInfoInstance: DeploymentTokenInfo;
   if (!metadata || Object.keys(metadata).length === 0) {
     return { success: false, error: "Token metadata is required" };
@@ -114,89 +114,73 @@ export async function deployCarbonToken(
 
   tokenInfoInstance.metadata = serializedMetadata;
 
-  const expiryValue = expiry ?? undefined;
+  const expiryValue = expiry ?? computeTxExpiry();
 
-  let txMsg;
   try {
-    txMsg = CreateTokenTxHelper.buildTx(
+    const txMsg = CreateTokenTxHelper.buildTx(
       tokenInfoInstance,
       ownerBytes32,
       feeOptions,
       maxData,
       expiryValue,
     );
+    return { success: true, txMsg };
   } catch (err: unknown) {
     return {
       success: false,
       error: `Failed to build Carbon tx: ${toMessage(err)}`,
     };
   }
+}
 
-  let walletResult: { hash: string; id: number; success: boolean };
-  try {
-    walletResult = await new Promise<{ hash: string; id: number; success: boolean }>((resolve, reject) => {
-      try {
-        conn.signCarbonTransaction(
-          txMsg,
-          (res: unknown) => {
-            if (!isWalletSignResult(res)) {
-              reject(new Error("Unexpected wallet response"));
-              return;
-            }
-            if (res.success === false) {
-              reject(new Error(res.error || "Wallet rejected transaction"));
-              return;
-            }
-            resolve({ hash: res.hash, id: res.id, success: true });
-          },
-          (err: unknown) => {
-            reject(ensureError(err));
-          },
-        );
-      } catch (inner) {
-        reject(ensureError(inner));
-      }
-    });
-  } catch (err: unknown) {
-    return {
-      success: false,
-      error: toMessage(err) || "Wallet rejected transaction",
-    };
+export async function deployCarbonToken(
+  params: DeployParams,
+): Promise<DeployResult> {
+  const { conn, ownerAddress, symbol, isNFT = false, decimals = 8, maxSupply, addLog, pipeline } = params;
+
+  if (!conn) {
+    return { success: false, error: "Wallet connection (conn) is required" };
+  }
+  if (!ownerAddress) {
+    return { success: false, error: "ownerAddress is required" };
   }
 
-  const txHash = walletResult.hash;
-  let tokenId: number | undefined = undefined;
-
-  if (txHash) {
-    const api = createApi();
-    const confirmation = await waitForTransactionConfirmation(api, txHash, {
-      maxAttempts: 30,
-      delayMs: 1000,
-      failureDetailAttempts: 6,
-    });
-
-    if (confirmation.status === "success") {
-      const txInfo = (confirmation as { status: "success"; tx: TransactionData }).tx;
-      if (typeof txInfo?.result === "string") {
-        try {
-          tokenId = CreateTokenTxHelper.parseResult(txInfo?.result);
-        } catch {
-          tokenId = undefined;
-        }
-      }
-    } else if (confirmation.status === "failure") {
-      const failure = confirmation as { status: "failure"; tx: TransactionData; message?: string };
-      const message = failure.message ? `${failure.message}` : "Transaction execution failed";
-      return { success: false, error: `Transaction ${txHash} failed: ${message}` };
-    } else {
-      return { success: false, error: `Transaction ${txHash} confirmation timed out` };
-    }
+  const built = buildDeployTx({
+    ...params,
+    ownerPublicKey: new Bytes32(extractPublicKeyBytes(conn)),
+  });
+  if (!built.success) {
+    return built;
+  }
+  const { txMsg } = built;
+
+  const outcome = await runCarbonTransaction({
+    conn,
+    txMsg,
+    parseResult: (tx) =>
+      typeof tx?.result === "string" ? CreateTokenTxHelper.parseResult(tx.result) : undefined,
+    logTag: "deploy",
+    addLog,
+    pipeline,
+    journal: {
+      operation: "deploy",
+      tokenSymbol: symbol.trim(),
+      summary: {
+        type: isNFT ? "NFT" : "Fungible",
+        decimals: String(decimals),
+        maxSupply: maxSupply.toString(),
+      },
+    },
+    invalidates: [queryKeys.account(ownerAddress), queryKeys.token(symbol), queryKeys.allTokens()],
+  });
+  if (!outcome.success) {
+    return toActionFailure(outcome);
   }
 
   return {
     success: true,
-    txHash: txHash || "pending",
-    tokenId,
-    result: walletResult,
+    txHash: outcome.txHash,
+    tokenId: outcome.parsed,
+    result: outcome.walletResult,
   };
 }
@@ -0,0 +1,312 @@
+import { TokenInfoBuilder, TokenSchemasBuilder } from "phantasma-sdk-ts";
+
+import { toMessage } from "./errors";
+
+// Everything the deploy form needs to recreate a token, in a reviewable JSON file. Amounts and fee
+// fields are strings so large values survive JSON; `maxSupply` is in whole-token units like the form.
+export const TOKEN_DEPLOY_SPEC_FORMAT = "phantasma-token-deploy-spec";
+export const TOKEN_DEPLOY_SPEC_VERSION = 1;
+
+export type TokenDeploySpecSchemaField = { name: string; type: string };
+
+export type TokenDeploySpecSchemas = {
+  seriesMetadata: TokenDeploySpecSchemaField[];
+  rom: TokenDeploySpecSchemaField[];
+  ram: TokenDeploySpecSchemaField[];
+};
+
+export type TokenDeploySpec = {
+  format: typeof TOKEN_DEPLOY_SPEC_FORMAT;
+  version: number;
+  token: {
+    type: "fungible" | "nft";
+    symbol: string;
+    decimals: number;
+    maxSupply: string;
+  };
+  metadata: {
+    name: string;
+    url: string;
+    description: string;
+    icon: string;
+    // Extended properties, in display order.
+    extra: Record<string, string>;
+  };
+  // Required for NFTs, null for fungible tokens.
+  tokenSchemas: TokenDeploySpecSchemas | null;
+  fees: {
+    gasFeeBase: string;
+    gasFeeCreateTokenBase: string;
+    gasFeeCreateTokenSymbol: string;
+    feeMultiplier: string;
+    maxData: string;
+  };
+};
+
+export type ParseTokenDeploySpecResult =
+  | { success: true; spec: TokenDeploySpec }
+  | { success: false; error: string; issues: string[] };
+
+const RESERVED_METADATA_KEYS = new Set(["name", "icon", "url", "description"]);
+const ICON_DATA_URI_PATTERN = /^data:image\/(png|jpeg|jpg|webp);base64,[A-Za-z0-9+/]+=*$/i;
+const FEE_FIELDS = [
+  "gasFeeBase",
+  "gasFeeCreateTokenBase",
+  "gasFeeCreateTokenSymbol",
+  "feeMultiplier",
+  "maxData",
+] as const;
+
+export type RecordValue = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is RecordValue {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Collects every problem with its JSON path instead of stopping at the first one, so a reviewer
+// sees the whole list at once. Shared with the collection launch spec.
+export class SpecIssues {
+  readonly list: string[] = [];
+
+  add(path: string, message: string) {
+    this.list.push(`${path}: ${message}`);
+  }
+
+  failure(): { success: false; error: string; issues: string[] } {
+    const count = this.list.length;
+    return {
+      success: false,
+      error: `Spec has ${count} problem${count === 1 ? "" : "s"}: ${this.list[0]}${count > 1 ? ", …" : ""}`,
+      issues: this.list,
+    };
+  }
+
+  object(value: unknown, path: string, keys: readonly string[]): RecordValue | null {
+    if (!isRecord(value)) {
+      this.add(path || "spec", "must be an object");
+      return null;
+    }
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => this.add(path ? `${path}.${key}` : key, "unknown field"));
+    return value;
+  }
+
+  string(value: unknown, path: string): string | null {
+    if (typeof value !== "string") {
+      this.add(path, "must be a string");
+      return null;
+    }
+    if (!value.trim()) {
+      this.add(path, "must not be empty");
+      return null;
+    }
+    return value;
+  }
+
+  integerString(value: unknown, path: string): string | null {
+    const text = this.string(value, path);
+    if (text === null) return null;
+    if (!/^\d+$/.test(text.trim())) {
+      this.add(path, `must be a non-negative integer string, got "${text}"`);
+      return null;
+    }
+    return text.trim();
+  }
+}
+
+function parseSchemaFields(value: unknown, path: string, issues: SpecIssues): TokenDeploySpecSchemaField[] {
+  if (!Array.isArray(value)) {
+    issues.add(path, "must be an array");
+    return [];
+  }
+  const fields: TokenDeploySpecSchemaField[] = [];
+  value.forEach((entry, index) => {
+    const fieldPath = `${path}[${index}]`;
+    const field = issues.object(entry, fieldPath, ["name", "type"]);
+    if (!field) return;
+    const name = issues.string(field.name, `${fieldPath}.name`);
+    const type = issues.string(field.type, `${fieldPath}.type`);
+    if (name !== null && type !== null) fields.push({ name, type });
+  });
+  return fields;
+}
+
+function parseTokenSchemas(value: unknown, path: string, issues: SpecIssues): TokenDeploySpecSchemas | null {
+  const raw = issues.object(value, path, ["seriesMetadata", "rom", "ram"]);
+  if (!raw) return null;
+  const before = issues.list.length;
+  const schemas: TokenDeploySpecSchemas = {
+    seriesMetadata: parseSchemaFields(raw.seriesMetadata, `${path}.seriesMetadata`, issues),
+    rom: parseSchemaFields(raw.rom, `${path}.rom`, issues),
+    ram: parseSchemaFields(raw.ram, `${path}.ram`, issues),
+  };
+  if (issues.list.length > before) return null;
+  try {
+    // Same check the deploy form runs before submitting (unknown types, missing standard fields).
+    TokenSchemasBuilder.fromJson(JSON.stringify(schemas));
+  } catch (err: unknown) {
+    issues.add(path, toMessage(err));
+    return null;
+  }
+  return schemas;
+}
+
+// Validates an already-decoded spec. Field paths in the issues match the JSON layout.
+export function validateTokenDeploySpec(value: unknown): ParseTokenDeploySpecResult {
+  const issues = new SpecIssues();
+  const root = issues.object(value, "", ["format", "version", "token", "metadata", "tokenSchemas", "fees"]);
+  if (!root) {
+    return { success: false, error: "Spec must be a JSON object", issues: issues.list };
+  }
+  if (root.format !== TOKEN_DEPLOY_SPEC_FORMAT) {
+    issues.add("format", `must be "${TOKEN_DEPLOY_SPEC_FORMAT}"`);
+  }
+  if (root.version !== TOKEN_DEPLOY_SPEC_VERSION) {
+    issues.add("version", `unsupported version ${JSON.stringify(root.version)}, expected ${TOKEN_DEPLOY_SPEC_VERSION}`);
+  }
+
+  const token = issues.object(root.token, "token", ["type", "symbol", "decimals", "maxSupply"]);
+  let isNFT = false;
+  let decimals = 0;
+  let symbol = "";
+  let maxSupply = "0";
+  if (token) {
+    if (token.type !== "fungible" && token.type !== "nft") {
+      issues.add("token.type", 'must be "fungible" or "nft"');
+    }
+    isNFT = token.type === "nft";
+    symbol = issues.string(token.symbol, "token.symbol") ?? "";
+    if (symbol) {
+      const check = TokenInfoBuilder.checkIsValidSymbol(symbol);
+      if (!check.ok) issues.add("token.symbol", check.error ?? "invalid symbol");
+    }
+    if (typeof token.decimals !== "number" || !Number.isInteger(token.decimals) || token.decimals < 0) {
+      issues.add("token.decimals", "must be a non-negative integer");
+    } else if (isNFT && token.decimals !== 0) {
+      issues.add("token.decimals", "must be 0 for NFTs");
+    } else if (token.decimals > 64) {
+      issues.add("token.decimals", "cannot exceed 64");
+    } else {
+      decimals = token.decimals;
+    }
+    const supply = issues.string(token.maxSupply, "token.maxSupply");
+    if (supply !== null) {
+      const match = /^(\d+)(?:\.(\d+))?$/.exec(supply.trim());
+      if (!match) {
+        issues.add("token.maxSupply", `must be a non-negative decimal string, got "${supply}"`);
+      } else if ((match[2]?.length ?? 0) > decimals) {
+        issues.add("token.maxSupply", `has more fractional digits than the token's ${decimals} decimals`);
+      } else {
+        maxSupply = supply.trim();
+      }
+    }
+  }
+
+  const metadata = issues.object(root.metadata, "metadata", ["name", "url", "description", "icon", "extra"]);
+  const extra: Record<string, string> = {};
+  let name = "";
+  let url = "";
+  let description = "";
+  let icon = "";
+  if (metadata) {
+    name = issues.string(metadata.name, "metadata.name") ?? "";
+    url = issues.string(metadata.url, "metadata.url") ?? "";
+    description = issues.string(metadata.description, "metadata.description") ?? "";
+    icon = issues.string(metadata.icon, "metadata.icon") ?? "";
+    if (icon && !ICON_DATA_URI_PATTERN.test(icon.trim())) {
+      issues.add("metadata.icon", "must be a base64 PNG, JPEG or WebP data URI");
+    }
+    if (metadata.extra !== undefined && !isRecord(metadata.extra)) {
+      issues.add("metadata.extra", "must be an object");
+    } else if (metadata.extra !== undefined) {
+      Object.entries(metadata.extra).forEach(([key, entry]) => {
+        if (!key.trim()) {
+          issues.add("metadata.extra", "keys must not be empty");
+        } else if (RESERVED_METADATA_KEYS.has(key.trim())) {
+          issues.add(`metadata.extra.${key}`, "reserved key, set it on metadata directly");
+        } else if (typeof entry !== "string") {
+          issues.add(`metadata.extra.${key}`, "must be a string");
+        } else {
+          extra[key.trim()] = entry;
+        }
+      });
+    }
+  }
+
+  let tokenSchemas: TokenDeploySpecSchemas | null = null;
+  if (isNFT) {
+    if (root.tokenSchemas === undefined || root.tokenSchemas === null) {
+      issues.add("tokenSchemas", "required for NFTs");
+    } else {
+      tokenSchemas = parseTokenSchemas(root.tokenSchemas, "tokenSchemas", issues);
+    }
+  } else if (root.tokenSchemas !== undefined && root.tokenSchemas !== null) {
+    issues.add("tokenSchemas", "only allowed for NFTs");
+  }
+
+  const fees = issues.object(root.fees, "fees", FEE_FIELDS);
+  const feeValues = {} as TokenDeploySpec["fees"];
+  if (fees) {
+    FEE_FIELDS.forEach((field) => {
+      feeValues[field] = issues.integerString(fees[field], `fees.${field}`) ?? "0";
+    });
+  }
+
+  if (issues.list.length > 0) {
+    return issues.failure();
+  }
+
+  return {
+    success: true,
+    spec: {
+      format: TOKEN_DEPLOY_SPEC_FORMAT,
+      version: TOKEN_DEPLOY_SPEC_VERSION,
+      token: { type: isNFT ? "nft" : "fungible", symbol: symbol.trim(), decimals, maxSupply },
+      metadata: { name, url, description, icon: icon.trim(), extra },
+      tokenSchemas,
+      fees: feeValues,
+    },
+  };
+}
+
+export function parseTokenDeploySpec(json: string): ParseTokenDeploySpecResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err: unknown) {
+    const message = `Spec is not valid JSON: ${toMessage(err)}`;
+    return { success: false, error: message, issues: [message] };
+  }
+  return validateTokenDeploySpec(value);
+}
+
+// Stable key order and two-space indent so specs diff cleanly in code review.
+export function serializeTokenDeploySpec(spec: TokenDeploySpec): string {
+  const ordered: TokenDeploySpec = {
+    format: spec.format,
+    version: spec.version,
+    token: {
+      type: spec.token.type,
+      symbol: spec.token.symbol,
+      decimals: spec.token.decimals,
+      maxSupply: spec.token.maxSupply,
+    },
+    metadata: {
+      name: spec.metadata.name,
+      url: spec.metadata.url,
+      description: spec.metadata.description,
+      icon: spec.metadata.icon,
+      extra: spec.metadata.extra,
+    },
+    tokenSchemas: spec.tokenSchemas,
+    fees: {
+      gasFeeBase: spec.fees.gasFeeBase,
+      gasFeeCreateTokenBase: spec.fees.gasFeeCreateTokenBase,
+      gasFeeCreateTokenSymbol: spec.fees.gasFeeCreateTokenSymbol,
+      feeMultiplier: spec.fees.feeMultiplier,
+      maxData: spec.fees.maxData,
+    },
+  };
+  return `${JSON.stringify(ordered, null, 2)}\n`;
+}
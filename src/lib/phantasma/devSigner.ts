@@ -0,0 +1,172 @@
+import { bytesToHex, EasyConnect, hexToBytes, PhantasmaKeys, TxMsg, TxMsgSigner } from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { rpcErrorOf, toMessage } from "./errors";
+import { getActiveNetwork, isMainnetProfile, isSandboxProfile, subscribeNetwork, type NetworkProfile } from "./network";
+import { orderEndpoints } from "./rpcHealth";
+import type { WalletSignResult } from "./wallet";
+
+// Opt-in signer for testnet automation and QA: signs Carbon txs with a WIF or raw private key
+// and broadcasts them itself, in place of Phantasma Link. The key lives in this module only
+// (never persisted) and is dropped as soon as mainnet becomes the active network. Carbon txs
+// carry no nexus, so besides the profile the serving node is asked which nexus it is on.
+
+export type LoadDevSignerResult = { success: true; address: string } | { success: false; error: string };
+
+type Listener = () => void;
+
+let keys: PhantasmaKeys | null = null;
+let connection: EasyConnect | null = null;
+let stopNetworkWatch: (() => void) | null = null;
+let nextSignId = 1;
+const listeners = new Set<Listener>();
+// Nexus name reported by each RPC endpoint, lower case.
+const nodeNexusNames = new Map<string, string>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function parseSecret(secret: string): PhantasmaKeys {
+  const trimmed = secret.trim();
+  const hex = trimmed.replace(/^0x/i, "");
+  if (/^[0-9a-f]{64}$/i.test(hex)) {
+    return new PhantasmaKeys(hexToBytes(hex));
+  }
+  return PhantasmaKeys.fromWIF(trimmed);
+}
+
+// Broadcasts go to the first of these endpoints only (see api.ts), so that is the one asked.
+async function queryNodeNexus(network: NetworkProfile): Promise<{ url: string; nexus: string }> {
+  const url = orderEndpoints(network)[0] ?? network.rpcUrl;
+  const cached = nodeNexusNames.get(url);
+  if (cached) return { url, nexus: cached };
+  const response: unknown = await createApi({ rpcUrl: url, nexus: network.nexus }).getNexus(false);
+  const rpcError = rpcErrorOf(response);
+  if (rpcError !== null) {
+    throw new Error(rpcError);
+  }
+  const name = (response as { name?: unknown } | null)?.name;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("Node did not report its nexus");
+  }
+  const nexus = name.trim().toLowerCase();
+  nodeNexusNames.set(url, nexus);
+  return { url, nexus };
+}
+
+// Null when signing on `network` is allowed, otherwise why not. `unverified` is set when the
+// node could not be asked, as opposed to a node that answered "mainnet".
+async function checkSigningNetwork(network: NetworkProfile): Promise<{ error: string; unverified: boolean } | null> {
+  if (isMainnetProfile(network)) {
+    return { error: "The local dev signer is disabled on mainnet", unverified: false };
+  }
+  if (isSandboxProfile(network)) return null;
+  try {
+    const { url, nexus } = await queryNodeNexus(network);
+    if (nexus === "mainnet") {
+      return { error: `${url} serves mainnet; the local dev signer is disabled there`, unverified: false };
+    }
+    return null;
+  } catch (err: unknown) {
+    return { error: `Could not confirm that ${network.label} is not mainnet: ${toMessage(err)}`, unverified: true };
+  }
+}
+
+// Same conventions as Link: the node's hash on success, errors through onFail.
+async function signAndBroadcast(key: PhantasmaKeys, txMsg: TxMsg): Promise<string> {
+  const network = getActiveNetwork();
+  const refused = await checkSigningNetwork(network);
+  if (refused) {
+    throw new Error(refused.error);
+  }
+  const signedHex = bytesToHex(TxMsgSigner.signAndSerialize(txMsg, key));
+  const response: unknown = await createApi(network).sendCarbonTransaction(signedHex);
+  const rpcError = rpcErrorOf(response);
+  if (rpcError !== null) {
+    throw new Error(rpcError);
+  }
+  if (typeof response !== "string" || !response) {
+    throw new Error("Node did not return a transaction hash");
+  }
+  return response;
+}
+
+function createConnection(key: PhantasmaKeys): EasyConnect {
+  const conn = {
+    connected: true,
+    platform: "dev-signer",
+    providerHint: "dev-signer",
+    link: { account: { address: key.Address.Text, name: "dev signer" } },
+    signCarbonTransaction(txMsg: TxMsg, onSuccess: (res: WalletSignResult) => void, onFail: (err: unknown) => void) {
+      signAndBroadcast(key, txMsg).then(
+        (hash) => onSuccess({ hash, id: nextSignId++, success: true }),
+        (err: unknown) => onFail(err),
+      );
+    },
+  };
+  return conn as unknown as EasyConnect;
+}
+
+export async function loadDevSigner(secret: string): Promise<LoadDevSignerResult> {
+  const network = getActiveNetwork();
+  if (isMainnetProfile(network)) {
+    return { success: false, error: "The local dev signer is only available on non-mainnet networks" };
+  }
+  if (!secret.trim()) {
+    return { success: false, error: "Enter a WIF or a 64-character hex private key" };
+  }
+  let parsed: PhantasmaKeys;
+  try {
+    parsed = parseSecret(secret);
+  } catch (err: unknown) {
+    return { success: false, error: `Invalid private key: ${toMessage(err)}` };
+  }
+  const refused = await checkSigningNetwork(network);
+  if (refused) {
+    return { success: false, error: refused.error };
+  }
+  if (getActiveNetwork().id !== network.id) {
+    return { success: false, error: "The network changed while its node was being checked; try again" };
+  }
+  keys = parsed;
+  connection = createConnection(parsed);
+  stopNetworkWatch ??= subscribeNetwork(() => {
+    const next = getActiveNetwork();
+    if (isMainnetProfile(next)) {
+      clearDevSigner();
+      return;
+    }
+    // A node that cannot be asked right now keeps the key; signing checks again before each tx.
+    void checkSigningNetwork(next).then((refusal) => {
+      if (refusal && !refusal.unverified && getActiveNetwork().id === next.id) clearDevSigner();
+    });
+  });
+  notify();
+  return { success: true, address: parsed.Address.Text };
+}
+
+export function clearDevSigner() {
+  if (!keys) return;
+  keys = null;
+  connection = null;
+  stopNetworkWatch?.();
+  stopNetworkWatch = null;
+  notify();
+}
+
+export function getDevSignerAddress(): string | null {
+  return keys ? keys.Address.Text : null;
+}
+
+// EasyConnect stand-in for the loaded key, or null when none is loaded.
+export function getDevSignerConnection(): EasyConnect | null {
+  return connection;
+}
+
+export function subscribeDevSigner(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -7,3 +7,165 @@ export function toMessage(err: unknown): string {
   return ensureError(err).message;
 }
 
+// JSONRPC resolves node errors as `{ error }` instead of throwing. Returns that error's message,
+// or null for a regular answer.
+export function rpcErrorOf(response: unknown): string | null {
+  if (response && typeof response === "object" && "error" in response) {
+    return String((response as { error: unknown }).error);
+  }
+  return null;
+}
+
+export type TxErrorKind =
+  | "wallet_rejected"
+  | "wallet_unavailable"
+  | "session_changed"
+  | "invalid_input"
+  | "encoding_failure"
+  | "insufficient_funds"
+  | "vm_failure"
+  | "confirmation_timeout"
+  | "rpc_unreachable"
+  | "unknown";
+
+export type TxErrorInfo = {
+  kind: TxErrorKind;
+  message: string;
+  // Remediation for the first known pattern in the message, if any.
+  hint?: string;
+};
+
+export const TX_ERROR_KIND_LABELS: Record<TxErrorKind, string> = {
+  wallet_rejected: "Rejected",
+  wallet_unavailable: "Wallet unavailable",
+  session_changed: "Wallet changed",
+  invalid_input: "Invalid input",
+  encoding_failure: "Encoding failure",
+  insufficient_funds: "Insufficient funds",
+  vm_failure: "Execution failed",
+  confirmation_timeout: "Not confirmed",
+  rpc_unreachable: "RPC unreachable",
+  unknown: "Error",
+};
+
+type TxErrorMatcher = {
+  pattern: RegExp;
+  // Kind implied by the pattern when the caller does not know better.
+  kind?: TxErrorKind;
+  hint: string;
+};
+
+// Known Carbon `debugComment`/`result` texts and local failure messages. Specific chain
+// errors come first: the first match supplies the hint.
+const TX_ERROR_MATCHERS: TxErrorMatcher[] = [
+  {
+    pattern: /symbol\b.*\b(already|exists|taken|registered)|token\b.*\balready exists/i,
+    kind: "vm_failure",
+    hint: "This symbol is already registered on this network. Pick a different symbol.",
+  },
+  {
+    pattern: /supply\b.*\bexceed|exceed\w*\b.*\bsupply/i,
+    kind: "vm_failure",
+    hint: "The amount would exceed the token's max supply. Lower the amount or deploy with a larger supply.",
+  },
+  {
+    pattern: /max[ _-]?mint\b.*\b(reached|exceed)|series\b.*\b(full|exhausted)/i,
+    kind: "vm_failure",
+    hint: "The series has reached its max mint. Create a new series to mint more.",
+  },
+  {
+    pattern: /not\b.*\bowner|owner\b.*\b(mismatch|required|only)|only\b.*\bowner|unauthori[sz]ed|not authori[sz]ed|permission/i,
+    kind: "vm_failure",
+    hint: "Only the token owner can do this. Connect the account that deployed the token.",
+  },
+  {
+    pattern: /series\b.*\b(not found|does not exist|unknown|missing)/i,
+    kind: "vm_failure",
+    hint: "The series does not exist on this token. Reload the series list or create it first.",
+  },
+  {
+    pattern: /token\b.*\b(not found|does not exist|unknown)/i,
+    kind: "vm_failure",
+    hint: "The token does not exist on this network. Check the selected token and network.",
+  },
+  {
+    pattern: /expir/i,
+    hint: "Pick a longer expiry under Fees & limits and submit again.",
+  },
+  {
+    pattern: /not enough|insufficient|balance\b.*\b(low|short)/i,
+    kind: "insufficient_funds",
+    hint: "Top up KCAL/SOUL on the paying account or lower the fee limits under Fees & limits.",
+  },
+  {
+    pattern: /out of gas|gas\b.*\bexceed/i,
+    kind: "vm_failure",
+    hint: "The transaction ran out of gas. Raise the gas fee values under Fees & limits.",
+  },
+  {
+    pattern: /too large|size limit|exceeds phantasma link/i,
+    kind: "encoding_failure",
+    hint: "Reduce the ROM, metadata or icon size until the size meter is within the limit.",
+  },
+  {
+    pattern: /failed to (build|serialize|encode)|cannot be encoded|serializ/i,
+    kind: "encoding_failure",
+    hint: "A value could not be encoded. Check field types against the token schema.",
+  },
+  {
+    pattern: /(account|network) changed|prepared for (a )?different account/i,
+    kind: "session_changed",
+    hint: "Phantasma Link switched accounts or networks mid-flow. Check the account in Link, review the form and submit again.",
+  },
+  {
+    pattern: /reject|denied|cancel+ed/i,
+    kind: "wallet_rejected",
+    hint: "The request was declined. Submit again and approve it in Phantasma Link.",
+  },
+  {
+    pattern: /wallet\b.*\b(connection|not connected|required)|not connected|link\b.*\b(unavailable|not found|closed)/i,
+    kind: "wallet_unavailable",
+    hint: "Connect Phantasma Link (v4 or newer) and make sure it is unlocked.",
+  },
+  {
+    pattern: /not confirmed yet|confirmation/i,
+    kind: "confirmation_timeout",
+    hint: "The transaction may still land. Check it later from Transaction History.",
+  },
+  {
+    pattern: /failed to fetch|fetch failed|network ?error|econnrefused|load failed|unreachable/i,
+    kind: "rpc_unreachable",
+    hint: "The RPC node did not answer. Check the selected network's RPC URL and your connection.",
+  },
+  {
+    pattern: /\bis required\b|\bmust be\b|\binvalid\b|cannot be empty/i,
+    kind: "invalid_input",
+    hint: "Fix the form values and submit again.",
+  },
+];
+
+function matchTxError(message: string): TxErrorMatcher | undefined {
+  return TX_ERROR_MATCHERS.find((matcher) => matcher.pattern.test(message));
+}
+
+// Failure whose kind the caller knows; the message only contributes the hint.
+export function createTxError(kind: TxErrorKind, message: string): TxErrorInfo {
+  return { kind, message, hint: matchTxError(message)?.hint };
+}
+
+export function isTxErrorInfo(value: unknown): value is TxErrorInfo {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as TxErrorInfo).kind === "string" &&
+    typeof (value as TxErrorInfo).message === "string"
+  );
+}
+
+// Failure of unknown origin: the kind is inferred from the message, else `fallbackKind`.
+export function classifyTxError(err: unknown, fallbackKind: TxErrorKind = "unknown"): TxErrorInfo {
+  if (isTxErrorInfo(err)) return err;
+  const message = toMessage(err);
+  const matcher = matchTxError(message);
+  return { kind: matcher?.kind ?? fallbackKind, message, hint: matcher?.hint };
+}
@@ -0,0 +1,46 @@
+import { getActiveNetwork, type ExplorerTemplates, type NetworkProfile } from "./network";
+
+// Block explorer deep links, built from the explorer templates of a network profile (see
+// network.ts). Placeholders: {hash} (tx), {address}, {symbol} (token and NFT) and {id}
+// (Phantasma NFT id). Networks or kinds without a template, and templates needing a value
+// that was not given, get no links.
+
+export type ExplorerLinkKind = keyof ExplorerTemplates;
+
+function fillTemplate(template: string | undefined, values: Record<string, string>): string | null {
+  if (!template) return null;
+  let complete = true;
+  const url = template.replace(/\{(\w+)\}/g, (_placeholder, name: string) => {
+    if (!values[name]) complete = false;
+    return encodeURIComponent(values[name] ?? "");
+  });
+  return complete ? url : null;
+}
+
+export function explorerUrl(
+  kind: ExplorerLinkKind,
+  values: Record<string, string>,
+  network: Pick<NetworkProfile, "explorer"> = getActiveNetwork(),
+): string | null {
+  return fillTemplate(network.explorer?.[kind], values);
+}
+
+export function explorerTxUrl(hash: string, network?: Pick<NetworkProfile, "explorer">): string | null {
+  return explorerUrl("tx", { hash }, network);
+}
+
+export function explorerAddressUrl(address: string, network?: Pick<NetworkProfile, "explorer">): string | null {
+  return explorerUrl("address", { address }, network);
+}
+
+export function explorerTokenUrl(symbol: string, network?: Pick<NetworkProfile, "explorer">): string | null {
+  return explorerUrl("token", { symbol }, network);
+}
+
+export function explorerNftUrl(
+  symbol: string,
+  tokenId: string,
+  network?: Pick<NetworkProfile, "explorer">,
+): string | null {
+  return explorerUrl("nft", { id: tokenId, symbol }, network);
+}
@@ -0,0 +1,17 @@
+// Fee and data limits prefilled in the Series and Mint tabs, also used by launch plans. Strings,
+// like the form inputs they seed.
+
+export const DEFAULT_SERIES_MAX_DATA = 100000000n;
+export const SERIES_FEE_DEFAULTS = {
+  gasFeeBase: "10000",
+  gasFeeCreateSeriesBase: "2500000000",
+  feeMultiplier: "10000",
+  maxDataLimit: DEFAULT_SERIES_MAX_DATA.toString(),
+};
+
+export const DEFAULT_NFT_MAX_DATA = 100n;
+export const NFT_FEE_DEFAULTS = {
+  gasFeeBase: "10000",
+  feeMultiplier: "1000",
+  maxDataLimit: DEFAULT_NFT_MAX_DATA.toString(),
+};
@@ -0,0 +1,129 @@
+// Autosaved form drafts, kept in IndexedDB because deploy drafts carry the icon data URI and
+// would quickly fill localStorage. One draft per wallet, network, tab and selected token.
+
+export type FormDraftScope = {
+  wallet: string;
+  networkId: string;
+  // TokenActionTab of the form.
+  tab: string;
+  // Symbol of the selected token; null for forms that do not act on one (deploy).
+  token: string | null;
+};
+
+export type FormDraft<T = unknown> = {
+  key: string;
+  scope: FormDraftScope;
+  // Short description for the drafts list, e.g. "MYTOKEN (NFT)".
+  label: string;
+  data: T;
+  updatedAt: number;
+};
+
+export type FormDraftFilter = {
+  wallet?: string | null;
+  networkId?: string;
+};
+
+const DB_NAME = "phantasma.drafts";
+const DB_VERSION = 1;
+const STORE_NAME = "drafts";
+const MAX_DRAFTS = 100;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function hasIndexedDb(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!hasIndexedDb()) {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open drafts database"));
+  }).catch((err: unknown) => {
+    // Allow a retry (e.g. after the user closes another tab blocking an upgrade).
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, mode);
+        const request = build(tx.objectStore(STORE_NAME));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error ?? request.error ?? new Error("Drafts database request failed"));
+        tx.onabort = () => reject(tx.error ?? new Error("Drafts database request aborted"));
+      }),
+  );
+}
+
+export function formDraftKey(scope: FormDraftScope): string {
+  return [scope.networkId, scope.wallet, scope.tab, scope.token ?? ""].join("|");
+}
+
+export async function loadFormDraft<T>(scope: FormDraftScope): Promise<FormDraft<T> | null> {
+  const draft = await runRequest<FormDraft<T> | undefined>("readonly", (store) => store.get(formDraftKey(scope)));
+  return draft ?? null;
+}
+
+// Newest first.
+export async function listFormDrafts(filter?: FormDraftFilter): Promise<FormDraft[]> {
+  const all = await runRequest<FormDraft[]>("readonly", (store) => store.getAll());
+  return all
+    .filter((draft) => {
+      if (filter?.wallet !== undefined && filter.wallet !== null && draft.scope.wallet !== filter.wallet) return false;
+      if (filter?.networkId && draft.scope.networkId !== filter.networkId) return false;
+      return true;
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveFormDraft<T>(scope: FormDraftScope, label: string, data: T): Promise<FormDraft<T>> {
+  const draft: FormDraft<T> = { key: formDraftKey(scope), scope, label, data, updatedAt: Date.now() };
+  await runRequest("readwrite", (store) => store.put(draft));
+  await pruneFormDrafts();
+  notify();
+  return draft;
+}
+
+export async function deleteFormDraft(key: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(key));
+  notify();
+}
+
+// Drops the oldest drafts past MAX_DRAFTS so abandoned ones do not pile up.
+async function pruneFormDrafts() {
+  const all = await listFormDrafts();
+  const stale = all.slice(MAX_DRAFTS);
+  if (stale.length === 0) return;
+  await runRequest("readwrite", (store) => {
+    stale.forEach((draft) => store.delete(draft.key));
+    return store.count();
+  });
+}
+
+export function subscribeFormDrafts(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
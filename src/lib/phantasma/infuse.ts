@@ -18,9 +18,16 @@ import {
 } from "phantasma-sdk-ts";
 
 import { extractPublicKeyBytes } from "./wallet";
-import { createApi } from "./api";
-import { waitForTransactionConfirmation } from "./tx";
-import { ensureError, toMessage } from "./errors";
+import {
+  runCarbonTransaction,
+  toActionFailure,
+  type TxActionFailure,
+  type TxPipelineOptions,
+} from "./pipeline";
+import { toMessage } from "./errors";
+import { queryKeys } from "./queryCache";
+import { computeTxExpiry } from "./txExpiry";
+import type { TxBuildResult } from "./txSize";
 
 export type InfuseInstanceGroup = {
   carbonTokenId: bigint;
@@ -31,28 +38,28 @@ export type InfuseParams = {
   conn: EasyConnect;
   targetCarbonAddress: string;
   groups: InfuseInstanceGroup[];
+  // Token of the target NFT; only used to reload its cached NFT listings after confirmation.
+  targetCarbonTokenId?: bigint;
   feeOptions?: FeeOptions;
   maxData?: bigint;
-  expiry?: bigint;
+  expiry?: bigint | null;
+  addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
 };
 
 export type InfuseResult =
   | { success: true; txHash: string }
-  | { success: false; error: string };
+  | TxActionFailure;
 
-export async function infuseNfts(params: InfuseParams): Promise<InfuseResult> {
-  const {
-    conn,
-    targetCarbonAddress,
-    groups,
-    feeOptions,
-    maxData,
-    expiry,
-  } = params;
+export type BuildInfuseTxParams = Omit<InfuseParams, "conn" | "addLog" | "pipeline"> & {
+  senderPublicKey: Bytes32;
+};
+
+export function buildInfuseTx(
+  params: BuildInfuseTxParams,
+): TxBuildResult<{ targetCarbonAddress: string; totalInstances: number }> {
+  const { senderPublicKey: senderPk, targetCarbonAddress, groups, feeOptions, maxData, expiry } = params;
 
-  if (!conn) {
-    return { success: false, error: "Wallet connection is required" };
-  }
   if (!groups || groups.length === 0) {
     return { success: false, error: "Select at least one NFT to infuse" };
   }
@@ -85,9 +92,8 @@ export async function infuseNfts(params: InfuseParams): Promise<InfuseResult> {
     return { success: false, error: `Invalid target NFT address: ${toMessage(err)}` };
   }
 
-  const senderPk = new Bytes32(extractPublicKeyBytes(conn));
   const fee = feeOptions ?? new FeeOptions();
-  const expiryValue = expiry ?? BigInt(Date.now() + 60_000);
+  const expiryValue = expiry ?? computeTxExpiry();
 
   let tx: TxMsg;
   if (normalizedGroups.length === 1) {
@@ -148,50 +154,47 @@ export async function infuseNfts(params: InfuseParams): Promise<InfuseResult> {
     );
   }
 
-  let walletResult: { hash: string; id: number; success: boolean };
-  try {
-    walletResult = await new Promise<{ hash: string; id: number; success: boolean }>((resolve, reject) => {
-      conn.signCarbonTransaction(
-        tx,
-        (res: unknown) => {
-          if (!res || typeof res !== "object") {
-            reject(new Error("Unexpected wallet response"));
-            return;
-          }
-          const result = res as { hash?: string; id?: number; success?: boolean; error?: string };
-          if (!result.success) {
-            reject(new Error(result.error || "Wallet rejected transaction"));
-            return;
-          }
-          resolve({ hash: result.hash || "", id: result.id ?? 0, success: true });
-        },
-        (err: unknown) => {
-          reject(ensureError(err));
-        },
-      );
-    });
-  } catch (err: unknown) {
-    return { success: false, error: toMessage(err) || "Wallet rejected transaction" };
-  }
+  return { success: true, txMsg: tx, targetCarbonAddress: trimmedTargetAddress, totalInstances };
+}
 
-  const txHash = walletResult.hash;
-  if (!txHash) {
-    return { success: true, txHash: "" };
+export async function infuseNfts(params: InfuseParams): Promise<InfuseResult> {
+  const { conn, groups, targetCarbonTokenId, addLog, pipeline } = params;
+
+  if (!conn) {
+    return { success: false, error: "Wallet connection is required" };
   }
 
-  const api = createApi();
-  const confirmation = await waitForTransactionConfirmation(api, txHash, {
-    maxAttempts: 30,
-    delayMs: 1000,
-    failureDetailAttempts: 6,
+  const built = buildInfuseTx({
+    ...params,
+    senderPublicKey: new Bytes32(extractPublicKeyBytes(conn)),
   });
-
-  if (confirmation.status === "success") {
-    return { success: true, txHash };
+  if (!built.success) {
+    return built;
   }
-  if (confirmation.status === "failure") {
-    const message = confirmation.message ?? "Transaction execution failed";
-    return { success: false, error: `Transaction ${txHash} failed: ${message}` };
+  const { txMsg: tx, targetCarbonAddress: trimmedTargetAddress, totalInstances } = built;
+
+  const outcome = await runCarbonTransaction({
+    conn,
+    txMsg: tx,
+    logTag: "infuse",
+    addLog,
+    pipeline,
+    journal: {
+      operation: "infuse",
+      summary: {
+        target: trimmedTargetAddress,
+        count: String(totalInstances),
+      },
+    },
+    // Infused NFTs leave the wallet and the target NFT changes.
+    invalidates: [
+      ...groups.map((group) => queryKeys.tokenNfts(group.carbonTokenId)),
+      ...(targetCarbonTokenId !== undefined ? [queryKeys.tokenNfts(targetCarbonTokenId)] : []),
+      ...(conn.link?.account?.address ? [queryKeys.account(conn.link.account.address)] : []),
+    ],
+  });
+  if (!outcome.success) {
+    return toActionFailure(outcome);
   }
-  return { success: false, error: `Transaction ${txHash} confirmation timed out` };
+  return { success: true, txHash: outcome.txHash };
 }
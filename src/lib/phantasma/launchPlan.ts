@@ -0,0 +1,663 @@
+import {
+  Address,
+  CreateSeriesFeeOptions,
+  CreateTokenFeeOptions,
+  CreateTokenSeriesTxHelper,
+  CreateTokenTxHelper,
+  EasyConnect,
+  MintNftFeeOptions,
+  VmStructSchema,
+  VmStructSchemaResult,
+  vmStructSchemaFromRpcResult,
+} from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { deployCarbonToken } from "./deploy";
+import { SpecIssues, isRecord, validateTokenDeploySpec, type TokenDeploySpec } from "./deploySpec";
+import { toMessage } from "./errors";
+import { DEFAULT_NFT_MAX_DATA, DEFAULT_SERIES_MAX_DATA, NFT_FEE_DEFAULTS, SERIES_FEE_DEFAULTS } from "./feeDefaults";
+import { mintNft } from "./mint";
+import { getActiveNetwork } from "./network";
+import { DEFAULT_CONFIRMATION_OPTIONS, type TxActionFailure, type TxPipelineOptions } from "./pipeline";
+import { queryTokenExtended, queryTokenSeries } from "./queries";
+import { createSeries } from "./series";
+import { waitForTransactionConfirmation } from "./tx";
+
+// An NFT collection launch as one resumable plan: deploy the token, create its series, then mint
+// the initial NFTs. Progress (and the ids threaded between steps) is kept in localStorage, so a
+// failed, rejected or abandoned step is retried from where it stopped instead of from scratch.
+
+export const COLLECTION_LAUNCH_SPEC_FORMAT = "phantasma-collection-launch-spec";
+export const COLLECTION_LAUNCH_SPEC_VERSION = 1;
+
+// Metadata values are strings in the format the Series and Mint tabs accept (royalties in base
+// units, byte fields as hex), keyed by schema field name.
+export type CollectionLaunchMintSpec = {
+  values: Record<string, string>;
+  romHex: string;
+  ram: Record<string, string>;
+  // null mints to the launching wallet.
+  destination: string | null;
+};
+
+export type CollectionLaunchSeriesSpec = {
+  values: Record<string, string>;
+  // Shared series ROM; "0x" for none.
+  romHex: string;
+  mints: CollectionLaunchMintSpec[];
+};
+
+export type CollectionLaunchSpec = {
+  format: typeof COLLECTION_LAUNCH_SPEC_FORMAT;
+  version: number;
+  // Deploy spec as exported from the Deploy tab; must be an NFT.
+  token: TokenDeploySpec;
+  series: CollectionLaunchSeriesSpec[];
+};
+
+export type ParseCollectionLaunchSpecResult =
+  | { success: true; spec: CollectionLaunchSpec }
+  | { success: false; error: string; issues: string[] };
+
+export type LaunchStepKind = "deploy" | "series" | "mint";
+
+// A "running" step left behind by a closed tab is resumed as "unconfirmed" when it got as far as
+// a tx hash, and simply retried otherwise.
+export type LaunchStepStatus = "pending" | "running" | "unconfirmed" | "done" | "failed";
+
+export type LaunchStep = {
+  kind: LaunchStepKind;
+  seriesIndex: number | null;
+  mintIndex: number | null;
+  status: LaunchStepStatus;
+  // Latest tx sent for this step.
+  txHash: string | null;
+  error: string | null;
+};
+
+export type LaunchPlan = {
+  id: string;
+  wallet: string;
+  networkId: string;
+  spec: CollectionLaunchSpec;
+  // Set by the deploy step and the series steps, read by the steps after them.
+  carbonTokenId: string | null;
+  seriesIds: Array<number | null>;
+  steps: LaunchStep[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type LaunchPlanFilter = {
+  wallet?: string | null;
+  networkId?: string;
+};
+
+export type RunLaunchPlanParams = {
+  planId: string;
+  conn: EasyConnect;
+  addLog?: (message: string, data?: unknown) => void;
+  // Shared by every step. Aborting its signal pauses the plan once the current step stops.
+  pipeline?: TxPipelineOptions;
+};
+
+export type RunLaunchPlanResult = { success: true } | TxActionFailure;
+
+const STORAGE_KEY = "phantasma.launchPlans.v1";
+const MAX_PLANS = 50;
+
+// Schema fields the builders fill in themselves.
+const SERIES_BUILDER_FIELDS = new Set(["_i", "mode", "rom"]);
+const ROM_BUILDER_FIELDS = new Set(["_i", "id", "rom"]);
+const HEX_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/;
+
+function parseValues(
+  value: unknown,
+  path: string,
+  fieldNames: string[],
+  requireFilled: boolean,
+  issues: SpecIssues,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (value === undefined && fieldNames.length === 0) return values;
+  const raw = issues.object(value, path, fieldNames);
+  if (!raw) return values;
+  fieldNames.forEach((name) => {
+    const entry = raw[name];
+    if (typeof entry !== "string") {
+      issues.add(`${path}.${name}`, entry === undefined ? "missing, every schema field needs a value" : "must be a string");
+    } else if (requireFilled && !entry.trim()) {
+      issues.add(`${path}.${name}`, "must not be empty");
+    } else {
+      values[name] = entry;
+    }
+  });
+  return values;
+}
+
+function parseHex(value: unknown, path: string, issues: SpecIssues): string {
+  if (value === undefined || value === null) return "0x";
+  if (typeof value !== "string" || !HEX_PATTERN.test(value.trim())) {
+    issues.add(path, "must be a hex string with an even number of digits");
+    return "0x";
+  }
+  return value.trim() || "0x";
+}
+
+function parseDestination(value: unknown, path: string, issues: SpecIssues): string | null {
+  if (value === undefined || value === null) return null;
+  const text = issues.string(value, path);
+  if (text === null) return null;
+  try {
+    Address.FromText(text.trim());
+  } catch (err: unknown) {
+    issues.add(path, `invalid address: ${toMessage(err)}`);
+    return null;
+  }
+  return text.trim();
+}
+
+// Validates an already-decoded spec; values are checked against the token's own schemas so
+// a typo surfaces before anything is signed rather than halfway through the launch.
+export function validateCollectionLaunchSpec(value: unknown): ParseCollectionLaunchSpecResult {
+  const issues = new SpecIssues();
+  const root = issues.object(value, "", ["format", "version", "token", "series"]);
+  if (!root) {
+    return { success: false, error: "Spec must be a JSON object", issues: issues.list };
+  }
+  if (root.format !== COLLECTION_LAUNCH_SPEC_FORMAT) {
+    issues.add("format", `must be "${COLLECTION_LAUNCH_SPEC_FORMAT}"`);
+  }
+  if (root.version !== COLLECTION_LAUNCH_SPEC_VERSION) {
+    issues.add(
+      "version",
+      `unsupported version ${JSON.stringify(root.version)}, expected ${COLLECTION_LAUNCH_SPEC_VERSION}`,
+    );
+  }
+
+  let token: TokenDeploySpec | null = null;
+  if (!isRecord(root.token)) {
+    issues.add("token", "must be an object");
+  } else {
+    const tokenResult = validateTokenDeploySpec(root.token);
+    if (!tokenResult.success) {
+      tokenResult.issues.forEach((issue) => issues.list.push(`token.${issue}`));
+    } else if (tokenResult.spec.token.type !== "nft") {
+      issues.add("token.token.type", 'must be "nft" for a collection launch');
+    } else {
+      token = tokenResult.spec;
+    }
+  }
+
+  const series: CollectionLaunchSeriesSpec[] = [];
+  if (!Array.isArray(root.series) || root.series.length === 0) {
+    issues.add("series", "must be a non-empty array");
+  } else if (token?.tokenSchemas) {
+    const schemas = token.tokenSchemas;
+    const seriesFields = schemas.seriesMetadata.map((f) => f.name).filter((name) => !SERIES_BUILDER_FIELDS.has(name));
+    const romFields = schemas.rom.map((f) => f.name).filter((name) => !ROM_BUILDER_FIELDS.has(name));
+    const ramFields = schemas.ram.map((f) => f.name);
+
+    root.series.forEach((entry: unknown, seriesIndex) => {
+      const path = `series[${seriesIndex}]`;
+      const raw = issues.object(entry, path, ["values", "romHex", "mints"]);
+      if (!raw) return;
+      const values = parseValues(raw.values, `${path}.values`, seriesFields, false, issues);
+      const romHex = parseHex(raw.romHex, `${path}.romHex`, issues);
+      const mints: CollectionLaunchMintSpec[] = [];
+      if (raw.mints !== undefined && !Array.isArray(raw.mints)) {
+        issues.add(`${path}.mints`, "must be an array");
+      } else {
+        ((raw.mints as unknown[] | undefined) ?? []).forEach((mintEntry, mintIndex) => {
+          const mintPath = `${path}.mints[${mintIndex}]`;
+          const mint = issues.object(mintEntry, mintPath, ["values", "romHex", "ram", "destination"]);
+          if (!mint) return;
+          mints.push({
+            // The mint builder rejects empty ROM and RAM fields.
+            values: parseValues(mint.values, `${mintPath}.values`, romFields, true, issues),
+            romHex: parseHex(mint.romHex, `${mintPath}.romHex`, issues),
+            ram: parseValues(mint.ram, `${mintPath}.ram`, ramFields, true, issues),
+            destination: parseDestination(mint.destination, `${mintPath}.destination`, issues),
+          });
+        });
+      }
+      series.push({ values, romHex, mints });
+    });
+  }
+
+  if (issues.list.length > 0 || !token) {
+    return issues.failure();
+  }
+
+  return {
+    success: true,
+    spec: {
+      format: COLLECTION_LAUNCH_SPEC_FORMAT,
+      version: COLLECTION_LAUNCH_SPEC_VERSION,
+      token,
+      series,
+    },
+  };
+}
+
+export function parseCollectionLaunchSpec(json: string): ParseCollectionLaunchSpecResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err: unknown) {
+    const message = `Spec is not valid JSON: ${toMessage(err)}`;
+    return { success: false, error: message, issues: [message] };
+  }
+  return validateCollectionLaunchSpec(value);
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+// Plans with a run in progress in this tab.
+const runningPlans = new Set<string>();
+
+function hasStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+function readAll(): LaunchPlan[] {
+  if (!hasStorage()) return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as LaunchPlan[]) : [];
+  } catch (err) {
+    console.warn("[warn] Failed to read launch plans", err);
+    return [];
+  }
+}
+
+function writeAll(plans: LaunchPlan[]) {
+  if (!hasStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(plans.slice(0, MAX_PLANS)));
+  } catch (err) {
+    console.warn("[warn] Failed to persist launch plans", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function updatePlan(planId: string, update: (plan: LaunchPlan) => LaunchPlan): LaunchPlan | null {
+  const plans = readAll();
+  const index = plans.findIndex((plan) => plan.id === planId);
+  if (index < 0) return null;
+  plans[index] = { ...update(plans[index]), updatedAt: Date.now() };
+  writeAll(plans);
+  return plans[index];
+}
+
+function updateStep(planId: string, stepIndex: number, patch: Partial<LaunchStep>) {
+  updatePlan(planId, (plan) => ({
+    ...plan,
+    steps: plan.steps.map((step, index) => (index === stepIndex ? { ...step, ...patch } : step)),
+  }));
+}
+
+function buildSteps(spec: CollectionLaunchSpec): LaunchStep[] {
+  const blank = { status: "pending" as const, txHash: null, error: null };
+  const steps: LaunchStep[] = [{ kind: "deploy", seriesIndex: null, mintIndex: null, ...blank }];
+  spec.series.forEach((_, seriesIndex) => {
+    steps.push({ kind: "series", seriesIndex, mintIndex: null, ...blank });
+  });
+  spec.series.forEach((series, seriesIndex) => {
+    series.mints.forEach((_, mintIndex) => {
+      steps.push({ kind: "mint", seriesIndex, mintIndex, ...blank });
+    });
+  });
+  return steps;
+}
+
+// Newest first.
+export function listLaunchPlans(filter?: LaunchPlanFilter): LaunchPlan[] {
+  return readAll().filter((plan) => {
+    if (filter?.wallet && plan.wallet !== filter.wallet) return false;
+    if (filter?.networkId && plan.networkId !== filter.networkId) return false;
+    return true;
+  });
+}
+
+export function getLaunchPlan(planId: string): LaunchPlan | undefined {
+  return readAll().find((plan) => plan.id === planId);
+}
+
+// Plans are bound to the wallet and network they were created for.
+export function createLaunchPlan(spec: CollectionLaunchSpec, wallet: string): LaunchPlan {
+  const now = Date.now();
+  const plan: LaunchPlan = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    wallet,
+    networkId: getActiveNetwork().id,
+    spec,
+    carbonTokenId: null,
+    seriesIds: spec.series.map(() => null),
+    steps: buildSteps(spec),
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeAll([plan, ...readAll()]);
+  return plan;
+}
+
+export function removeLaunchPlan(planId: string) {
+  writeAll(readAll().filter((plan) => plan.id !== planId));
+}
+
+export function isLaunchPlanRunning(planId: string): boolean {
+  return runningPlans.has(planId);
+}
+
+export function subscribeLaunchPlans(listener: Listener): () => void {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", onStorage);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
+
+type StepOutcome = { success: true; carbonTokenId?: bigint; seriesId?: number } | TxActionFailure;
+
+type CollectionSchemas = {
+  series: VmStructSchema;
+  rom: VmStructSchema;
+  ram: VmStructSchema | null;
+};
+
+async function loadCollectionSchemas(symbol: string): Promise<CollectionSchemas> {
+  // Forced: a lookup from before the deploy may still be cached as "unknown token".
+  const token = await queryTokenExtended(symbol, { force: true });
+  const series: VmStructSchemaResult | undefined = token.tokenSchemas?.seriesMetadata;
+  const rom: VmStructSchemaResult | undefined = token.tokenSchemas?.rom;
+  const ram: VmStructSchemaResult | undefined = token.tokenSchemas?.ram;
+  if (!series || !rom) {
+    throw new Error(`Token schemas of ${symbol} are not available from RPC yet`);
+  }
+  return {
+    series: vmStructSchemaFromRpcResult(series),
+    rom: vmStructSchemaFromRpcResult(rom),
+    ram: ram && Array.isArray(ram.fields) && ram.fields.length > 0 ? vmStructSchemaFromRpcResult(ram) : null,
+  };
+}
+
+// Fallbacks for a confirmed tx whose result could not be decoded.
+async function lookupCarbonTokenId(symbol: string): Promise<bigint> {
+  const token = await queryTokenExtended(symbol, { force: true });
+  const raw = token.carbonId;
+  if (typeof raw !== "string" || !raw.trim()) {
+    throw new Error(`Carbon token id of ${symbol} is not available from RPC`);
+  }
+  return BigInt(raw.trim());
+}
+
+async function lookupNewSeriesId(plan: LaunchPlan, carbonTokenId: bigint): Promise<number> {
+  const list = await queryTokenSeries(plan.spec.token.token.symbol, carbonTokenId, { force: true });
+  const known = new Set(plan.seriesIds.filter((id): id is number => id !== null));
+  const created = list.map((entry) => entry.carbonSeriesId).filter((id) => !known.has(id));
+  if (created.length === 0) {
+    throw new Error("Series was created but its id could not be determined");
+  }
+  return Math.max(...created);
+}
+
+function requireCarbonTokenId(plan: LaunchPlan): bigint {
+  if (!plan.carbonTokenId) {
+    throw new Error("Token id is missing; the deploy step has not completed");
+  }
+  return BigInt(plan.carbonTokenId);
+}
+
+async function executeStep(
+  plan: LaunchPlan,
+  step: LaunchStep,
+  conn: EasyConnect,
+  schemas: () => Promise<CollectionSchemas>,
+  addLog: RunLaunchPlanParams["addLog"],
+  pipeline: TxPipelineOptions,
+): Promise<StepOutcome> {
+  const { token } = plan.spec;
+  const symbol = token.token.symbol;
+
+  if (step.kind === "deploy") {
+    const res = await deployCarbonToken({
+      conn,
+      ownerAddress: plan.wallet,
+      symbol,
+      name: token.metadata.name,
+      isNFT: true,
+      decimals: 0,
+      maxSupply: BigInt(token.token.maxSupply),
+      metadata: {
+        name: token.metadata.name,
+        icon: token.metadata.icon,
+        url: token.metadata.url,
+        description: token.metadata.description,
+        ...token.metadata.extra,
+      },
+      tokenSchemasJson: JSON.stringify(token.tokenSchemas),
+      feeOptions: new CreateTokenFeeOptions(
+        BigInt(token.fees.gasFeeBase),
+        BigInt(token.fees.gasFeeCreateTokenBase),
+        BigInt(token.fees.gasFeeCreateTokenSymbol),
+        BigInt(token.fees.feeMultiplier),
+      ),
+      maxData: BigInt(token.fees.maxData),
+      addLog,
+      pipeline,
+    });
+    if (!res.success) return res;
+    return {
+      success: true,
+      carbonTokenId: typeof res.tokenId === "number" ? BigInt(res.tokenId) : await lookupCarbonTokenId(symbol),
+    };
+  }
+
+  const carbonTokenId = requireCarbonTokenId(plan);
+  const seriesIndex = step.seriesIndex ?? 0;
+  const seriesSpec = plan.spec.series[seriesIndex];
+
+  if (step.kind === "series") {
+    const res = await createSeries({
+      conn,
+      carbonTokenId,
+      seriesSchema: (await schemas()).series,
+      seriesValues: seriesSpec.values,
+      romHex: seriesSpec.romHex,
+      feeOptions: new CreateSeriesFeeOptions(
+        BigInt(SERIES_FEE_DEFAULTS.gasFeeBase),
+        BigInt(SERIES_FEE_DEFAULTS.gasFeeCreateSeriesBase),
+        BigInt(SERIES_FEE_DEFAULTS.feeMultiplier),
+      ),
+      maxData: DEFAULT_SERIES_MAX_DATA,
+      addLog,
+      pipeline,
+    });
+    if (!res.success) return res;
+    return {
+      success: true,
+      seriesId: typeof res.seriesId === "number" ? res.seriesId : await lookupNewSeriesId(plan, carbonTokenId),
+    };
+  }
+
+  const carbonSeriesId = plan.seriesIds[seriesIndex];
+  if (carbonSeriesId === null || carbonSeriesId === undefined) {
+    throw new Error(`Series ${seriesIndex + 1} has not been created yet`);
+  }
+  const mintSpec = seriesSpec.mints[step.mintIndex ?? 0];
+  const { rom, ram } = await schemas();
+  const res = await mintNft({
+    conn,
+    carbonTokenId,
+    carbonSeriesId,
+    destinationAddress: mintSpec.destination ?? undefined,
+    romSchema: rom,
+    metadataValues: mintSpec.values,
+    romHex: mintSpec.romHex,
+    ramSchema: ram,
+    ramValues: mintSpec.ram,
+    feeOptions: new MintNftFeeOptions(BigInt(NFT_FEE_DEFAULTS.gasFeeBase), BigInt(NFT_FEE_DEFAULTS.feeMultiplier)),
+    maxData: DEFAULT_NFT_MAX_DATA,
+    addLog,
+    pipeline,
+  });
+  return res.success ? { success: true } : res;
+}
+
+// Picks up a step whose tx was broadcast but never seen confirmed, instead of sending it again.
+async function recoverStep(
+  plan: LaunchPlan,
+  step: LaunchStep,
+  txHash: string,
+  addLog: RunLaunchPlanParams["addLog"],
+  pipeline: TxPipelineOptions,
+): Promise<StepOutcome> {
+  addLog?.("[launch] Checking transaction of an interrupted step", { txHash, kind: step.kind });
+  const confirmation = await waitForTransactionConfirmation(createApi(), txHash, {
+    ...DEFAULT_CONFIRMATION_OPTIONS,
+    signal: pipeline.signal,
+  });
+  if (confirmation.status === "failure") {
+    return { success: false, error: `Transaction ${txHash} failed: ${confirmation.message ?? "execution failed"}`, txHash };
+  }
+  if (confirmation.status !== "success") {
+    return { success: false, error: `Transaction ${txHash} is not confirmed yet`, txHash, unconfirmed: true };
+  }
+  const result = typeof confirmation.tx.result === "string" ? confirmation.tx.result : "";
+  if (step.kind === "deploy") {
+    let tokenId: number | undefined;
+    try {
+      tokenId = result ? CreateTokenTxHelper.parseResult(result) : undefined;
+    } catch {
+      tokenId = undefined;
+    }
+    return {
+      success: true,
+      carbonTokenId: tokenId !== undefined ? BigInt(tokenId) : await lookupCarbonTokenId(plan.spec.token.token.symbol),
+    };
+  }
+  if (step.kind === "series") {
+    let seriesId: number | undefined;
+    try {
+      seriesId = result ? CreateTokenSeriesTxHelper.parseResult(result) : undefined;
+    } catch {
+      seriesId = undefined;
+    }
+    return { success: true, seriesId: seriesId ?? (await lookupNewSeriesId(plan, requireCarbonTokenId(plan))) };
+  }
+  return { success: true };
+}
+
+// Runs the plan's remaining steps in order and stops at the first one that does not complete.
+// Calling it again resumes from that step; completed steps are never sent twice.
+export async function runLaunchPlan(params: RunLaunchPlanParams): Promise<RunLaunchPlanResult> {
+  const { planId, conn, addLog } = params;
+  const initial = getLaunchPlan(planId);
+  if (!initial) {
+    return { success: false, error: "Launch plan not found" };
+  }
+  if (runningPlans.has(planId)) {
+    return { success: false, error: "This launch plan is already running" };
+  }
+  const signer = conn?.link?.account?.address;
+  if (!signer || signer !== initial.wallet) {
+    return { success: false, error: `This plan belongs to ${initial.wallet}; connect that wallet to run it` };
+  }
+  if (getActiveNetwork().id !== initial.networkId) {
+    return { success: false, error: "This plan was created on another network; switch back to run it" };
+  }
+
+  const symbol = initial.spec.token.token.symbol;
+  let schemasPromise: Promise<CollectionSchemas> | null = null;
+  const schemas = () => {
+    schemasPromise ??= loadCollectionSchemas(symbol).catch((err: unknown) => {
+      schemasPromise = null;
+      throw err;
+    });
+    return schemasPromise;
+  };
+
+  runningPlans.add(planId);
+  try {
+    for (let index = 0; index < initial.steps.length; index++) {
+      const plan = getLaunchPlan(planId);
+      if (!plan) {
+        return { success: false, error: "Launch plan was removed" };
+      }
+      const step = plan.steps[index];
+      if (step.status === "done") continue;
+      if (params.pipeline?.signal?.aborted) {
+        addLog?.("[launch] Plan paused", { planId, step: index });
+        return { success: false, error: "Launch paused" };
+      }
+
+      const recoverHash =
+        step.txHash && (step.status === "unconfirmed" || step.status === "running") ? step.txHash : null;
+      updateStep(planId, index, { status: "running", error: null });
+      addLog?.("[launch] Running step", { planId, step: index, kind: step.kind, resume: !!recoverHash });
+
+      // The hash is stored as soon as the wallet hands it over, so a reload mid-confirmation
+      // resumes by checking that tx.
+      const pipeline: TxPipelineOptions = {
+        ...params.pipeline,
+        tokenSymbol: symbol,
+        onEvent: (event) => {
+          if (event.stage === "signed") updateStep(planId, index, { txHash: event.txHash });
+          params.pipeline?.onEvent?.(event);
+        },
+      };
+
+      let outcome: StepOutcome;
+      try {
+        outcome = recoverHash
+          ? await recoverStep(plan, step, recoverHash, addLog, pipeline)
+          : await executeStep(plan, step, conn, schemas, addLog, pipeline);
+      } catch (err: unknown) {
+        outcome = { success: false, error: toMessage(err) };
+      }
+
+      if (!outcome.success) {
+        updateStep(planId, index, {
+          status: outcome.unconfirmed ? "unconfirmed" : "failed",
+          error: outcome.error,
+          ...(outcome.txHash ? { txHash: outcome.txHash } : {}),
+        });
+        addLog?.("[launch] Step stopped", { planId, step: index, kind: step.kind, error: outcome.error });
+        return outcome;
+      }
+
+      const { carbonTokenId, seriesId } = outcome;
+      updatePlan(planId, (current) => ({
+        ...current,
+        carbonTokenId: carbonTokenId !== undefined ? carbonTokenId.toString() : current.carbonTokenId,
+        seriesIds:
+          seriesId !== undefined
+            ? current.seriesIds.map((id, i) => (i === step.seriesIndex ? seriesId : id))
+            : current.seriesIds,
+        steps: current.steps.map((entry, i) => (i === index ? { ...entry, status: "done", error: null } : entry)),
+      }));
+      addLog?.("[launch] Step completed", {
+        planId,
+        step: index,
+        kind: step.kind,
+        carbonTokenId: carbonTokenId?.toString(),
+        seriesId,
+      });
+    }
+    return { success: true };
+  } finally {
+    runningPlans.delete(planId);
+    listeners.forEach((listener) => listener());
+  }
+}
@@ -10,7 +10,6 @@ import {
   MetadataField,
   NftRomBuilder,
   SmallString,
-  TransactionData,
   TxMsg,
   TxMsgMintFungible,
   TxTypes,
@@ -21,16 +20,25 @@ import {
   getRandomPhantasmaId,
 } from "phantasma-sdk-ts";
 
-import { createApi } from "./api";
-import { ensureError, toMessage } from "./errors";
-import { waitForTransactionConfirmation } from "./tx";
-import { extractPublicKeyBytes, isWalletSignResult } from "./wallet";
+import { toMessage } from "./errors";
+import {
+  runCarbonTransaction,
+  toActionFailure,
+  type TxActionFailure,
+  type TxPipelineOptions,
+} from "./pipeline";
+import { queryKeys } from "./queryCache";
+import { computeTxExpiry } from "./txExpiry";
+import type { TxBuildResult } from "./txSize";
+import { extractPublicKeyBytes } from "./wallet";
 import { parseHexBytes, parseVmMetadataValue } from "./metadata";
 
 export type MintNftParams = {
   conn: EasyConnect;
   carbonTokenId: bigint;
   carbonSeriesId: number;
+  // Recipient of the NFT; blank or omitted mints to the signer.
+  destinationAddress?: string;
   romSchema: VmStructSchema;
   metadataValues: Record<string, string>;
   romHex: string;
@@ -40,6 +48,7 @@ export type MintNftParams = {
   maxData?: bigint;
   expiry?: bigint | null;
   addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
 };
 
 export type MintNftResult =
@@ -50,13 +59,45 @@ export type MintNftResult =
       phantasmaNftId: string;
       result?: unknown;
     }
-  | { success: false; error: string };
+  | TxActionFailure;
 
-export async function mintNft(params: MintNftParams): Promise<MintNftResult> {
+export type BuildMintNftTxParams = Omit<MintNftParams, "conn" | "pipeline"> & {
+  senderPublicKey: Bytes32;
+};
+
+// Resolves a recipient address to the public key Carbon messages address it by.
+function parseDestinationPublicKey(
+  destinationAddress: string,
+): { success: true; publicKey: Bytes32 } | { success: false; error: string } {
+  let receiverAddress: Address;
+  try {
+    receiverAddress = Address.FromText(destinationAddress);
+  } catch (err: unknown) {
+    return {
+      success: false,
+      error: `Invalid destination address: ${toMessage(err)}`,
+    };
+  }
+
+  const receiverPk = receiverAddress.GetPublicKey();
+  if (!receiverPk || receiverPk.length !== 32) {
+    return {
+      success: false,
+      error: "Destination address is missing a valid 32-byte public key",
+    };
+  }
+
+  return { success: true, publicKey: new Bytes32(receiverPk) };
+}
+
+export async function buildMintNftTx(
+  params: BuildMintNftTxParams,
+): Promise<TxBuildResult<{ phantasmaNftId: bigint; destinationAddress: string | null }>> {
   const {
-    conn,
+    senderPublicKey: senderPk,
     carbonTokenId,
     carbonSeriesId,
+    destinationAddress,
     romSchema,
     metadataValues,
     romHex,
@@ -68,13 +109,20 @@ export async function mintNft(params: MintNftParams): Promise<MintNftResult> {
     addLog,
   } = params;
 
-  if (!conn) {
-    return { success: false, error: "Wallet connection (conn) is required" };
-  }
   if (!romSchema) {
     return { success: false, error: "romSchema is required" };
   }
 
+  const trimmedAddress = destinationAddress?.trim() ?? "";
+  let receiverPk = senderPk;
+  if (trimmedAddress) {
+    const receiver = parseDestinationPublicKey(trimmedAddress);
+    if (!receiver.success) {
+      return receiver;
+    }
+    receiverPk = receiver.publicKey;
+  }
+
   let romBytes: Uint8Array;
   try {
     romBytes = parseHexBytes(romHex, "rom");
@@ -154,17 +202,12 @@ export async function mintNft(params: MintNftParams): Promise<MintNftResult> {
     return { success: false, error: `Failed to serialize ROM metadata: ${toMessage(err)}` };
   }
 
-  const publicKeyBytes = extractPublicKeyBytes(conn);
-  const senderPk = new Bytes32(publicKeyBytes);
-  const receiverPk = senderPk; // Mint to self for now
-
   const effectiveFee = feeOptions ?? new MintNftFeeOptions();
   const normalizedMaxData = maxData ?? 0n;
-  const expiryValue = expiry ?? undefined;
+  const expiryValue = expiry ?? computeTxExpiry();
 
-  let txMsg;
   try {
-    txMsg = MintNonFungibleTxHelper.buildTx(
+    const txMsg = MintNonFungibleTxHelper.buildTx(
       carbonTokenId,
       Number(carbonSeriesId),
       senderPk,
@@ -175,84 +218,75 @@ export async function mintNft(params: MintNftParams): Promise<MintNftResult> {
       normalizedMaxData,
       expiryValue,
     );
+    return { success: true, txMsg, phantasmaNftId, destinationAddress: trimmedAddress || null };
   } catch (err: unknown) {
     return { success: false, error: `Failed to build mint transaction: ${toMessage(err)}` };
   }
+}
 
-  addLog?.("[mint] Requesting wallet signature", { carbonSeriesId, carbonTokenId: String(carbonTokenId) });
+export async function mintNft(params: MintNftParams): Promise<MintNftResult> {
+  const { conn, carbonTokenId, carbonSeriesId, addLog, pipeline } = params;
 
-  let walletResult: { hash: string; id: number; success: boolean };
-  try {
-    walletResult = await new Promise<{ hash: string; id: number; success: boolean }>((resolve, reject) => {
-      conn.signCarbonTransaction(
-        txMsg,
-        (res: unknown) => {
-          if (!isWalletSignResult(res)) {
-            reject(new Error("Unexpected wallet response"));
-            return;
-          }
-          if (res.success === false) {
-            reject(new Error(res.error || "Wallet rejected transaction"));
-            return;
-          }
-          resolve({ hash: res.hash, id: res.id, success: true });
-        },
-        (err: unknown) => {
-          reject(ensureError(err));
-        },
-      );
-    });
-  } catch (err: unknown) {
-    return { success: false, error: toMessage(err) || "Wallet rejected transaction" };
+  if (!conn) {
+    return { success: false, error: "Wallet connection (conn) is required" };
   }
 
-  const txHash = walletResult.hash;
-  let carbonNftAddresses: string[] | undefined;
-
-  if (txHash) {
-    const api = createApi();
-    const confirmation = await waitForTransactionConfirmation(api, txHash, {
-      maxAttempts: 30,
-      delayMs: 1000,
-      failureDetailAttempts: 6,
-    });
-
-    if (confirmation.status === "success") {
-      const txInfo = (confirmation as { status: "success"; tx: TransactionData }).tx;
-      if (typeof txInfo?.result === "string") {
-        try {
-      const parsed = MintNonFungibleTxHelper.parseResult(
-        carbonTokenId,
-        txInfo.result,
-      );
-          carbonNftAddresses = parsed.map((addr) => addr?.ToHex?.() ?? "");
-        } catch {
-          carbonNftAddresses = undefined;
-        }
-      }
-    } else if (confirmation.status === "failure") {
-      const failure = confirmation as { status: "failure"; tx: TransactionData; message?: string };
-      const message = failure.message
-        ? failure.message
-        : "Transaction execution failed";
-      return { success: false, error: `Transaction ${txHash} failed: ${message}` };
-    } else {
-      return { success: false, error: `Transaction ${txHash} confirmation timed out` };
-    }
+  const built = await buildMintNftTx({
+    ...params,
+    senderPublicKey: new Bytes32(extractPublicKeyBytes(conn)),
+  });
+  if (!built.success) {
+    return built;
+  }
+  const { txMsg, phantasmaNftId, destinationAddress } = built;
+  const recipientAddress = destinationAddress ?? conn.link?.account?.address;
+
+  const outcome = await runCarbonTransaction({
+    conn,
+    txMsg,
+    parseResult: (tx) =>
+      typeof tx?.result === "string"
+        ? MintNonFungibleTxHelper.parseResult(carbonTokenId, tx.result).map((addr) => addr?.ToHex?.() ?? "")
+        : undefined,
+    logTag: "mint",
+    addLog,
+    pipeline,
+    journal: {
+      operation: "mint_nft",
+      summary: {
+        carbonTokenId: carbonTokenId.toString(),
+        carbonSeriesId: String(carbonSeriesId),
+        phantasmaNftId: phantasmaNftId.toString(),
+        ...(destinationAddress ? { destination: destinationAddress } : {}),
+      },
+    },
+    // Series mint counters, NFT listings of the token and the recipient's holdings change.
+    invalidates: [
+      queryKeys.tokenSeries(carbonTokenId),
+      queryKeys.tokenNfts(carbonTokenId),
+      ...(recipientAddress ? [queryKeys.account(recipientAddress)] : []),
+    ],
+  });
+  if (!outcome.success) {
+    return toActionFailure(outcome);
   }
 
+  const txHash = outcome.txHash;
+  const carbonNftAddresses = outcome.parsed;
+
   addLog?.("[mint] Mint transaction submitted", {
     txHash,
+    destinationAddress: recipientAddress,
     carbonNftAddresses,
     phantasmaNftId: phantasmaNftId.toString(),
   });
 
   return {
     success: true,
-    txHash: txHash || "pending",
+    txHash,
     carbonNftAddresses,
     phantasmaNftId: phantasmaNftId.toString(),
-    result: walletResult,
+    result: outcome.walletResult,
   };
 }
 
@@ -265,32 +299,40 @@ export type MintFungibleParams = {
   maxData?: bigint;
   expiry?: bigint | null;
   addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
 };
 
 export type MintFungibleResult =
   | { success: true; txHash: string; result?: unknown }
-  | { success: false; error: string };
+  | TxActionFailure;
 
-export async function mintFungible(params: MintFungibleParams): Promise<MintFungibleResult> {
-  const { conn, carbonTokenId, destinationAddress, amount, feeOptions, maxData, expiry, addLog } = params;
+export type BuildMintFungibleTxParams = Omit<MintFungibleParams, "conn" | "pipeline"> & {
+  senderPublicKey: Bytes32;
+};
+
+export function buildMintFungibleTx(
+  params: BuildMintFungibleTxParams,
+): TxBuildResult<{ destinationAddress: string; amount: bigint }> {
+  const {
+    senderPublicKey: senderPk,
+    carbonTokenId,
+    destinationAddress,
+    amount,
+    feeOptions,
+    maxData,
+    expiry,
+    addLog,
+  } = params;
 
-  if (!conn) {
-    return { success: false, error: "Wallet connection (conn) is required" };
-  }
   const tokenId = carbonTokenId;
   const trimmedAddress = destinationAddress?.trim() ?? "";
   if (!trimmedAddress) {
     return { success: false, error: "Destination address is required" };
   }
 
-  let receiverAddress: Address;
-  try {
-    receiverAddress = Address.FromText(trimmedAddress);
-  } catch (err: unknown) {
-    return {
-      success: false,
-      error: `Invalid destination address: ${toMessage(err)}`,
-    };
+  const receiver = parseDestinationPublicKey(trimmedAddress);
+  if (!receiver.success) {
+    return receiver;
   }
 
   let amountValue: bigint;
@@ -310,31 +352,19 @@ export async function mintFungible(params: MintFungibleParams): Promise<MintFung
     return { success: false, error: `Amount cannot be encoded: ${toMessage(err)}` };
   }
 
-  const receiverPk = receiverAddress.GetPublicKey();
-  if (!receiverPk || receiverPk.length !== 32) {
-    return {
-      success: false,
-      error: "Destination address is missing a valid 32-byte public key",
-    };
-  }
-
-  const senderPkBytes = extractPublicKeyBytes(conn);
-  const senderPk = new Bytes32(senderPkBytes);
-  const recipientPk = new Bytes32(receiverPk);
-
   const normalizedMaxData = maxData ?? 0n;
-  const expiryValue = expiry ?? undefined;
+  const expiryValue = expiry ?? computeTxExpiry();
 
   const fees = feeOptions ?? new FeeOptions();
 
   const mintMsg = new TxMsgMintFungible();
   mintMsg.tokenId = tokenId;
-  mintMsg.to = recipientPk;
+  mintMsg.to = receiver.publicKey;
   mintMsg.amount = amountIntX;
 
   const txMsg = new TxMsg();
   txMsg.type = TxTypes.MintFungible;
-  txMsg.expiry = expiryValue ?? BigInt(Date.now() + 60_000);
+  txMsg.expiry = expiryValue;
   txMsg.maxGas = fees.calculateMaxGas();
   txMsg.maxData = normalizedMaxData;
   txMsg.gasFrom = senderPk;
@@ -349,67 +379,55 @@ export async function mintFungible(params: MintFungibleParams): Promise<MintFung
     expiry: txMsg.expiry.toString(),
   });
 
-  let walletResult: { hash: string; id: number; success: boolean };
-  try {
-    walletResult = await new Promise<{ hash: string; id: number; success: boolean }>((resolve, reject) => {
-      conn.signCarbonTransaction(
-        txMsg,
-        (res: unknown) => {
-          if (!isWalletSignResult(res)) {
-            reject(new Error("Unexpected wallet response"));
-            return;
-          }
-          if (res.success === false) {
-            reject(new Error(res.error || "Wallet rejected transaction"));
-            return;
-          }
-          resolve({ hash: res.hash, id: res.id, success: true });
-        },
-        (err: unknown) => {
-          reject(ensureError(err));
-        },
-      );
-    });
-  } catch (err: unknown) {
-    return {
-      success: false,
-      error: toMessage(err) || "Wallet rejected transaction",
-    };
+  return { success: true, txMsg, destinationAddress: trimmedAddress, amount: amountValue };
+}
+
+export async function mintFungible(params: MintFungibleParams): Promise<MintFungibleResult> {
+  const { conn, carbonTokenId: tokenId, addLog, pipeline } = params;
+
+  if (!conn) {
+    return { success: false, error: "Wallet connection (conn) is required" };
   }
 
-  const txHash = walletResult.hash;
-
-  if (txHash) {
-    const api = createApi();
-    const confirmation = await waitForTransactionConfirmation(api, txHash, {
-      maxAttempts: 30,
-      delayMs: 1000,
-      failureDetailAttempts: 6,
-    });
-
-    if (confirmation.status === "failure") {
-      const failure = confirmation as { status: "failure"; tx: TransactionData; message?: string };
-      const message = failure.message
-        ? failure.message
-        : "Transaction execution failed";
-      return { success: false, error: `Transaction ${txHash} failed: ${message}` };
-    }
+  const built = buildMintFungibleTx({
+    ...params,
+    senderPublicKey: new Bytes32(extractPublicKeyBytes(conn)),
+  });
+  if (!built.success) {
+    return built;
+  }
+  const { txMsg, destinationAddress: trimmedAddress, amount: amountValue } = built;
 
-    if (confirmation.status !== "success") {
-      return { success: false, error: `Transaction ${txHash} confirmation timed out` };
-    }
+  const outcome = await runCarbonTransaction({
+    conn,
+    txMsg,
+    logTag: "mint",
+    addLog,
+    pipeline,
+    journal: {
+      operation: "mint_fungible",
+      summary: {
+        carbonTokenId: tokenId.toString(),
+        destination: trimmedAddress,
+        amount: amountValue.toString(),
+      },
+    },
+    invalidates: [queryKeys.account(trimmedAddress)],
+  });
+  if (!outcome.success) {
+    return toActionFailure(outcome);
   }
 
   addLog?.("[mint] Fungible mint transaction submitted", {
     tokenId: tokenId.toString(),
     destinationAddress: trimmedAddress,
     amount: amountValue.toString(),
-    txHash: txHash || "pending",
+    txHash: outcome.txHash,
   });
 
   return {
     success: true,
-    txHash: txHash || "pending",
-    result: walletResult,
+    txHash: outcome.txHash,
+    result: outcome.walletResult,
   };
 }
@@ -0,0 +1,360 @@
+// Runtime network selection. The build-time env values stay available as the "default"
+// profile; the active choice and user-defined profiles are kept in localStorage.
+
+// Block explorer URL per identifier kind; see explorer.ts for the placeholders. An empty
+// template means the explorer has no page for that kind.
+export type ExplorerTemplates = {
+  tx: string;
+  address: string;
+  token: string;
+  nft: string;
+};
+
+export type NetworkProfile = {
+  id: string;
+  label: string;
+  rpcUrl: string;
+  nexus: string;
+  // Tried in order after `rpcUrl` when it is unreachable; see rpcHealth.ts.
+  fallbackRpcUrls?: string[];
+  explorer?: ExplorerTemplates;
+  custom?: boolean;
+};
+
+export type AddNetworkResult = { success: true; profile: NetworkProfile } | { success: false; error: string };
+export type SetExplorerResult = { success: true } | { success: false; error: string };
+
+export const EXPLORER_PLACEHOLDERS: Record<keyof ExplorerTemplates, string[]> = {
+  tx: ["{hash}"],
+  address: ["{address}"],
+  token: ["{symbol}"],
+  nft: ["{id}", "{symbol}"],
+};
+
+// Templates of the Phantasma explorer at `baseUrl` (e.g. https://explorer.phantasma.info/en).
+export function phantasmaExplorerTemplates(baseUrl: string): ExplorerTemplates {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  return {
+    tx: `${base}/transaction?id={hash}`,
+    address: `${base}/address?id={address}`,
+    token: `${base}/token?id={symbol}`,
+    nft: `${base}/nft?id={id}&s={symbol}`,
+  };
+}
+
+const MAINNET_EXPLORER = phantasmaExplorerTemplates("https://explorer.phantasma.info/en");
+const TESTNET_EXPLORER = phantasmaExplorerTemplates("https://test-explorer.phantasma.info/en");
+
+// NEXT_PUBLIC_API_URL may list several comma-separated endpoints; the first one is preferred.
+const ENV_RPC_URLS = splitRpcUrls(process.env.NEXT_PUBLIC_API_URL || "http://localhost:5172/rpc");
+const ENV_NEXUS = (process.env.NEXT_PUBLIC_PHANTASMA_NEXUS as string) || "testnet";
+
+// NEXT_PUBLIC_EXPLORER_URL overrides the public explorer of the build's nexus.
+const ENV_EXPLORER_URL = process.env.NEXT_PUBLIC_EXPLORER_URL;
+
+function defaultExplorerFor(nexus: string): ExplorerTemplates | undefined {
+  if (nexus === "mainnet") return MAINNET_EXPLORER;
+  if (nexus === "testnet") return TESTNET_EXPLORER;
+  return undefined;
+}
+
+export const DEFAULT_NETWORK: NetworkProfile = {
+  id: "default",
+  label: "Build default",
+  rpcUrl: ENV_RPC_URLS[0] ?? "http://localhost:5172/rpc",
+  nexus: ENV_NEXUS,
+  fallbackRpcUrls: ENV_RPC_URLS.slice(1),
+  explorer: ENV_EXPLORER_URL ? phantasmaExplorerTemplates(ENV_EXPLORER_URL) : defaultExplorerFor(ENV_NEXUS),
+};
+
+// Served in-process by sandbox.ts together with a stand-in wallet; nothing leaves the browser.
+export const SANDBOX_NETWORK: NetworkProfile = {
+  id: "sandbox",
+  label: "Sandbox (offline)",
+  rpcUrl: "sandbox://local",
+  nexus: "sandbox",
+};
+
+export const BUILT_IN_NETWORKS: NetworkProfile[] = [
+  DEFAULT_NETWORK,
+  {
+    id: "mainnet",
+    label: "Mainnet",
+    rpcUrl: "https://pharpc1.phantasma.info/rpc",
+    nexus: "mainnet",
+    explorer: MAINNET_EXPLORER,
+  },
+  {
+    id: "testnet",
+    label: "Testnet",
+    rpcUrl: "https://testnet.phantasma.info/rpc",
+    nexus: "testnet",
+    explorer: TESTNET_EXPLORER,
+  },
+  SANDBOX_NETWORK,
+];
+
+export function splitRpcUrls(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+// Ordered, de-duplicated endpoint list of a profile.
+export function networkEndpoints(profile: Pick<NetworkProfile, "rpcUrl" | "fallbackRpcUrls">): string[] {
+  return Array.from(new Set([profile.rpcUrl, ...(profile.fallbackRpcUrls ?? [])]));
+}
+
+// Profile matching a recorded rpcUrl/nexus pair, so journal polling keeps its fallbacks.
+export function findNetworkProfile(rpcUrl: string, nexus: string): NetworkProfile | undefined {
+  return listNetworkProfiles().find((profile) => profile.rpcUrl === rpcUrl && profile.nexus === nexus);
+}
+
+type NetworkState = {
+  activeId: string;
+  custom: NetworkProfile[];
+  // User-edited explorer templates by profile id; they replace the profile's own.
+  explorers: Record<string, ExplorerTemplates>;
+};
+
+const STORAGE_KEY = "phantasma.network.v1";
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function hasStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+function readState(): NetworkState {
+  const fallback: NetworkState = { activeId: DEFAULT_NETWORK.id, custom: [], explorers: {} };
+  if (!hasStorage()) return fallback;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw) as Partial<NetworkState>;
+    return {
+      activeId: typeof parsed.activeId === "string" ? parsed.activeId : fallback.activeId,
+      custom: Array.isArray(parsed.custom) ? parsed.custom.map((profile) => ({ ...profile, custom: true })) : [],
+      explorers: parsed.explorers && typeof parsed.explorers === "object" ? parsed.explorers : {},
+    };
+  } catch (err) {
+    console.warn("[warn] Failed to read network settings", err);
+    return fallback;
+  }
+}
+
+// Cached so getActiveNetwork()/listNetworkProfiles() return stable objects between changes
+// (useSyncExternalStore compares snapshots by reference).
+let state: NetworkState | null = null;
+let active: NetworkProfile | null = null;
+let profiles: NetworkProfile[] | null = null;
+
+function currentState(): NetworkState {
+  if (!state) state = readState();
+  return state;
+}
+
+function resolveActive(): NetworkProfile {
+  const all = listNetworkProfiles();
+  return all.find((profile) => profile.id === currentState().activeId) ?? all[0];
+}
+
+function withExplorerOverride(profile: NetworkProfile, current: NetworkState): NetworkProfile {
+  const explorer = current.explorers[profile.id];
+  return explorer ? { ...profile, explorer } : profile;
+}
+
+function notify() {
+  active = null;
+  profiles = null;
+  listeners.forEach((listener) => listener());
+}
+
+function writeState(next: NetworkState) {
+  state = next;
+  if (hasStorage()) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.warn("[warn] Failed to persist network settings", err);
+    }
+  }
+  notify();
+}
+
+export function getActiveNetwork(): NetworkProfile {
+  if (!active) active = resolveActive();
+  return active;
+}
+
+export function listNetworkProfiles(): NetworkProfile[] {
+  if (!profiles) {
+    const current = currentState();
+    profiles = [...BUILT_IN_NETWORKS, ...current.custom].map((profile) => withExplorerOverride(profile, current));
+  }
+  return profiles;
+}
+
+// The SDK picks mainnet nodes from a changing list of phantasma.info hosts (pharpc1, pharpc2,
+// ...), so the whole family counts; only hosts named as test nodes are left out.
+function isPublicMainnetRpcUrl(rpcUrl: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(rpcUrl.trim()).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  if (hostname !== "phantasma.info" && !hostname.endsWith(".phantasma.info")) return false;
+  return !/test|dev|sim/.test(hostname);
+}
+
+// Guards the dev signer, so it errs on the side of "mainnet": any nexus spelling of it, and any
+// profile that talks to a public mainnet node whatever nexus it claims. devSigner.ts also asks
+// the node itself, since a custom host can serve mainnet under any name.
+export function isMainnetProfile(profile: Pick<NetworkProfile, "nexus" | "rpcUrl" | "fallbackRpcUrls">): boolean {
+  if (profile.nexus.trim().toLowerCase() === "mainnet") return true;
+  return networkEndpoints(profile).some(isPublicMainnetRpcUrl);
+}
+
+export function isSandboxRpcUrl(rpcUrl: string): boolean {
+  return rpcUrl.startsWith("sandbox:");
+}
+
+export function isSandboxProfile(profile: Pick<NetworkProfile, "rpcUrl">): boolean {
+  return isSandboxRpcUrl(profile.rpcUrl);
+}
+
+export function setActiveNetwork(id: string) {
+  const current = currentState();
+  if (current.activeId === id) return;
+  if (!listNetworkProfiles().some((profile) => profile.id === id)) return;
+  writeState({ ...current, activeId: id });
+}
+
+function validateRpcUrl(rpcUrl: string): string | null {
+  try {
+    const url = new URL(rpcUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return `RPC URL must use http or https: ${rpcUrl}`;
+    }
+    return null;
+  } catch {
+    return `RPC URL is invalid: ${rpcUrl || "(empty)"}`;
+  }
+}
+
+export function addCustomNetwork(input: {
+  label: string;
+  rpcUrl: string;
+  nexus: string;
+  fallbackRpcUrls?: string[];
+}): AddNetworkResult {
+  const label = input.label.trim();
+  const rpcUrl = input.rpcUrl.trim();
+  // Nexus names are lower case on chain; storing them that way keeps the mainnet check reliable.
+  const nexus = input.nexus.trim().toLowerCase();
+  const fallbackRpcUrls = (input.fallbackRpcUrls ?? []).map((url) => url.trim()).filter((url) => url && url !== rpcUrl);
+  if (!label) return { success: false, error: "Name is required" };
+  if (!nexus) return { success: false, error: "Nexus is required" };
+  for (const url of [rpcUrl, ...fallbackRpcUrls]) {
+    const error = validateRpcUrl(url);
+    if (error) return { success: false, error };
+  }
+  const current = currentState();
+  if (listNetworkProfiles().some((profile) => profile.rpcUrl === rpcUrl && profile.nexus === nexus)) {
+    return { success: false, error: "A network with this RPC URL and nexus already exists" };
+  }
+  const profile: NetworkProfile = {
+    id: `custom-${Date.now().toString(36)}`,
+    label,
+    rpcUrl,
+    nexus,
+    fallbackRpcUrls,
+    custom: true,
+  };
+  writeState({ ...current, custom: [...current.custom, profile] });
+  return { success: true, profile };
+}
+
+function withoutExplorer(explorers: Record<string, ExplorerTemplates>, id: string): Record<string, ExplorerTemplates> {
+  const next = { ...explorers };
+  delete next[id];
+  return next;
+}
+
+// Removing the active profile falls back to the build default.
+export function removeCustomNetwork(id: string) {
+  const current = currentState();
+  if (!current.custom.some((profile) => profile.id === id)) return;
+  writeState({
+    activeId: current.activeId === id ? DEFAULT_NETWORK.id : current.activeId,
+    custom: current.custom.filter((profile) => profile.id !== id),
+    explorers: withoutExplorer(current.explorers, id),
+  });
+}
+
+export function validateExplorerTemplates(templates: ExplorerTemplates): string | null {
+  for (const kind of Object.keys(EXPLORER_PLACEHOLDERS) as (keyof ExplorerTemplates)[]) {
+    const template = templates[kind].trim();
+    if (!template) continue;
+    const required = EXPLORER_PLACEHOLDERS[kind][0];
+    if (!template.includes(required)) {
+      return `The ${kind} template must contain ${required}`;
+    }
+    try {
+      const url = new URL(template.replace(/\{\w+\}/g, "x"));
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return `The ${kind} template must use http or https`;
+      }
+    } catch {
+      return `The ${kind} template is not a valid URL`;
+    }
+  }
+  return null;
+}
+
+// Pass null to go back to the profile's own templates.
+export function setExplorerTemplates(id: string, templates: ExplorerTemplates | null): SetExplorerResult {
+  const current = currentState();
+  if (!listNetworkProfiles().some((profile) => profile.id === id)) {
+    return { success: false, error: "Unknown network" };
+  }
+  const explorers = withoutExplorer(current.explorers, id);
+  if (!templates) {
+    writeState({ ...current, explorers });
+    return { success: true };
+  }
+  const trimmed: ExplorerTemplates = {
+    tx: templates.tx.trim(),
+    address: templates.address.trim(),
+    token: templates.token.trim(),
+    nft: templates.nft.trim(),
+  };
+  const error = validateExplorerTemplates(trimmed);
+  if (error) return { success: false, error };
+  writeState({ ...current, explorers: { ...explorers, [id]: trimmed } });
+  return { success: true };
+}
+
+export function subscribeNetwork(listener: Listener): () => void {
+  listeners.add(listener);
+  // Keep tabs in sync: switching in one tab switches the others.
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    state = null;
+    active = null;
+    profiles = null;
+    listener();
+  };
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", onStorage);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
@@ -0,0 +1,534 @@
+import { EasyConnect, TransactionData, TxMsg } from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { evaluateFeePreflight, formatFeePreflightError, getFeeBalances } from "./balances";
+import { classifyTxError, createTxError, ensureError, rpcErrorOf, toMessage, type TxErrorInfo, type TxErrorKind } from "./errors";
+import { waitForTransactionConfirmation, type WaitForTransactionOptions } from "./tx";
+import { describeTxMsg, type TxPreview } from "./txPreview";
+import {
+  getTxJournalEntry,
+  listTxJournal,
+  recordTxJournalEntry,
+  updateTxJournalEntry,
+  type TxJournalEntry,
+  type TxJournalOperation,
+} from "./txJournal";
+import { formatTxExpiry, isTxExpiryPassed, labelExpiryFailure } from "./txExpiry";
+import { formatTxSizeError, measureTxMsg } from "./txSize";
+import { findNetworkProfile, getActiveNetwork, type NetworkProfile } from "./network";
+import { invalidateQueries, queryKeys } from "./queryCache";
+import { isWalletSignResult, type WalletSignResult } from "./wallet";
+import { captureWalletSession, describeWalletSessionChange, isTxFromOtherAccount } from "./walletSession";
+
+export type TxLifecycleStage =
+  | "built"
+  | "awaiting_signature"
+  | "signed"
+  | "broadcast"
+  | "confirming"
+  | "confirmed"
+  | "failed"
+  | "unconfirmed";
+
+// What to do with a broadcast tx that did not confirm within the polling window.
+// "check_later" keeps it pending in the journal, "give_up" marks it abandoned; neither is a failure.
+export type UnconfirmedDecision = "keep_waiting" | "check_later" | "give_up";
+
+export type TxLifecycleEvent =
+  | { stage: "built"; txMsg: TxMsg }
+  | { stage: "awaiting_signature" }
+  | { stage: "signed"; txHash: string }
+  | { stage: "broadcast"; txHash: string }
+  | { stage: "confirming"; txHash: string; attempt: number; maxAttempts: number; nextDelayMs: number }
+  | { stage: "confirmed"; txHash: string; tx: TransactionData }
+  | { stage: "failed"; txHash?: string; error: string; errorInfo: TxErrorInfo }
+  // Without resolution the pipeline is waiting for onUnconfirmed to decide.
+  | { stage: "unconfirmed"; txHash: string; resolution?: Exclude<UnconfirmedDecision, "keep_waiting"> };
+
+export type TxLifecycleListener = (event: TxLifecycleEvent) => void;
+
+// Caller-side hooks into the pipeline. Every action accepts these through its `pipeline` param
+// so the UI can follow progress without each action re-implementing the plumbing.
+export type TxPipelineOptions = {
+  onEvent?: TxLifecycleListener;
+  // Token label recorded in the transaction journal when the action itself only knows carbon ids.
+  tokenSymbol?: string;
+  // Aborting stops confirmation polling; the tx is then treated as unconfirmed ("check later").
+  signal?: AbortSignal;
+  // Asked every time a polling window ends without a final state. Defaults to "check_later".
+  onUnconfirmed?: (txHash: string) => Promise<UnconfirmedDecision>;
+  confirmation?: WaitForTransactionOptions;
+  // Shown the decoded tx before the wallet is asked to sign; resolving false cancels the action.
+  reviewTx?: (preview: TxPreview, txMsg: TxMsg) => Promise<boolean>;
+  // Non-fatal problems worth showing next to the progress (e.g. the wallet answered after expiry).
+  onWarning?: (message: string) => void;
+};
+
+export type CarbonTxOutcome<T> =
+  | { success: true; txHash: string; parsed?: T; tx: TransactionData; walletResult: WalletSignResult }
+  | { success: false; error: string; errorInfo: TxErrorInfo; txHash?: string; unconfirmed?: boolean };
+
+// Failure shape shared by every action result. `unconfirmed` marks a broadcast tx whose outcome
+// is still unknown; callers should not report it as failed. Input checks done by the actions
+// themselves leave `errorInfo` unset; `classifyTxError(error)` covers those.
+export type TxActionFailure = {
+  success: false;
+  error: string;
+  errorInfo?: TxErrorInfo;
+  txHash?: string;
+  unconfirmed?: boolean;
+};
+
+export function toActionFailure(outcome: {
+  error: string;
+  errorInfo?: TxErrorInfo;
+  txHash?: string;
+  unconfirmed?: boolean;
+}): TxActionFailure {
+  return {
+    success: false,
+    error: outcome.error,
+    errorInfo: outcome.errorInfo,
+    txHash: outcome.txHash,
+    unconfirmed: outcome.unconfirmed,
+  };
+}
+
+export type RunCarbonTxParams<T> = {
+  conn: EasyConnect;
+  txMsg: TxMsg;
+  // Decodes the executed tx result; a throwing parser is logged and treated as "no result".
+  parseResult?: (tx: TransactionData) => T | undefined;
+  logTag?: string;
+  addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
+  journal?: {
+    operation: TxJournalOperation;
+    tokenSymbol?: string;
+    summary?: Record<string, string>;
+  };
+  // Query cache prefixes (see queryKeys) to reload once the tx confirms. The token of the
+  // journal entry is always included.
+  invalidates?: string[];
+};
+
+export const DEFAULT_CONFIRMATION_OPTIONS: WaitForTransactionOptions = {
+  maxAttempts: 15,
+  delayMs: 1000,
+  backoffFactor: 1.5,
+  maxDelayMs: 8000,
+  failureDetailAttempts: 6,
+};
+
+function emit(pipeline: TxPipelineOptions | undefined, event: TxLifecycleEvent) {
+  try {
+    pipeline?.onEvent?.(event);
+  } catch (err) {
+    console.warn("[warn] Transaction lifecycle listener threw", err);
+  }
+}
+
+function warn(pipeline: TxPipelineOptions | undefined, message: string) {
+  try {
+    pipeline?.onWarning?.(message);
+  } catch (err) {
+    console.warn("[warn] Transaction warning listener threw", err);
+  }
+}
+
+// Wallet sign + broadcast wrapped into a promise. Link broadcasts on success, so a resolved
+// result means the tx has been handed to the node.
+export function signWithWallet(conn: EasyConnect, txMsg: TxMsg): Promise<WalletSignResult> {
+  return new Promise<WalletSignResult>((resolve, reject) => {
+    try {
+      conn.signCarbonTransaction(
+        txMsg,
+        (res: unknown) => {
+          if (!isWalletSignResult(res)) {
+            reject(new Error("Unexpected wallet response"));
+            return;
+          }
+          if (res.success === false) {
+            reject(new Error(res.error || "Wallet rejected transaction"));
+            return;
+          }
+          if (!res.hash) {
+            reject(new Error("Wallet did not return a transaction hash"));
+            return;
+          }
+          resolve({ hash: res.hash, id: res.id, success: true });
+        },
+        (err: unknown) => {
+          reject(ensureError(err));
+        },
+      );
+    } catch (inner) {
+      reject(ensureError(inner));
+    }
+  });
+}
+
+export async function runCarbonTransaction<T>(params: RunCarbonTxParams<T>): Promise<CarbonTxOutcome<T>> {
+  const { conn, txMsg, parseResult, logTag = "tx", addLog, pipeline, journal, invalidates } = params;
+  // Pinned for the whole run: switching networks mid-flight must not move the polling elsewhere.
+  const network = getActiveNetwork();
+  const session = captureWalletSession(conn);
+
+  const fail = (errorInfo: TxErrorInfo): CarbonTxOutcome<T> => {
+    const error = errorInfo.message;
+    emit(pipeline, { stage: "failed", error, errorInfo });
+    return { success: false, error, errorInfo };
+  };
+
+  if (!conn) {
+    return fail(createTxError("wallet_unavailable", "Wallet connection (conn) is required"));
+  }
+
+  emit(pipeline, { stage: "built", txMsg });
+
+  // Link rejects oversized txs with an opaque error, so stop before the wallet is involved.
+  let sizeReport;
+  try {
+    sizeReport = measureTxMsg(txMsg);
+  } catch (err: unknown) {
+    return fail(createTxError("encoding_failure", `Failed to serialize transaction: ${toMessage(err)}`));
+  }
+  if (!sizeReport.withinLimit) {
+    addLog?.(`[${logTag}] Transaction exceeds Link size limit`, sizeReport);
+    return fail(createTxError("encoding_failure", formatTxSizeError(sizeReport)));
+  }
+
+  // Link gives no hint when the payer cannot cover the fee limits, so check balances first.
+  // An unreachable RPC only downgrades this to a warning; the node still has the final say.
+  const payer = conn.link?.account?.address;
+  if (payer) {
+    try {
+      const preflight = evaluateFeePreflight(await getFeeBalances(payer), {
+        maxGas: txMsg.maxGas,
+        maxData: txMsg.maxData,
+      });
+      if (!preflight.ok) {
+        const error = formatFeePreflightError(preflight);
+        addLog?.(`[${logTag}] Fee preflight failed`, { payer, error });
+        return fail(createTxError("insufficient_funds", error));
+      }
+    } catch (err: unknown) {
+      addLog?.(`[${logTag}] Fee preflight skipped`, { payer, error: toMessage(err) });
+      warn(pipeline, `Could not check KCAL/SOUL balances: ${toMessage(err)}`);
+    }
+  }
+
+  if (pipeline?.reviewTx) {
+    let approved = false;
+    try {
+      approved = await pipeline.reviewTx(describeTxMsg(txMsg), txMsg);
+    } catch (err: unknown) {
+      return fail(createTxError("encoding_failure", `Failed to prepare transaction preview: ${toMessage(err)}`));
+    }
+    if (!approved) {
+      addLog?.(`[${logTag}] Transaction cancelled at review`);
+      return fail(createTxError("wallet_rejected", "Transaction cancelled before signing"));
+    }
+  }
+
+  // Asking Link to sign a tx the node will reject anyway only wastes the user's approval.
+  if (isTxExpiryPassed(txMsg.expiry)) {
+    return fail(
+      createTxError(
+        "invalid_input",
+        `Transaction expired at ${formatTxExpiry(txMsg.expiry)} before it was sent to the wallet. Pick a longer expiry and submit again.`,
+      ),
+    );
+  }
+
+  // The form, fee check and review may have taken a while; Link could have switched accounts
+  // (or the user the network) meanwhile, and the tx would then be signed by another key.
+  const sessionChange = describeWalletSessionChange(session, captureWalletSession(conn));
+  if (sessionChange || isTxFromOtherAccount(txMsg, conn)) {
+    const error = sessionChange
+      ? `${sessionChange} since this transaction was prepared. Nothing was signed; review the form and submit again.`
+      : "The transaction was prepared for a different account than the one connected in Phantasma Link. Nothing was signed; review the form and submit again.";
+    addLog?.(`[${logTag}] Wallet session changed before signing`, { before: session, error });
+    return fail(createTxError("session_changed", error));
+  }
+
+  emit(pipeline, { stage: "awaiting_signature" });
+  addLog?.(`[${logTag}] Requesting wallet signature`, { type: txMsg.type });
+
+  let walletResult: WalletSignResult;
+  try {
+    walletResult = await signWithWallet(conn, txMsg);
+  } catch (err: unknown) {
+    // Link reports refusals and missing/locked wallets through the same callback.
+    return fail(classifyTxError(labelExpiryFailure(toMessage(err) || "Wallet rejected transaction"), "wallet_rejected"));
+  }
+
+  const txHash = walletResult.hash;
+  const signedChange = describeWalletSessionChange(session, captureWalletSession(conn));
+  if (signedChange) {
+    const message = `${signedChange} while the wallet was open; the network rejects the tx if another account signed it.`;
+    addLog?.(`[${logTag}] ${message}`, { txHash, before: session });
+    warn(pipeline, message);
+  }
+  if (isTxExpiryPassed(txMsg.expiry)) {
+    const message = `The wallet returned after the transaction expiry (${formatTxExpiry(txMsg.expiry)}); the network will likely reject it.`;
+    addLog?.(`[${logTag}] ${message}`, { txHash, expiry: txMsg.expiry.toString() });
+    warn(pipeline, message);
+  }
+  emit(pipeline, { stage: "signed", txHash });
+  emit(pipeline, { stage: "broadcast", txHash });
+  addLog?.(`[${logTag}] Transaction broadcast`, { txHash });
+
+  if (journal) {
+    recordTxJournalEntry({
+      txHash,
+      operation: journal.operation,
+      tokenSymbol: journal.tokenSymbol ?? pipeline?.tokenSymbol,
+      summary: journal.summary ?? {},
+      wallet: conn.link?.account?.address ?? "",
+      nexus: network.nexus,
+      rpcUrl: network.rpcUrl,
+    });
+  }
+
+  const confirmed = await confirmBroadcastTransaction({
+    txHash,
+    network,
+    parseResult,
+    logTag,
+    addLog,
+    pipeline,
+    journal,
+    invalidates,
+  });
+  if (!confirmed.success) {
+    return confirmed;
+  }
+  return { ...confirmed, walletResult };
+}
+
+export type BroadcastSignedTxParams<T> = {
+  signedTxHex: string;
+  // Address recorded as the journal wallet; for offline signing this is the signer, not Link.
+  signer: string;
+  parseResult?: (tx: TransactionData) => T | undefined;
+  logTag?: string;
+  addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
+  journal?: RunCarbonTxParams<T>["journal"];
+  invalidates?: string[];
+  // Expiry of the signed message; a rejection after it has passed is reported as an expiry failure.
+  expiry?: bigint;
+};
+
+export type BroadcastTxOutcome<T> = ConfirmationOutcome<T>;
+
+// Submission path for transactions signed outside the browser (air-gapped keys): the blob is
+// sent straight to the node and then tracked exactly like a wallet-signed tx.
+export async function broadcastSignedTransaction<T>(
+  params: BroadcastSignedTxParams<T>,
+): Promise<BroadcastTxOutcome<T>> {
+  const { signedTxHex, signer, parseResult, logTag = "broadcast", addLog, pipeline, journal, invalidates, expiry } =
+    params;
+  const network = getActiveNetwork();
+
+  addLog?.(`[${logTag}] Sending signed transaction`, { bytes: signedTxHex.length / 2 });
+  let txHash: string;
+  try {
+    const response: unknown = await createApi(network).sendCarbonTransaction(signedTxHex);
+    const rpcError = rpcErrorOf(response);
+    if (rpcError !== null) {
+      throw new Error(rpcError);
+    }
+    if (typeof response !== "string" || !response) {
+      throw new Error("Node did not return a transaction hash");
+    }
+    txHash = response;
+  } catch (err: unknown) {
+    const errorInfo = classifyTxError(labelExpiryFailure(`Broadcast failed: ${toMessage(err)}`, expiry), "rpc_unreachable");
+    emit(pipeline, { stage: "failed", error: errorInfo.message, errorInfo });
+    return { success: false, error: errorInfo.message, errorInfo };
+  }
+
+  emit(pipeline, { stage: "broadcast", txHash });
+  addLog?.(`[${logTag}] Transaction broadcast`, { txHash });
+
+  if (journal) {
+    recordTxJournalEntry({
+      txHash,
+      operation: journal.operation,
+      tokenSymbol: journal.tokenSymbol ?? pipeline?.tokenSymbol,
+      summary: journal.summary ?? {},
+      wallet: signer,
+      nexus: network.nexus,
+      rpcUrl: network.rpcUrl,
+    });
+  }
+
+  return confirmBroadcastTransaction({ txHash, network, parseResult, logTag, addLog, pipeline, journal, invalidates });
+}
+
+type ConfirmationOutcome<T> =
+  | { success: true; txHash: string; parsed?: T; tx: TransactionData }
+  | { success: false; error: string; errorInfo: TxErrorInfo; txHash?: string; unconfirmed?: boolean };
+
+// Shared tail of every submission path: polls a broadcast tx until it lands, asking the caller
+// what to do when the polling window runs out, and keeps the journal entry in sync.
+async function confirmBroadcastTransaction<T>(params: {
+  txHash: string;
+  network: NetworkProfile;
+  parseResult?: (tx: TransactionData) => T | undefined;
+  logTag: string;
+  addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
+  journal?: RunCarbonTxParams<T>["journal"];
+  invalidates?: string[];
+}): Promise<ConfirmationOutcome<T>> {
+  const { txHash, network, parseResult, logTag, addLog, pipeline, journal } = params;
+  const invalidates = withTokenQuery(params.invalidates, journal?.tokenSymbol ?? pipeline?.tokenSymbol);
+
+  const fail = (kind: TxErrorKind, error: string): ConfirmationOutcome<T> => {
+    if (journal) {
+      updateTxJournalEntry(txHash, { status: "failed", error });
+    }
+    const errorInfo = createTxError(kind, error);
+    emit(pipeline, { stage: "failed", txHash, error, errorInfo });
+    return { success: false, error, errorInfo, txHash };
+  };
+
+  const api = createApi(network);
+  const waitOptions: WaitForTransactionOptions = {
+    ...DEFAULT_CONFIRMATION_OPTIONS,
+    ...pipeline?.confirmation,
+    signal: pipeline?.signal,
+  };
+  const maxAttempts = waitOptions.maxAttempts ?? 1;
+
+  let confirmation;
+  while (true) {
+    confirmation = await waitForTransactionConfirmation(api, txHash, {
+      ...waitOptions,
+      onAttempt: (attempt, nextDelayMs) =>
+        emit(pipeline, { stage: "confirming", txHash, attempt, maxAttempts, nextDelayMs }),
+    });
+    if (confirmation.status === "success" || confirmation.status === "failure") {
+      break;
+    }
+
+    let decision: UnconfirmedDecision = "check_later";
+    if (confirmation.status === "timeout" && pipeline?.onUnconfirmed) {
+      emit(pipeline, { stage: "unconfirmed", txHash });
+      try {
+        decision = await pipeline.onUnconfirmed(txHash);
+      } catch {
+        decision = "check_later";
+      }
+    }
+    if (decision === "keep_waiting" && !pipeline?.signal?.aborted) {
+      addLog?.(`[${logTag}] Still unconfirmed, polling again`, { txHash });
+      continue;
+    }
+
+    // "check_later" leaves the journal entry pending so it is re-polled on the next start.
+    if (decision === "give_up" && journal) {
+      updateTxJournalEntry(txHash, { status: "abandoned" });
+    }
+    if (invalidates.length > 0) {
+      pendingInvalidations.set(txHash, invalidates);
+    }
+    const resolution = decision === "give_up" ? "give_up" : "check_later";
+    addLog?.(`[${logTag}] Transaction left unconfirmed`, { txHash, resolution });
+    emit(pipeline, { stage: "unconfirmed", txHash, resolution });
+    const error = `Transaction ${txHash} is not confirmed yet`;
+    return {
+      success: false,
+      unconfirmed: true,
+      txHash,
+      error,
+      errorInfo: createTxError("confirmation_timeout", error),
+    };
+  }
+
+  if (confirmation.status === "failure") {
+    const message = confirmation.message ?? "Transaction execution failed";
+    return fail("vm_failure", labelExpiryFailure(`Transaction ${txHash} failed: ${message}`));
+  }
+
+  const tx = confirmation.tx;
+  let parsed: T | undefined;
+  if (parseResult) {
+    try {
+      parsed = parseResult(tx);
+    } catch (err: unknown) {
+      addLog?.(`[${logTag}] Failed to parse transaction result`, { txHash, error: toMessage(err) });
+      parsed = undefined;
+    }
+  }
+
+  if (journal) {
+    updateTxJournalEntry(txHash, { status: "confirmed", result: tx.result });
+  }
+  invalidateQueries(invalidates);
+  emit(pipeline, { stage: "confirmed", txHash, tx });
+  return { success: true, txHash, parsed, tx };
+}
+
+const pollingHashes = new Set<string>();
+// Cache prefixes of txs left unconfirmed in this session, applied when a later poll confirms them.
+const pendingInvalidations = new Map<string, string[]>();
+
+function withTokenQuery(invalidates: string[] | undefined, tokenSymbol: string | undefined): string[] {
+  const keys = [...(invalidates ?? [])];
+  if (tokenSymbol?.trim()) keys.push(queryKeys.token(tokenSymbol));
+  return keys;
+}
+
+// Polls through the RPC the tx was sent to (and its fallbacks when the profile still exists),
+// which may differ from the active network.
+async function pollJournalEntry(
+  entry: TxJournalEntry,
+  addLog?: (message: string, data?: unknown) => void,
+): Promise<void> {
+  if (pollingHashes.has(entry.txHash)) return;
+  pollingHashes.add(entry.txHash);
+  try {
+    addLog?.("[journal] Polling transaction", { txHash: entry.txHash, operation: entry.operation });
+    const api = createApi(
+      findNetworkProfile(entry.rpcUrl, entry.nexus) ?? { rpcUrl: entry.rpcUrl, nexus: entry.nexus },
+    );
+    const confirmation = await waitForTransactionConfirmation(api, entry.txHash, DEFAULT_CONFIRMATION_OPTIONS);
+    if (confirmation.status === "success") {
+      updateTxJournalEntry(entry.txHash, { status: "confirmed", result: confirmation.tx.result });
+      invalidateQueries(withTokenQuery(pendingInvalidations.get(entry.txHash), entry.tokenSymbol));
+      pendingInvalidations.delete(entry.txHash);
+    } else if (confirmation.status === "failure") {
+      const message = confirmation.message ?? "Transaction execution failed";
+      updateTxJournalEntry(entry.txHash, { status: "failed", error: message });
+      pendingInvalidations.delete(entry.txHash);
+    }
+    addLog?.("[journal] Polling finished", { txHash: entry.txHash, status: confirmation.status });
+  } finally {
+    pollingHashes.delete(entry.txHash);
+  }
+}
+
+// Re-polls journal entries that were still pending when the app was closed. Only entries
+// of the current nexus are resumed; each hash is polled at most once at a time.
+export async function resumePendingTransactions(
+  addLog?: (message: string, data?: unknown) => void,
+): Promise<void> {
+  const pending = listTxJournal({ nexus: getActiveNetwork().nexus }).filter((entry) => entry.status === "pending");
+  if (pending.length === 0) return;
+
+  await Promise.all(pending.map((entry) => pollJournalEntry(entry, addLog)));
+}
+
+// Manual "check again" for a single journal entry, including ones the user gave up on.
+export async function recheckJournalTransaction(
+  txHash: string,
+  addLog?: (message: string, data?: unknown) => void,
+): Promise<void> {
+  const entry = getTxJournalEntry(txHash);
+  if (!entry) return;
+  await pollJournalEntry(entry, addLog);
+}
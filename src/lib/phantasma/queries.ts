@@ -0,0 +1,67 @@
+import type { Token } from "phantasma-sdk-ts";
+
+import {
+  listAccountNfts,
+  listAccountOwnedSeries,
+  listAccountOwnedTokens,
+  listTokenNfts,
+  type ListAccountNftsParams,
+  type ListAccountOwnedSeriesParams,
+  type ListAccountOwnedSeriesResult,
+  type ListAccountOwnedTokensParams,
+  type ListAccountOwnedTokensResult,
+  type ListTokenNftsParams,
+  type ListTokenNftsResult,
+} from "./nfts";
+import { cachedQuery, queryKeys, type QueryOptions } from "./queryCache";
+import { listTokenSeries, type TokenSeriesListItem } from "./series";
+import { getTokenExtended, getTokens } from "./tokens";
+
+// Cached variants of the token, series and NFT reads (see queryCache.ts). Tabs read through
+// these; the plain functions stay available for one-off, always-fresh reads.
+
+export function queryTokenExtended(symbol: string, options?: QueryOptions): Promise<Token> {
+  return cachedQuery(queryKeys.token(symbol), () => getTokenExtended(symbol), options);
+}
+
+export function queryTokenSeries(
+  symbol: string,
+  carbonTokenId: bigint,
+  options?: QueryOptions,
+): Promise<TokenSeriesListItem[]> {
+  return cachedQuery(queryKeys.tokenSeries(carbonTokenId), () => listTokenSeries(symbol, carbonTokenId), options);
+}
+
+export function queryTokenNfts(params: ListTokenNftsParams, options?: QueryOptions): Promise<ListTokenNftsResult> {
+  const { carbonTokenId, carbonSeriesId = 0, pageSize = 10, cursor = "", extended = true } = params;
+  const key = `${queryKeys.tokenNfts(carbonTokenId, carbonSeriesId)}${pageSize}:${extended}:${cursor}`;
+  return cachedQuery(key, () => listTokenNfts(params), options);
+}
+
+export function queryAccountTokens(ownerAddress: string, options?: QueryOptions): Promise<Token[]> {
+  return cachedQuery(`${queryKeys.account(ownerAddress)}tokens`, () => getTokens(ownerAddress), options);
+}
+
+export function queryAccountOwnedTokens(
+  params: ListAccountOwnedTokensParams,
+  options?: QueryOptions,
+): Promise<ListAccountOwnedTokensResult> {
+  const { account, pageSize = 50, cursor = "" } = params;
+  const key = `${queryKeys.account(account)}owned-tokens:${pageSize}:${cursor}`;
+  return cachedQuery(key, () => listAccountOwnedTokens(params), options);
+}
+
+export function queryAccountOwnedSeries(
+  params: ListAccountOwnedSeriesParams,
+  options?: QueryOptions,
+): Promise<ListAccountOwnedSeriesResult> {
+  const { account, carbonTokenId = 0n, pageSize = 50, cursor = "" } = params;
+  const key = `${queryKeys.account(account)}owned-series:${carbonTokenId.toString()}:${pageSize}:${cursor}`;
+  return cachedQuery(key, () => listAccountOwnedSeries(params), options);
+}
+
+export function queryAccountNfts(params: ListAccountNftsParams, options?: QueryOptions): Promise<ListTokenNftsResult> {
+  const { account, carbonTokenId = 0n, carbonSeriesId = 0, pageSize = 10, cursor = "", extended = true } = params;
+  const key = `${queryKeys.account(account)}nfts:${carbonTokenId.toString()}:${carbonSeriesId}:${pageSize}:${extended}:${cursor}`;
+  return cachedQuery(key, () => listAccountNfts(params), options);
+}
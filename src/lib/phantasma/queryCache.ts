@@ -0,0 +1,139 @@
+import { getActiveNetwork } from "./network";
+
+// Shared cache for RPC reads. Concurrent requests for the same key share one promise, values
+// older than `staleMs` are served while a background refresh runs, and invalidated entries are
+// always refetched. Keys are scoped to the active network.
+
+export type QueryOptions = {
+  // Age after which a cached value is refreshed in the background. Defaults to 30s.
+  staleMs?: number;
+  // Skip the cached value (a request already in flight is still shared).
+  force?: boolean;
+};
+
+// Cache keys are ":"-terminated segments, so each builder with fewer arguments is a prefix
+// covering everything below it (e.g. all NFT pages of one token).
+export const queryKeys = {
+  token: (symbol: string) => `token:${symbol.trim().toUpperCase()}:`,
+  tokenSeries: (carbonTokenId: bigint) => `series:${carbonTokenId.toString()}:`,
+  tokenNfts: (carbonTokenId: bigint, carbonSeriesId?: number) =>
+    `nfts:${carbonTokenId.toString()}:${carbonSeriesId === undefined ? "" : `${carbonSeriesId}:`}`,
+  account: (address: string) => `account:${address.trim()}:`,
+  // Every token on the network (symbol lookups, look-alike checks).
+  allTokens: () => "tokens:",
+};
+
+type QueryEntry = {
+  value?: unknown;
+  hasValue: boolean;
+  fetchedAt: number;
+  invalidated: boolean;
+  promise?: Promise<unknown>;
+};
+
+type QueryListener = (key: string) => void;
+
+const DEFAULT_STALE_MS = 30_000;
+const MAX_ENTRIES = 300;
+
+const entries = new Map<string, QueryEntry>();
+const subscriptions = new Set<{ prefix: string; listener: QueryListener }>();
+
+function scopedKey(key: string): string {
+  const { nexus, rpcUrl } = getActiveNetwork();
+  return `${nexus}|${rpcUrl}|${key}`;
+}
+
+function unscopedKey(scoped: string): string {
+  return scoped.split("|").slice(2).join("|");
+}
+
+// `key` may itself be a prefix (invalidation), so either side can be the broader one.
+function notify(key: string) {
+  subscriptions.forEach(({ prefix, listener }) => {
+    if (key.startsWith(prefix) || prefix.startsWith(key)) listener(key);
+  });
+}
+
+function evictOldest() {
+  if (entries.size <= MAX_ENTRIES) return;
+  const oldest = [...entries.entries()]
+    .filter(([, entry]) => !entry.promise)
+    .sort((a, b) => a[1].fetchedAt - b[1].fetchedAt)
+    .slice(0, entries.size - MAX_ENTRIES);
+  oldest.forEach(([key]) => entries.delete(key));
+}
+
+function startFetch<T>(scoped: string, fetcher: () => Promise<T>, background: boolean): Promise<T> {
+  const entry: QueryEntry = entries.get(scoped) ?? { hasValue: false, fetchedAt: 0, invalidated: false };
+  const promise = fetcher().then(
+    (value) => {
+      const current = entries.get(scoped);
+      if (current?.promise === promise) {
+        entries.set(scoped, { value, hasValue: true, fetchedAt: Date.now(), invalidated: false });
+        evictOldest();
+        // Foreground callers get the value from the promise; only background refreshes notify.
+        if (background) notify(unscopedKey(scoped));
+      }
+      return value;
+    },
+    (err: unknown) => {
+      const current = entries.get(scoped);
+      if (current?.promise === promise) {
+        if (current.hasValue) {
+          entries.set(scoped, { ...current, promise: undefined });
+        } else {
+          entries.delete(scoped);
+        }
+      }
+      throw err;
+    },
+  );
+  entries.set(scoped, { ...entry, promise });
+  return promise;
+}
+
+export function cachedQuery<T>(key: string, fetcher: () => Promise<T>, options?: QueryOptions): Promise<T> {
+  const scoped = scopedKey(key);
+  const entry = entries.get(scoped);
+  if (entry?.promise && (!entry.hasValue || entry.invalidated || options?.force)) {
+    return entry.promise as Promise<T>;
+  }
+  if (entry?.hasValue && !entry.invalidated && !options?.force) {
+    const staleMs = options?.staleMs ?? DEFAULT_STALE_MS;
+    if (Date.now() - entry.fetchedAt > staleMs && !entry.promise) {
+      void startFetch(scoped, fetcher, true).catch((err) =>
+        console.warn(`[warn] Background refresh of ${key} failed`, err),
+      );
+    }
+    return Promise.resolve(entry.value as T);
+  }
+  return startFetch(scoped, fetcher, false);
+}
+
+// Marks every entry whose key starts with one of `prefixes` for refetch (on any network) and
+// tells subscribers, which reload only what they show.
+export function invalidateQueries(prefixes: string[]) {
+  if (prefixes.length === 0) return;
+  entries.forEach((entry, scoped) => {
+    const key = unscopedKey(scoped);
+    if (!prefixes.some((prefix) => key.startsWith(prefix))) return;
+    // Drop an in-flight request so the next read fetches again instead of sharing stale data.
+    entries.set(scoped, { ...entry, invalidated: true, promise: undefined });
+  });
+  new Set(prefixes).forEach((prefix) => notify(prefix));
+}
+
+export function clearQueryCache() {
+  entries.clear();
+}
+
+// Called when an entry under `prefix` is refreshed in the background or an overlapping prefix is
+// invalidated; re-reading the query then returns the new value.
+export function subscribeQuery(prefix: string, listener: QueryListener): () => void {
+  const subscription = { prefix, listener };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
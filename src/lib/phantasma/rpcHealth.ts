@@ -0,0 +1,188 @@
+import { PhantasmaAPI } from "phantasma-sdk-ts";
+
+import { toMessage } from "./errors";
+import { isSandboxRpcUrl, networkEndpoints, type NetworkProfile } from "./network";
+import { createSandboxApi } from "./sandbox";
+
+// Health of every RPC endpoint the app talks to, shared by createApi() (failover order) and
+// the status indicator. Endpoints are keyed by URL, so profiles sharing a node share its state.
+
+export type RpcEndpointStatus = "unknown" | "healthy" | "lagging" | "down";
+
+export type RpcEndpointHealth = {
+  url: string;
+  status: RpcEndpointStatus;
+  latencyMs: number | null;
+  blockHeight: number | null;
+  checkedAt: number | null;
+  error?: string;
+};
+
+export type RpcHealthSnapshot = {
+  endpoints: Record<string, RpcEndpointHealth>;
+  // Endpoint currently serving requests, per network (see networkKey()).
+  serving: Record<string, string>;
+};
+
+type NetworkEndpoints = Pick<NetworkProfile, "rpcUrl" | "nexus" | "fallbackRpcUrls">;
+
+export const RPC_HEALTH_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+// A node this many blocks behind the best one is not preferred.
+const MAX_BLOCK_LAG = 5;
+
+const STATUS_RANK: Record<RpcEndpointStatus, number> = { healthy: 0, unknown: 1, lagging: 2, down: 3 };
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Replaced (never mutated) on every change; useSyncExternalStore compares by reference.
+let snapshot: RpcHealthSnapshot = { endpoints: {}, serving: {} };
+
+function networkKey(network: NetworkEndpoints): string {
+  return `${network.nexus}|${networkEndpoints(network).join(",")}`;
+}
+
+function emptyHealth(url: string): RpcEndpointHealth {
+  return { url, status: "unknown", latencyMs: null, blockHeight: null, checkedAt: null };
+}
+
+function update(endpoints: RpcEndpointHealth[], serving?: { key: string; url: string }) {
+  const nextEndpoints = { ...snapshot.endpoints };
+  endpoints.forEach((health) => {
+    nextEndpoints[health.url] = health;
+  });
+  snapshot = {
+    endpoints: nextEndpoints,
+    serving: serving ? { ...snapshot.serving, [serving.key]: serving.url } : snapshot.serving,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+export function getRpcHealthSnapshot(): RpcHealthSnapshot {
+  return snapshot;
+}
+
+export function subscribeRpcHealth(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getEndpointHealth(url: string): RpcEndpointHealth {
+  return snapshot.endpoints[url] ?? emptyHealth(url);
+}
+
+export function getServingEndpoint(network: NetworkEndpoints): string {
+  return snapshot.serving[networkKey(network)] ?? network.rpcUrl;
+}
+
+// Try order for a request: the serving endpoint first unless it is down, then the rest by
+// health, keeping the configured order between equally healthy endpoints.
+export function orderEndpoints(network: NetworkEndpoints): string[] {
+  const urls = networkEndpoints(network);
+  const serving = getServingEndpoint(network);
+  const rank = (url: string) => {
+    const status = getEndpointHealth(url).status;
+    if (url === serving && status !== "down") return -1;
+    return STATUS_RANK[status];
+  };
+  return urls
+    .map((url, index) => ({ url, index, rank: rank(url) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.url);
+}
+
+export function reportEndpointSuccess(network: NetworkEndpoints, url: string, latencyMs: number) {
+  const previous = getEndpointHealth(url);
+  // Nothing to report for the usual case; periodic checks keep latency and height fresh.
+  const known = previous.status === "healthy" || previous.status === "lagging";
+  if (known && getServingEndpoint(network) === url) return;
+  update(
+    [{ ...previous, status: previous.status === "lagging" ? "lagging" : "healthy", latencyMs, error: undefined }],
+    { key: networkKey(network), url },
+  );
+}
+
+export function reportEndpointFailure(network: NetworkEndpoints, url: string, err: unknown) {
+  const previous = getEndpointHealth(url);
+  console.warn(`[warn] RPC endpoint ${url} failed, trying the next one`, err);
+  update([{ ...previous, status: "down", error: toMessage(err), checkedAt: Date.now() }]);
+}
+
+// Network errors and non-JSON responses (proxies answering 502 with HTML) mean the node is
+// unusable; JSON-RPC errors come back as `{ error }` results and are left to the caller.
+async function probeEndpoint(url: string, nexus: string): Promise<RpcEndpointHealth> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const api = isSandboxRpcUrl(url) ? createSandboxApi() : new PhantasmaAPI(url, undefined, nexus);
+    const height = await Promise.race([
+      api.getBlockHeight("main"),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`No answer within ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`)),
+          HEALTH_CHECK_TIMEOUT_MS,
+        );
+      }),
+    ]);
+    const latencyMs = Date.now() - started;
+    const blockHeight = Number(height);
+    if (!Number.isFinite(blockHeight)) {
+      const error = (height as { error?: unknown } | null)?.error;
+      throw new Error(error ? `getBlockHeight failed: ${String(error)}` : "Unexpected getBlockHeight response");
+    }
+    return { url, status: "healthy", latencyMs, blockHeight, checkedAt: Date.now() };
+  } catch (err) {
+    return {
+      url,
+      status: "down",
+      latencyMs: null,
+      blockHeight: getEndpointHealth(url).blockHeight,
+      checkedAt: Date.now(),
+      error: toMessage(err),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Probes every endpoint of `network`, marks nodes behind the best height as lagging and moves
+// the serving endpoint only when the current one is no longer healthy (sticky preference).
+export async function checkNetworkHealth(network: NetworkEndpoints): Promise<RpcEndpointHealth[]> {
+  const results = await Promise.all(networkEndpoints(network).map((url) => probeEndpoint(url, network.nexus)));
+  const bestHeight = Math.max(0, ...results.map((health) => (health.status === "healthy" ? health.blockHeight ?? 0 : 0)));
+  const checked = results.map((health) =>
+    health.status === "healthy" && (health.blockHeight ?? 0) < bestHeight - MAX_BLOCK_LAG
+      ? { ...health, status: "lagging" as const }
+      : health,
+  );
+
+  const key = networkKey(network);
+  const current = checked.find((health) => health.url === getServingEndpoint(network));
+  let serving = current?.url ?? network.rpcUrl;
+  if (!current || current.status !== "healthy") {
+    const best = checked
+      .filter((health) => health.status === "healthy")
+      .sort((a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity))[0];
+    if (best) serving = best.url;
+  }
+  update(checked, { key, url: serving });
+  return checked;
+}
+
+// Periodic checks for one network; returns a stop function.
+export function startRpcHealthMonitor(network: NetworkEndpoints, intervalMs = RPC_HEALTH_INTERVAL_MS): () => void {
+  let stopped = false;
+  const run = () => {
+    if (stopped) return;
+    void checkNetworkHealth(network).catch((err) => console.warn("[warn] RPC health check failed", err));
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,695 @@
+import {
+  Bytes32,
+  CarbonBinaryReader,
+  CarbonBinaryWriter,
+  CarbonBlob,
+  CarbonTokenFlags,
+  DomainSettings,
+  EasyConnect,
+  ModuleId,
+  PhantasmaAPI,
+  SeriesInfo,
+  SignedTxMsg,
+  TokenContract_Methods,
+  TokenHelper,
+  TokenInfo,
+  TokenSchemas,
+  TxMsg,
+  TxMsgCall,
+  TxMsgCallMulti,
+  TxMsgMintFungible,
+  TxMsgMintNonFungible,
+  TxMsgTransferNonFungibleMulti,
+  TxMsgTransferNonFungibleSingle,
+  VmDynamicStruct,
+  VmStructSchema,
+  VmType,
+  bytesToHex,
+  hexToBytes,
+  type CursorPaginatedResult,
+  type EventExtended,
+  type KeyValue,
+  type NFT,
+  type Token,
+  type TokenSeriesResult,
+  type TransactionData,
+  type VmStructSchemaResult,
+} from "phantasma-sdk-ts";
+
+import { toMessage } from "./errors";
+import { SANDBOX_NETWORK } from "./network";
+import { addressFromPublicKey, type WalletSignResult } from "./wallet";
+
+// In-process stand-in for a Phantasma node and the Link wallet, selected through the "sandbox"
+// network profile. Signed messages are decoded and applied to in-memory state, so every tab
+// works offline against the same result encodings a real node returns. State lasts until the
+// page reloads.
+
+type SandboxToken = {
+  carbonId: bigint;
+  symbol: string;
+  decimals: number;
+  nonFungible: boolean;
+  maxSupply: bigint;
+  currentSupply: bigint;
+  owner: string;
+  metadata: KeyValue[];
+  schemas: TokenSchemas | null;
+};
+
+type SandboxSeries = {
+  carbonTokenId: bigint;
+  carbonSeriesId: number;
+  seriesId: string;
+  maxMint: number;
+  maxSupply: number;
+  minted: number;
+  owner: string;
+  metadata: KeyValue[];
+};
+
+type SandboxNft = {
+  carbonTokenId: bigint;
+  carbonSeriesId: number;
+  mintNumber: number;
+  instanceId: bigint;
+  address: string;
+  id: string;
+  owner: string;
+  creator: string;
+  rom: string;
+  ram: string;
+  properties: KeyValue[];
+  infusion: KeyValue[];
+  // Carbon address of the NFT this one was infused into.
+  infusedInto: string | null;
+};
+
+type AppliedMessage = { result: Uint8Array; events: EventExtended[] };
+
+const FIRST_CARBON_TOKEN_ID = 16n;
+// Fee balances of the sandbox wallet in base units (KCAL has 10 decimals, SOUL 8).
+const SANDBOX_KCAL_BALANCE = 1_000_000n * 10n ** 10n;
+const SANDBOX_SOUL_BALANCE = 1_000n * 10n ** 8n;
+
+const SANDBOX_WALLET_PUBLIC_KEY = hexToBytes("5d3a9c1e7b24f6088e1d4c2b9a7f3e5061c8d2a4b7e9f1035c6a8d2e4f7b9c13");
+export const SANDBOX_WALLET_ADDRESS = addressFromPublicKey(SANDBOX_WALLET_PUBLIC_KEY).Text;
+
+const state = {
+  nextTokenId: FIRST_CARBON_TOKEN_ID,
+  tokens: [] as SandboxToken[],
+  series: [] as SandboxSeries[],
+  nfts: [] as SandboxNft[],
+  // Fungible balances by address, then symbol.
+  balances: new Map<string, Map<string, bigint>>([
+    [
+      SANDBOX_WALLET_ADDRESS,
+      new Map([
+        [DomainSettings.FuelTokenSymbol, SANDBOX_KCAL_BALANCE],
+        [DomainSettings.StakingTokenSymbol, SANDBOX_SOUL_BALANCE],
+      ]),
+    ],
+  ]),
+  txs: new Map<string, TransactionData>(),
+  height: 1,
+};
+
+function addressText(key: Bytes32 | Uint8Array): string {
+  return addressFromPublicKey(key instanceof Bytes32 ? key.bytes : key).Text;
+}
+
+function randomHash(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return bytesToHex(bytes).toUpperCase();
+}
+
+function formatVmValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") return String(value);
+  if (value instanceof Uint8Array) return bytesToHex(value);
+  if (Array.isArray(value)) return value.map(formatVmValue).join(",");
+  const bytes = (value as { bytes?: unknown }).bytes;
+  if (bytes instanceof Uint8Array) return bytesToHex(bytes);
+  return String(value);
+}
+
+function readStruct(bytes: Uint8Array | undefined, schema?: VmStructSchema): KeyValue[] {
+  if (!bytes || bytes.length === 0) return [];
+  const struct = new VmDynamicStruct();
+  const reader = new CarbonBinaryReader(bytes);
+  if (schema) {
+    struct.readWithSchema(schema, reader);
+  } else {
+    struct.read(reader);
+  }
+  return struct.fields.map((field) => {
+    const data: unknown = field.value?.data;
+    // Ids are unsigned 256-bit numbers, but Int256 fields decode as signed.
+    if (field.name.data === "_i" && typeof data === "bigint" && data < 0n) {
+      return { key: "_i", value: (data + 2n ** 256n).toString() };
+    }
+    return { key: field.name.data, value: formatVmValue(data) };
+  });
+}
+
+function valueOf(entries: KeyValue[], key: string): string {
+  return entries.find((entry) => entry.key === key)?.value ?? "";
+}
+
+function balanceOf(address: string, symbol: string): bigint {
+  return state.balances.get(address)?.get(symbol) ?? 0n;
+}
+
+function addBalance(address: string, symbol: string, amount: bigint) {
+  const balances = state.balances.get(address) ?? new Map<string, bigint>();
+  balances.set(symbol, (balances.get(symbol) ?? 0n) + amount);
+  state.balances.set(address, balances);
+}
+
+function findToken(carbonTokenId: bigint): SandboxToken {
+  const token = state.tokens.find((entry) => entry.carbonId === carbonTokenId);
+  if (!token) throw new Error(`Token ${carbonTokenId} does not exist`);
+  return token;
+}
+
+function findTokenBySymbolOrId(symbol: unknown, carbonTokenId: unknown): SandboxToken | undefined {
+  const id = parseBigInt(carbonTokenId);
+  if (id) return state.tokens.find((token) => token.carbonId === id);
+  const normalized = String(symbol ?? "").trim().toUpperCase();
+  return state.tokens.find((token) => token.symbol === normalized);
+}
+
+function parseBigInt(value: unknown): bigint {
+  try {
+    return BigInt(String(value ?? "0") || "0");
+  } catch {
+    return 0n;
+  }
+}
+
+// ---- Message execution ----
+
+function createToken(info: TokenInfo, sender: string): AppliedMessage {
+  const symbol = info.symbol?.data ?? "";
+  if (!symbol) throw new Error("Token symbol is required");
+  if (state.tokens.some((token) => token.symbol === symbol)) throw new Error(`Token ${symbol} already exists`);
+  const owner = addressText(info.owner);
+  if (owner !== sender) throw new Error("Token owner must sign the transaction");
+  const nonFungible = (Number(info.flags) & CarbonTokenFlags.NonFungible) !== 0;
+  if (nonFungible && !info.tokenSchemas?.length) throw new Error("Non-fungible tokens require token schemas");
+
+  const token: SandboxToken = {
+    carbonId: state.nextTokenId,
+    symbol,
+    decimals: info.decimals,
+    nonFungible,
+    maxSupply: info.maxSupply?.toBigInt() ?? 0n,
+    currentSupply: 0n,
+    owner,
+    metadata: readStruct(info.metadata),
+    schemas: nonFungible ? TokenSchemas.read(new CarbonBinaryReader(info.tokenSchemas ?? new Uint8Array())) : null,
+  };
+  state.nextTokenId += 1n;
+  state.tokens.push(token);
+
+  const w = new CarbonBinaryWriter();
+  w.write4u(Number(token.carbonId));
+  return {
+    result: w.toUint8Array(),
+    events: [
+      {
+        address: owner,
+        contract: "token",
+        kind: "TokenCreate",
+        data: {
+          symbol,
+          maxSupply: token.maxSupply.toString(),
+          decimals: token.decimals,
+          isNonFungible: nonFungible,
+          carbonTokenId: token.carbonId.toString(),
+          metadata: Object.fromEntries(token.metadata.map((entry) => [entry.key, entry.value])),
+        },
+      },
+    ],
+  };
+}
+
+function createSeries(carbonTokenId: bigint, info: SeriesInfo, sender: string): AppliedMessage {
+  const token = findToken(carbonTokenId);
+  if (!token.nonFungible || !token.schemas) throw new Error(`Token ${token.symbol} is not an NFT token`);
+  if (token.owner !== sender) throw new Error(`Only the owner of ${token.symbol} can create series`);
+  const metadata = readStruct(info.metadata, token.schemas.seriesMetadata);
+  const carbonSeriesId = state.series.filter((entry) => entry.carbonTokenId === carbonTokenId).length + 1;
+  const series: SandboxSeries = {
+    carbonTokenId,
+    carbonSeriesId,
+    seriesId: valueOf(metadata, "_i") || String(carbonSeriesId),
+    maxMint: info.maxMint,
+    maxSupply: info.maxSupply,
+    minted: 0,
+    owner: addressText(info.owner),
+    metadata,
+  };
+  state.series.push(series);
+
+  const w = new CarbonBinaryWriter();
+  w.write4u(carbonSeriesId);
+  return {
+    result: w.toUint8Array(),
+    events: [
+      {
+        address: series.owner,
+        contract: "token",
+        kind: "TokenSeriesCreate",
+        data: {
+          symbol: token.symbol,
+          seriesId: series.seriesId,
+          maxMint: series.maxMint,
+          maxSupply: series.maxSupply,
+          owner: series.owner,
+          carbonTokenId: carbonTokenId.toString(),
+          carbonSeriesId,
+          metadata: Object.fromEntries(metadata.map((entry) => [entry.key, entry.value])),
+        },
+      },
+    ],
+  };
+}
+
+function mintNonFungible(msg: TxMsgMintNonFungible, sender: string): AppliedMessage {
+  const token = findToken(msg.tokenId);
+  if (!token.nonFungible || !token.schemas) throw new Error(`Token ${token.symbol} is not an NFT token`);
+  if (token.owner !== sender) throw new Error(`Only the owner of ${token.symbol} can mint`);
+  const series = state.series.find(
+    (entry) => entry.carbonTokenId === msg.tokenId && entry.carbonSeriesId === Number(msg.seriesId),
+  );
+  if (!series) throw new Error(`Series ${msg.seriesId} of ${token.symbol} does not exist`);
+  if (series.maxMint > 0 && series.minted >= series.maxMint) {
+    throw new Error(`Series ${series.carbonSeriesId} reached its mint limit of ${series.maxMint}`);
+  }
+  if (token.maxSupply > 0n && token.currentSupply >= token.maxSupply) {
+    throw new Error(`Token ${token.symbol} reached its max supply`);
+  }
+
+  const rom = readStruct(msg.rom, token.schemas.rom);
+  const ram = readStruct(msg.ram, token.schemas.ram);
+  series.minted += 1;
+  token.currentSupply += 1n;
+  const instanceId = BigInt(series.carbonSeriesId) | (BigInt(series.minted) << 32n);
+  const owner = addressText(msg.to);
+  const nft: SandboxNft = {
+    carbonTokenId: token.carbonId,
+    carbonSeriesId: series.carbonSeriesId,
+    mintNumber: series.minted,
+    instanceId,
+    address: bytesToHex(TokenHelper.getNftAddress(token.carbonId, instanceId).bytes),
+    id: valueOf(rom, "_i") || instanceId.toString(),
+    owner,
+    creator: sender,
+    rom: bytesToHex(msg.rom ?? new Uint8Array()),
+    ram: bytesToHex(msg.ram ?? new Uint8Array()),
+    properties: [...rom, ...ram],
+    infusion: [],
+    infusedInto: null,
+  };
+  state.nfts.push(nft);
+
+  const w = new CarbonBinaryWriter();
+  w.write4u(1);
+  w.write8u(instanceId);
+  return {
+    result: w.toUint8Array(),
+    events: [
+      {
+        address: owner,
+        contract: "token",
+        kind: "TokenMint",
+        data: {
+          symbol: token.symbol,
+          tokenId: nft.id,
+          seriesId: series.seriesId,
+          mintNumber: nft.mintNumber,
+          carbonTokenId: token.carbonId.toString(),
+          carbonSeriesId: series.carbonSeriesId,
+          carbonInstanceId: instanceId.toString(),
+          owner,
+          metadata: Object.fromEntries(rom.map((entry) => [entry.key, entry.value])),
+        },
+      },
+    ],
+  };
+}
+
+function mintFungible(msg: TxMsgMintFungible, sender: string): AppliedMessage {
+  const token = findToken(msg.tokenId);
+  if (token.nonFungible) throw new Error(`Token ${token.symbol} is not fungible`);
+  if (token.owner !== sender) throw new Error(`Only the owner of ${token.symbol} can mint`);
+  const amount = msg.amount?.toBigInt() ?? 0n;
+  if (amount <= 0n) throw new Error("Mint amount must be positive");
+  if (token.maxSupply > 0n && token.currentSupply + amount > token.maxSupply) {
+    throw new Error(`Minting ${amount} would exceed the max supply of ${token.symbol}`);
+  }
+  token.currentSupply += amount;
+  addBalance(addressText(msg.to), token.symbol, amount);
+  return { result: new Uint8Array(), events: [] };
+}
+
+// Sending to a Carbon NFT address infuses the NFTs into it; any other key is an account.
+function transferNonFungible(to: Bytes32, carbonTokenId: bigint, instanceIds: bigint[], sender: string): AppliedMessage {
+  const token = findToken(carbonTokenId);
+  const targetAddress = bytesToHex(to.bytes).toLowerCase();
+  const target = state.nfts.find((nft) => nft.address.toLowerCase() === targetAddress && !nft.infusedInto);
+  const moving = instanceIds.map((instanceId) => {
+    const nft = state.nfts.find((entry) => entry.carbonTokenId === carbonTokenId && entry.instanceId === instanceId);
+    if (!nft || nft.infusedInto) throw new Error(`NFT ${instanceId} of ${token.symbol} does not exist`);
+    if (nft.owner !== sender) throw new Error(`NFT ${nft.id} is not owned by the sender`);
+    if (nft === target) throw new Error("An NFT cannot be infused into itself");
+    return nft;
+  });
+  moving.forEach((nft) => {
+    if (target) {
+      nft.owner = "";
+      nft.infusedInto = target.address;
+      target.infusion.push({ key: token.symbol, value: nft.id });
+    } else {
+      nft.owner = addressText(to);
+    }
+  });
+  return { result: new Uint8Array(), events: [] };
+}
+
+function applyCall(call: TxMsgCall, sender: string): AppliedMessage {
+  if (call.moduleId !== ModuleId.Token) throw new Error(`Module ${call.moduleId} is not available in the sandbox`);
+  switch (call.methodId) {
+    case TokenContract_Methods.CreateToken:
+      return createToken(CarbonBlob.NewFromBytes(TokenInfo, call.args, 0), sender);
+    case TokenContract_Methods.CreateTokenSeries: {
+      const r = new CarbonBinaryReader(call.args);
+      const tokenId = r.read8();
+      return createSeries(tokenId, r.readBlob(SeriesInfo), sender);
+    }
+    case TokenContract_Methods.TransferNonFungible: {
+      // Args layout matches infuse.ts: to, from, tokenId, count, instance ids.
+      const r = new CarbonBinaryReader(call.args);
+      const to = new Bytes32(r.read32());
+      r.read32();
+      const tokenId = r.read8u();
+      const count = r.read4u();
+      const ids: bigint[] = [];
+      for (let i = 0; i < count; i++) ids.push(r.read8u());
+      return transferNonFungible(to, tokenId, ids, sender);
+    }
+    default:
+      throw new Error(`Token method ${call.methodId} is not available in the sandbox`);
+  }
+}
+
+function applyMessage(txMsg: TxMsg): AppliedMessage {
+  const sender = addressText(txMsg.gasFrom);
+  const msg = txMsg.msg;
+  if (msg instanceof TxMsgCall) return applyCall(msg, sender);
+  if (msg instanceof TxMsgCallMulti) {
+    const applied = msg.calls.map((call) => applyCall(call, sender));
+    const w = new CarbonBinaryWriter();
+    applied.forEach((entry) => w.write(entry.result));
+    return { result: w.toUint8Array(), events: applied.flatMap((entry) => entry.events) };
+  }
+  if (msg instanceof TxMsgMintNonFungible) return mintNonFungible(msg, sender);
+  if (msg instanceof TxMsgMintFungible) return mintFungible(msg, sender);
+  if (msg instanceof TxMsgTransferNonFungibleSingle) {
+    return transferNonFungible(msg.to, msg.tokenId, [msg.instanceId], sender);
+  }
+  if (msg instanceof TxMsgTransferNonFungibleMulti) {
+    return transferNonFungible(msg.to, msg.tokenId, msg.instanceIds, sender);
+  }
+  throw new Error(`Transaction type ${txMsg.type} is not available in the sandbox`);
+}
+
+// Copies everything a message may change, so a failing call of a multi-call rolls back the
+// calls before it.
+function snapshotState() {
+  return {
+    nextTokenId: state.nextTokenId,
+    tokens: state.tokens.map((token) => ({ ...token })),
+    series: state.series.map((series) => ({ ...series })),
+    nfts: state.nfts.map((nft) => ({ ...nft, infusion: [...nft.infusion] })),
+    balances: new Map([...state.balances].map(([address, balances]) => [address, new Map(balances)])),
+  };
+}
+
+// Failed messages are rolled back and recorded as faulted transactions, like a node that
+// accepted the tx but failed to execute it.
+function submitTxMsg(txMsg: TxMsg): string {
+  const hash = randomHash();
+  const sender = addressText(txMsg.gasFrom);
+  let applied: AppliedMessage | null = null;
+  let debugComment = "";
+  // Not isTxExpiryPassed(): txExpiry.ts imports api.ts, which imports this module.
+  if (txMsg.expiry > 0n && txMsg.expiry <= BigInt(Date.now())) {
+    debugComment = "Transaction expired";
+  } else {
+    const snapshot = snapshotState();
+    try {
+      applied = applyMessage(txMsg);
+    } catch (err: unknown) {
+      Object.assign(state, snapshot);
+      debugComment = toMessage(err);
+    }
+  }
+  state.height += 1;
+  state.txs.set(hash, {
+    hash,
+    chainAddress: "",
+    timestamp: Math.floor(Date.now() / 1000),
+    blockHeight: state.height,
+    blockHash: "",
+    script: "",
+    payload: txMsg.payload?.data ?? "",
+    carbonTxType: txMsg.type,
+    carbonTxData: bytesToHex(CarbonBlob.Serialize(txMsg)),
+    events: [],
+    extendedEvents: applied?.events ?? [],
+    result: applied ? bytesToHex(applied.result) : "",
+    debugComment,
+    fee: "0",
+    state: applied ? "Halt" : "Fault",
+    signatures: [],
+    sender,
+    gasPayer: sender,
+    gasTarget: "",
+    gasPrice: "0",
+    gasLimit: txMsg.maxGas.toString(),
+    expiration: Number(txMsg.expiry),
+  });
+  return hash;
+}
+
+// ---- RPC results ----
+
+function schemaResult(schema: VmStructSchema): VmStructSchemaResult {
+  return {
+    fields: schema.fields.map((field) => ({
+      name: field.name.data,
+      schema: { type: VmType[field.schema.type] ?? String(field.schema.type) },
+    })),
+    flags: schema.flags,
+  };
+}
+
+function seriesResult(series: SandboxSeries): TokenSeriesResult {
+  const minted = state.nfts.filter(
+    (nft) => nft.carbonTokenId === series.carbonTokenId && nft.carbonSeriesId === series.carbonSeriesId,
+  ).length;
+  return {
+    seriesId: series.seriesId,
+    carbonTokenId: series.carbonTokenId.toString(),
+    carbonSeriesId: String(series.carbonSeriesId),
+    currentSupply: String(minted),
+    maxSupply: String(series.maxSupply),
+    burnedSupply: "0",
+    mode: valueOf(series.metadata, "mode") || "0",
+    script: "",
+    methods: [],
+    metadata: series.metadata,
+  };
+}
+
+function tokenResult(token: SandboxToken): Token & { metadata: KeyValue[] } {
+  const flags = ["Transferable"];
+  if (!token.nonFungible) flags.push("Fungible");
+  if (token.maxSupply > 0n) flags.push("Finite");
+  if (token.decimals > 0) flags.push("Divisible");
+  return {
+    symbol: token.symbol,
+    name: valueOf(token.metadata, "name") || token.symbol,
+    decimals: token.decimals,
+    currentSupply: token.currentSupply.toString(),
+    maxSupply: token.maxSupply.toString(),
+    burnedSupply: "0",
+    address: "",
+    owner: token.owner,
+    flags: flags.join(", "),
+    script: "",
+    series: state.series.filter((series) => series.carbonTokenId === token.carbonId).map(seriesResult),
+    carbonId: token.carbonId.toString(),
+    tokenSchemas: token.schemas
+      ? {
+          seriesMetadata: schemaResult(token.schemas.seriesMetadata),
+          rom: schemaResult(token.schemas.rom),
+          ram: schemaResult(token.schemas.ram),
+        }
+      : undefined,
+    metadata: token.metadata,
+  };
+}
+
+function nftResult(nft: SandboxNft): NFT {
+  const series = state.series.find(
+    (entry) => entry.carbonTokenId === nft.carbonTokenId && entry.carbonSeriesId === nft.carbonSeriesId,
+  );
+  return {
+    ID: nft.id,
+    series: series?.seriesId ?? String(nft.carbonSeriesId),
+    carbonTokenId: nft.carbonTokenId.toString(),
+    carbonNftAddress: nft.address,
+    mint: String(nft.mintNumber),
+    chainName: "main",
+    ownerAddress: nft.owner,
+    creatorAddress: nft.creator,
+    ram: nft.ram,
+    rom: nft.rom,
+    status: nft.infusedInto ? "infused" : "active",
+    infusion: nft.infusion,
+    properties: nft.properties,
+  };
+}
+
+// Cursors are plain offsets; an empty cursor marks the last page.
+function paginate<T>(items: T[], pageSize: unknown, cursor: unknown): CursorPaginatedResult<T[]> {
+  const offset = Math.max(0, Number(cursor) || 0);
+  const size = Math.max(1, Number(pageSize) || 10);
+  const next = offset + size;
+  return { result: items.slice(offset, next), cursor: next < items.length ? String(next) : "" };
+}
+
+function ownedNfts(account: string, carbonTokenId: bigint, carbonSeriesId: number): SandboxNft[] {
+  return state.nfts.filter(
+    (nft) =>
+      nft.owner === account &&
+      (!carbonTokenId || nft.carbonTokenId === carbonTokenId) &&
+      (!carbonSeriesId || nft.carbonSeriesId === carbonSeriesId),
+  );
+}
+
+function handleRpc(method: string, params: unknown[]): unknown {
+  switch (method) {
+    case "getTokens": {
+      const owner = String(params[1] ?? "");
+      return state.tokens.filter((token) => !owner || token.owner === owner).map(tokenResult);
+    }
+    case "getToken": {
+      const token = findTokenBySymbolOrId(params[0], params[2]);
+      return token ? tokenResult(token) : { error: "invalid token" };
+    }
+    case "getTokenSeries": {
+      const token = findTokenBySymbolOrId(params[0], params[1]);
+      const series = state.series.filter((entry) => entry.carbonTokenId === token?.carbonId);
+      return paginate(series.map(seriesResult), params[2], params[3]);
+    }
+    case "getTokenNFTs": {
+      const carbonTokenId = parseBigInt(params[0]);
+      const carbonSeriesId = Number(params[1]) || 0;
+      const nfts = state.nfts.filter(
+        (nft) =>
+          nft.carbonTokenId === carbonTokenId &&
+          !nft.infusedInto &&
+          (!carbonSeriesId || nft.carbonSeriesId === carbonSeriesId),
+      );
+      return paginate(nfts.map(nftResult), params[2], params[3]);
+    }
+    case "getAccountNFTs": {
+      const nfts = ownedNfts(String(params[0] ?? ""), parseBigInt(params[2]), Number(params[3]) || 0);
+      return paginate(nfts.map(nftResult), params[4], params[5]);
+    }
+    case "getAccountOwnedTokens": {
+      const account = String(params[0] ?? "");
+      const tokens = state.tokens.filter((token) =>
+        token.nonFungible ? ownedNfts(account, token.carbonId, 0).length > 0 : balanceOf(account, token.symbol) > 0n,
+      );
+      return paginate(tokens.map(tokenResult), params[3], params[4]);
+    }
+    case "getAccountOwnedTokenSeries": {
+      const nfts = ownedNfts(String(params[0] ?? ""), parseBigInt(params[2]), 0);
+      const series = state.series.filter((entry) =>
+        nfts.some((nft) => nft.carbonTokenId === entry.carbonTokenId && nft.carbonSeriesId === entry.carbonSeriesId),
+      );
+      return paginate(series.map(seriesResult), params[3], params[4]);
+    }
+    case "getTransaction":
+      return state.txs.get(String(params[0] ?? "").toUpperCase()) ?? { error: "transaction not found" };
+    case "getAccount": {
+      const address = String(params[0] ?? "");
+      const balances = [...(state.balances.get(address) ?? new Map<string, bigint>())].map(([symbol, amount]) => ({
+        chain: "main",
+        symbol,
+        amount: amount.toString(),
+        decimals: state.tokens.find((token) => token.symbol === symbol)?.decimals ?? 0,
+      }));
+      return { address, name: "anonymous", balances, txs: [] };
+    }
+    case "getBlockHeight":
+      return state.height;
+    case "getLatestBlock":
+      return { height: state.height, timestamp: Math.floor(Date.now() / 1000) };
+    case "sendCarbonTransaction": {
+      const signed = CarbonBlob.NewFromBytes(SignedTxMsg, hexToBytes(String(params[0] ?? "")), 0);
+      if (!signed.msg) return { error: "signed transaction has no message" };
+      return submitTxMsg(signed.msg);
+    }
+    default:
+      return { error: `${method} is not available in the sandbox` };
+  }
+}
+
+// Same calling convention as a node: RPC errors resolve as `{ error }`, decoding failures throw.
+class SandboxPhantasmaAPI extends PhantasmaAPI {
+  constructor() {
+    super(SANDBOX_NETWORK.rpcUrl, undefined, SANDBOX_NETWORK.nexus);
+  }
+
+  async JSONRPC(method: string, params: unknown[]): Promise<unknown> {
+    return handleRpc(method, params);
+  }
+}
+
+export function createSandboxApi(): PhantasmaAPI {
+  return new SandboxPhantasmaAPI();
+}
+
+let sandboxConnection: EasyConnect | null = null;
+let nextSignId = 1;
+
+// Stand-in for Link: approves every request and executes it right away.
+export function getSandboxConnection(): EasyConnect {
+  if (!sandboxConnection) {
+    const conn = {
+      connected: true,
+      platform: "sandbox",
+      providerHint: "sandbox",
+      link: { account: { address: SANDBOX_WALLET_ADDRESS, name: "sandbox" } },
+      signCarbonTransaction(txMsg: TxMsg, onSuccess: (res: WalletSignResult) => void, onFail: (err: unknown) => void) {
+        setTimeout(() => {
+          try {
+            onSuccess({ hash: submitTxMsg(txMsg), id: nextSignId++, success: true });
+          } catch (err: unknown) {
+            onFail(err);
+          }
+        }, 0);
+      },
+    };
+    sandboxConnection = conn as unknown as EasyConnect;
+  }
+  return sandboxConnection;
+}
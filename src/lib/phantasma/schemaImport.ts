@@ -0,0 +1,101 @@
+import {
+  TokenSchemasBuilder,
+  nftDefaultMetadataFields,
+  seriesDefaultMetadataFields,
+  vmTypeFromString,
+  type Token,
+  type TokenSchemasResult,
+  type VmStructSchemaResult,
+} from "phantasma-sdk-ts";
+
+import { VM_TYPE_OPTIONS } from "../carbonSchemas";
+import type { TokenDeploySpecSchemaField, TokenDeploySpecSchemas } from "./deploySpec";
+import { toMessage } from "./errors";
+import { queryTokenExtended } from "./queries";
+
+// Turns the schemas of a deployed token back into the deploy form's field lists, so a collection
+// layout can be reused for a new token.
+
+export type TokenSchemasFromRpcResult =
+  | {
+      success: true;
+      schemas: TokenDeploySpecSchemas;
+      // Struct fields whose nested layout the builder cannot edit; they are imported as plain Struct.
+      warnings: string[];
+    }
+  | { success: false; error: string };
+
+// Fields the SDK builders add on their own; keeping them would make the builder reject the
+// imported schemas as duplicates.
+const SERIES_DEFAULT_NAMES = new Set(seriesDefaultMetadataFields.map((field) => String(field?.name ?? "")));
+const ROM_DEFAULT_NAMES = new Set(nftDefaultMetadataFields.map((field) => String(field?.name ?? "")));
+
+// RPC nodes and the sandbox report type names; a bare enum value is accepted too. Array and
+// Array_Dynamic share a value; the first name in the dropdown list wins.
+function vmTypeName(raw: unknown): string | null {
+  if (typeof raw === "string") {
+    const name = raw.trim();
+    return VM_TYPE_OPTIONS.find((option) => option === name) ?? null;
+  }
+  if (typeof raw === "number") {
+    return VM_TYPE_OPTIONS.find((option) => vmTypeFromString(option) === raw) ?? null;
+  }
+  return null;
+}
+
+function convertFields(
+  struct: VmStructSchemaResult | undefined,
+  path: string,
+  skipNames: Set<string>,
+  warnings: string[],
+): TokenDeploySpecSchemaField[] {
+  const fields: TokenDeploySpecSchemaField[] = [];
+  for (const field of struct?.fields ?? []) {
+    const name = String(field?.name ?? "").trim();
+    if (!name || skipNames.has(name)) continue;
+    const type = vmTypeName(field.schema?.type);
+    if (!type) {
+      throw new Error(`${path}.${name}: unsupported VM type ${JSON.stringify(field.schema?.type)}`);
+    }
+    if (field.schema?.schema?.fields?.length) {
+      warnings.push(`${path}.${name}: nested ${type} layout is not imported`);
+    }
+    fields.push({ name, type });
+  }
+  return fields;
+}
+
+export function tokenSchemasFromRpc(result: TokenSchemasResult): TokenSchemasFromRpcResult {
+  const warnings: string[] = [];
+  try {
+    const schemas: TokenDeploySpecSchemas = {
+      seriesMetadata: convertFields(result.seriesMetadata, "seriesMetadata", SERIES_DEFAULT_NAMES, warnings),
+      rom: convertFields(result.rom, "rom", ROM_DEFAULT_NAMES, warnings),
+      ram: convertFields(result.ram, "ram", new Set(), warnings),
+    };
+    // Same check the deploy form runs before submitting.
+    TokenSchemasBuilder.fromJson(JSON.stringify(schemas));
+    return { success: true, schemas, warnings };
+  } catch (err: unknown) {
+    return { success: false, error: toMessage(err) };
+  }
+}
+
+// Schemas never change after deploy, so the cached token is good enough.
+export async function importTokenSchemas(symbol: string): Promise<TokenSchemasFromRpcResult> {
+  const trimmed = symbol.trim().toUpperCase();
+  if (!trimmed) {
+    return { success: false, error: "symbol is required" };
+  }
+  let token: Token;
+  try {
+    token = await queryTokenExtended(trimmed);
+  } catch (err: unknown) {
+    // Unknown symbols throw and are not cached, so one deployed a moment ago is found.
+    return { success: false, error: toMessage(err) };
+  }
+  if (!token.tokenSchemas) {
+    return { success: false, error: `${trimmed} has no token schemas (only NFTs carry them)` };
+  }
+  return tokenSchemasFromRpc(token.tokenSchemas);
+}
@@ -8,7 +8,6 @@ import {
   TokenSeriesResult,
   SeriesInfo,
   SeriesInfoBuilder,
-  TransactionData,
   VmStructSchema,
   VmType,
   getRandomPhantasmaId,
@@ -16,8 +15,16 @@ import {
 
 import { ensureError, toMessage } from "./errors";
 import { createApi } from "./api";
-import { waitForTransactionConfirmation } from "./tx";
-import { extractPublicKeyBytes, isWalletSignResult } from "./wallet";
+import {
+  runCarbonTransaction,
+  toActionFailure,
+  type TxActionFailure,
+  type TxPipelineOptions,
+} from "./pipeline";
+import { queryKeys } from "./queryCache";
+import { computeTxExpiry } from "./txExpiry";
+import type { TxBuildResult } from "./txSize";
+import { extractPublicKeyBytes } from "./wallet";
 import { parseHexBytes, parseVmMetadataValue } from "./metadata";
 
 export type TokenSeriesListItem = {
@@ -131,15 +138,20 @@ export type CreateSeriesParams = {
   maxData?: bigint;
   expiry?: bigint | null;
   addLog?: (message: string, data?: unknown) => void;
+  pipeline?: TxPipelineOptions;
 };
 
 export type CreateSeriesResult =
   | { success: true; txHash: string; seriesId?: number; result?: unknown }
-  | { success: false; error: string };
+  | TxActionFailure;
 
-export async function createSeries(params: CreateSeriesParams): Promise<CreateSeriesResult> {
+export type BuildSeriesTxParams = Omit<CreateSeriesParams, "conn" | "addLog" | "pipeline"> & {
+  creatorPublicKey: Bytes32;
+};
+
+export async function buildSeriesTx(params: BuildSeriesTxParams): Promise<TxBuildResult> {
   const {
-    conn,
+    creatorPublicKey: creatorPk,
     carbonTokenId,
     seriesSchema,
     seriesValues,
@@ -149,9 +161,6 @@ export async function createSeries(params: CreateSeriesParams): Promise<CreateSe
     expiry,
   } = params;
 
-  if (!conn) {
-    return { success: false, error: "Wallet connection (conn) is required" };
-  }
   if (carbonTokenId === undefined || carbonTokenId === null) {
     return { success: false, error: "carbonTokenId is required" };
   }
@@ -159,10 +168,6 @@ export async function createSeries(params: CreateSeriesParams): Promise<CreateSe
     return { success: false, error: "seriesSchema is required" };
   }
 
-  // Prepare creator public key
-  const publicKeyBytes = extractPublicKeyBytes(conn);
-  const creatorPk = new Bytes32(publicKeyBytes);
-
   // Parse ROM hex (supports with or without 0x prefix)
   let romBytes: Uint8Array;
   try {
@@ -211,11 +216,10 @@ export async function createSeries(params: CreateSeriesParams): Promise<CreateSe
   }
 
   // Build tx
-  const expiryValue = expiry ?? undefined;
+  const expiryValue = expiry ?? computeTxExpiry();
 
-  let txMsg;
   try {
-    txMsg = CreateTokenSeriesTxHelper.buildTx(
+    const txMsg = CreateTokenSeriesTxHelper.buildTx(
       carbonTokenId,
       seriesInfo,
       creatorPk,
@@ -223,70 +227,49 @@ export async function createSeries(params: CreateSeriesParams): Promise<CreateSe
       maxData,
       expiryValue,
     );
+    return { success: true, txMsg };
   } catch (err: unknown) {
     return { success: false, error: `Failed to build series tx: ${toMessage(err)}` };
   }
+}
 
-  // Ask wallet to sign + broadcast
-  let walletResult: { hash: string; id: number; success: boolean };
-  try {
-    walletResult = await new Promise<{ hash: string; id: number; success: boolean }>((resolve, reject) => {
-      try {
-        conn.signCarbonTransaction(
-          txMsg,
-          (res: unknown) => {
-            if (!isWalletSignResult(res)) {
-              reject(new Error("Unexpected wallet response"));
-              return;
-            }
-            if (res.success === false) {
-              reject(new Error(res.error || "Wallet rejected transaction"));
-              return;
-            }
-            resolve({ hash: res.hash, id: res.id, success: true });
-          },
-          (err: unknown) => {
-            reject(ensureError(err));
-          },
-        );
-      } catch (inner) {
-        reject(ensureError(inner));
-      }
-    });
-  } catch (err: unknown) {
-    return { success: false, error: toMessage(err) || "Wallet rejected transaction" };
-  }
+export async function createSeries(params: CreateSeriesParams): Promise<CreateSeriesResult> {
+  const { conn, carbonTokenId, seriesValues, addLog, pipeline } = params;
 
-  const txHash = walletResult.hash;
-  let seriesId: number | undefined = undefined;
+  if (!conn) {
+    return { success: false, error: "Wallet connection (conn) is required" };
+  }
 
-  if (txHash) {
-    const api = createApi();
-    const confirmation = await waitForTransactionConfirmation(api, txHash, {
-      maxAttempts: 30,
-      delayMs: 1000,
-      failureDetailAttempts: 6,
-    });
+  const built = await buildSeriesTx({
+    ...params,
+    creatorPublicKey: new Bytes32(extractPublicKeyBytes(conn)),
+  });
+  if (!built.success) {
+    return built;
+  }
+  const { txMsg } = built;
 
-    if (confirmation.status === "success") {
-      const txInfo = (confirmation as { status: "success"; tx: TransactionData }).tx;
-      if (typeof txInfo?.result === "string") {
-        try {
-          seriesId = CreateTokenSeriesTxHelper.parseResult(txInfo?.result);
-        } catch {
-          seriesId = undefined;
-        }
-      }
-    } else if (confirmation.status === "failure") {
-      const failure = confirmation as { status: "failure"; tx: TransactionData; message?: string };
-      const message = failure.message
-        ? `${failure.message}`
-        : "Transaction execution failed";
-      return { success: false, error: `Transaction ${txHash} failed: ${message}` };
-    } else {
-      return { success: false, error: `Transaction ${txHash} confirmation timed out` };
-    }
+  // Ask wallet to sign + broadcast, then wait for execution
+  const outcome = await runCarbonTransaction({
+    conn,
+    txMsg,
+    parseResult: (tx) =>
+      typeof tx?.result === "string" ? CreateTokenSeriesTxHelper.parseResult(tx.result) : undefined,
+    logTag: "series",
+    addLog,
+    pipeline,
+    journal: {
+      operation: "series",
+      summary: {
+        carbonTokenId: carbonTokenId.toString(),
+        ...(seriesValues.name ? { name: seriesValues.name } : {}),
+      },
+    },
+    invalidates: [queryKeys.tokenSeries(carbonTokenId)],
+  });
+  if (!outcome.success) {
+    return toActionFailure(outcome);
   }
 
-  return { success: true, txHash: txHash || "pending", seriesId, result: walletResult };
+  return { success: true, txHash: outcome.txHash, seriesId: outcome.parsed, result: outcome.walletResult };
 }
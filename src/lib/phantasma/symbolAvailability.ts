@@ -0,0 +1,115 @@
+import type { Token } from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { ensureError, rpcErrorOf, toMessage } from "./errors";
+import { cachedQuery, queryKeys } from "./queryCache";
+
+// Pre-deploy symbol checks: is the symbol free on the active network, and does it look like a
+// symbol that already exists there (0 vs O, 1 vs I, ...).
+
+export type SymbolAvailability =
+  | { status: "available"; lookalikes: string[]; lookalikesChecked: boolean }
+  | { status: "taken"; owner: string | null; ownedByYou: boolean; lookalikes: string[]; lookalikesChecked: boolean }
+  | { status: "failed"; error: string };
+
+// Characters folded together when comparing symbols. Chain symbols are A–Z only, but older
+// tokens and pasted input can carry digits, so both directions are covered.
+const CONFUSABLE_CHARS: Record<string, string> = {
+  "0": "O",
+  Q: "O",
+  "1": "I",
+  L: "I",
+  "5": "S",
+  "2": "Z",
+  "8": "B",
+  "6": "G",
+  V: "U",
+};
+
+// Node and sandbox both answer an unknown symbol with an `{ error }` rather than a token.
+const UNKNOWN_TOKEN_PATTERN = /invalid token|token\b.*\b(not found|does not exist|unknown)|unknown token/i;
+
+export function symbolSkeleton(symbol: string): string {
+  return symbol
+    .trim()
+    .toUpperCase()
+    .replace(/VV/g, "W")
+    .split("")
+    .map((char) => CONFUSABLE_CHARS[char] ?? char)
+    .join("");
+}
+
+// Existing symbols that read the same as `symbol` once look-alike characters are folded.
+export function findLookalikeSymbols(symbol: string, existing: string[]): string[] {
+  const target = symbol.trim().toUpperCase();
+  if (!target) return [];
+  const skeleton = symbolSkeleton(target);
+  const matches = existing
+    .map((entry) => entry.trim().toUpperCase())
+    .filter((entry) => entry && entry !== target && symbolSkeleton(entry) === skeleton);
+  return [...new Set(matches)].sort();
+}
+
+async function fetchAllTokenSymbols(): Promise<string[]> {
+  try {
+    const tokens = await createApi().getTokens("", false);
+    return Array.isArray(tokens) ? tokens.map((token) => String(token?.symbol ?? "")).filter(Boolean) : [];
+  } catch (error: unknown) {
+    throw ensureError(error);
+  }
+}
+
+export function queryAllTokenSymbols(): Promise<string[]> {
+  return cachedQuery(queryKeys.allTokens(), fetchAllTokenSymbols, { staleMs: 5 * 60_000 });
+}
+
+// Always reads fresh: a cached "available" is exactly what this check is meant to avoid.
+export async function checkSymbolAvailability(
+  symbol: string,
+  walletAddress?: string | null,
+): Promise<SymbolAvailability> {
+  const trimmed = symbol.trim().toUpperCase();
+  if (!trimmed) {
+    return { status: "failed", error: "symbol is required" };
+  }
+
+  let response: unknown;
+  try {
+    response = await createApi().getToken(trimmed, false, 0n);
+  } catch (err: unknown) {
+    const message = toMessage(err);
+    if (!UNKNOWN_TOKEN_PATTERN.test(message)) {
+      return { status: "failed", error: message };
+    }
+    response = { error: message };
+  }
+
+  let lookalikes: string[] = [];
+  let lookalikesChecked = true;
+  try {
+    lookalikes = findLookalikeSymbols(trimmed, await queryAllTokenSymbols());
+  } catch {
+    // The availability answer still stands without the look-alike list.
+    lookalikesChecked = false;
+  }
+
+  const rpcError = rpcErrorOf(response);
+  if (rpcError !== null) {
+    if (UNKNOWN_TOKEN_PATTERN.test(rpcError)) {
+      return { status: "available", lookalikes, lookalikesChecked };
+    }
+    return { status: "failed", error: rpcError };
+  }
+  const token = response as Partial<Token> | null;
+  if (!token || typeof token.symbol !== "string") {
+    return { status: "failed", error: "Unexpected getToken response" };
+  }
+  const owner = typeof token.owner === "string" && token.owner ? token.owner : null;
+  return {
+    status: "taken",
+    owner,
+    ownedByYou: !!owner && !!walletAddress && owner === walletAddress,
+    lookalikes,
+    lookalikesChecked,
+  };
+}
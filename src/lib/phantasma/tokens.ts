@@ -1,6 +1,6 @@
 import type { Token } from "phantasma-sdk-ts";
 import { createApi } from "./api";
-import { ensureError } from "./errors";
+import { ensureError, rpcErrorOf } from "./errors";
 
 export async function getTokens(ownerAddress: string): Promise<Token[]> {
   if (!ownerAddress) {
@@ -20,11 +20,18 @@ export async function getTokenExtended(symbol: string): Promise<Token> {
     throw new Error("symbol is required");
   }
   const api = createApi();
+  let response: unknown;
   try {
     // PhantasmaAPI.getToken(symbol, extended, carbonTokenId)
-    return await api.getToken(symbol, true, 0n);
+    response = await api.getToken(symbol, true, 0n);
   } catch (error: unknown) {
     throw ensureError(error);
   }
+  // Thrown rather than returned, so queryTokenExtended does not cache an unknown symbol as a token.
+  const rpcError = rpcErrorOf(response);
+  if (rpcError !== null) {
+    throw new Error(rpcError);
+  }
+  return response as Token;
 }
 
@@ -3,25 +3,63 @@ import type { PhantasmaAPI, TransactionData } from "phantasma-sdk-ts";
 export type TransactionWaitOutcome =
   | { status: "success"; tx: TransactionData }
   | { status: "failure"; tx: TransactionData; message?: string }
-  | { status: "timeout" };
+  | { status: "timeout" }
+  | { status: "aborted" };
 
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export type WaitForTransactionOptions = {
+  maxAttempts?: number;
+  // Delay before the second attempt; later delays grow by backoffFactor up to maxDelayMs.
+  delayMs?: number;
+  backoffFactor?: number;
+  maxDelayMs?: number;
+  failureDetailAttempts?: number;
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number, nextDelayMs: number) => void;
+};
+
+// Resolves false when the signal fires before the delay elapses.
+function delay(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function backoffDelay(attempt: number, opts?: WaitForTransactionOptions): number {
+  const base = Math.max(100, opts?.delayMs ?? 1000);
+  const factor = Math.max(1, opts?.backoffFactor ?? 1);
+  const cap = Math.max(base, opts?.maxDelayMs ?? base);
+  return Math.min(cap, Math.round(base * Math.pow(factor, Math.max(0, attempt - 1))));
 }
 
 export async function waitForTransactionConfirmation(
   api: PhantasmaAPI,
   txHash: string,
-  opts?: { maxAttempts?: number; delayMs?: number; failureDetailAttempts?: number },
+  opts?: WaitForTransactionOptions,
 ): Promise<TransactionWaitOutcome> {
   const maxAttempts = Math.max(1, opts?.maxAttempts ?? 30);
-  const delayMs = Math.max(100, opts?.delayMs ?? 1000);
   const failureDetailMax = Math.max(0, opts?.failureDetailAttempts ?? 6);
+  const signal = opts?.signal;
 
   let attempts = 0;
   let failureDetailAttempts = 0;
 
   while (attempts < maxAttempts) {
+    if (signal?.aborted) {
+      return { status: "aborted" };
+    }
+    opts?.onAttempt?.(attempts + 1, backoffDelay(attempts + 1, opts));
     try {
       const txInfo = await api.getTransaction(txHash);
       if (txInfo) {
@@ -54,7 +92,10 @@ export async function waitForTransactionConfirmation(
 
     attempts++;
     if (attempts < maxAttempts) {
-      await delay(delayMs);
+      const completed = await delay(backoffDelay(attempts, opts), signal);
+      if (!completed) {
+        return { status: "aborted" };
+      }
     }
   }
 
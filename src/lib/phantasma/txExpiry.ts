@@ -0,0 +1,74 @@
+import { createApi } from "./api";
+
+// Carbon expiry is an absolute unix timestamp in milliseconds, checked by the node against its
+// own clock. The window has to cover the review dialog and the Link approval.
+export type TxExpiryPresetId = "1m" | "10m" | "1h" | "custom";
+
+export const TX_EXPIRY_PRESETS: { id: Exclude<TxExpiryPresetId, "custom">; label: string; windowMs: number }[] = [
+  { id: "1m", label: "1 min", windowMs: 60_000 },
+  { id: "10m", label: "10 min", windowMs: 10 * 60_000 },
+  { id: "1h", label: "1 h", windowMs: 60 * 60_000 },
+];
+
+export const DEFAULT_TX_EXPIRY_PRESET: TxExpiryPresetId = "10m";
+export const DEFAULT_TX_EXPIRY_MS = 10 * 60_000;
+export const MIN_TX_EXPIRY_MS = 60_000;
+export const MAX_TX_EXPIRY_MS = 24 * 60 * 60_000;
+
+// A local clock this far behind the chain is worth telling the user about.
+export const CLOCK_SKEW_WARN_MS = 30_000;
+
+// `clockLeadMs` is how far the chain clock runs ahead of the local one (see fetchChainClockLeadMs).
+export function computeTxExpiry(windowMs: number = DEFAULT_TX_EXPIRY_MS, clockLeadMs = 0): bigint {
+  return BigInt(Date.now() + Math.max(0, clockLeadMs) + windowMs);
+}
+
+export function isTxExpiryPassed(expiry: bigint, now = Date.now()): boolean {
+  return expiry > 0n && expiry <= BigInt(now);
+}
+
+export function formatTxExpiry(expiry: bigint): string {
+  return new Date(Number(expiry)).toLocaleString();
+}
+
+export function parseCustomExpiryMinutes(
+  input: string,
+): { ok: true; windowMs: number } | { ok: false; error: string } {
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return { ok: false, error: "Expiry must be a whole number of minutes" };
+  }
+  const windowMs = Number(trimmed) * 60_000;
+  if (windowMs < MIN_TX_EXPIRY_MS) {
+    return { ok: false, error: `Expiry must be at least ${MIN_TX_EXPIRY_MS / 60_000} minute` };
+  }
+  if (windowMs > MAX_TX_EXPIRY_MS) {
+    return { ok: false, error: `Expiry must be at most ${MAX_TX_EXPIRY_MS / 60_000} minutes` };
+  }
+  return { ok: true, windowMs };
+}
+
+// A block can never be stamped in the future, so a latest block newer than the local clock
+// proves the local clock is behind. The opposite direction cannot be detected this way (the
+// latest block may simply be old), but a clock running ahead only makes the window longer.
+export async function fetchChainClockLeadMs(): Promise<number> {
+  const block = await createApi().getLatestBlock("main");
+  const timestamp = Number(block?.timestamp);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) {
+    return 0;
+  }
+  return Math.max(0, timestamp * 1000 - Date.now());
+}
+
+export function isExpiryFailure(error: string, expiry?: bigint, now = Date.now()): boolean {
+  return /expir/i.test(error) || (expiry !== undefined && isTxExpiryPassed(expiry, now));
+}
+
+// Node errors for expired txs are terse; spell out what happened and what to change.
+export function labelExpiryFailure(error: string, expiry?: bigint, now = Date.now()): string {
+  if (error.startsWith("Transaction expired") || !isExpiryFailure(error, expiry, now)) {
+    return error;
+  }
+  const at = expiry !== undefined && expiry > 0n ? ` at ${formatTxExpiry(expiry)}` : "";
+  return `Transaction expired${at} before the network accepted it. Pick a longer expiry and submit again. (${error})`;
+}
@@ -0,0 +1,210 @@
+import {
+  CarbonBlob,
+  ModuleId,
+  SignedTxMsg,
+  TokenContract_Methods,
+  TxMsg,
+  TxMsgCall,
+  TxMsgCallMulti,
+  TxTypes,
+  bytesToHex,
+  hexToBytes,
+} from "phantasma-sdk-ts";
+
+import { toMessage } from "./errors";
+import { getActiveNetwork } from "./network";
+import type { TxJournalOperation } from "./txJournal";
+import { describeTxMsg, type TxPreview } from "./txPreview";
+import { addressFromPublicKey } from "./wallet";
+
+// Offline signing hand-off. The air-gapped signer signs the exported `txHex` bytes as-is
+// (Ed25519 over the serialized TxMsg) and returns a serialized SignedTxMsg.
+export const UNSIGNED_TX_EXPORT_FORMAT = "phantasma-carbon-unsigned-tx";
+export const UNSIGNED_TX_EXPORT_VERSION = 1;
+
+export type UnsignedTxExport = {
+  format: typeof UNSIGNED_TX_EXPORT_FORMAT;
+  version: number;
+  nexus: string;
+  createdAt: string;
+  signer: string;
+  txType: string;
+  byteSize: number;
+  txHex: string;
+  summary: TxPreview;
+};
+
+export type SignedTxWitnessInfo = {
+  address: string;
+  // null when this browser cannot verify Ed25519 signatures.
+  signatureValid: boolean | null;
+};
+
+export type ParsedSignedTx = {
+  signedTxHex: string;
+  txMsg: TxMsg;
+  witnesses: SignedTxWitnessInfo[];
+  gasPayer: string;
+  // Gas payer must be among the witnesses, otherwise the node rejects the tx.
+  gasPayerSigned: boolean;
+  signaturesVerified: boolean;
+};
+
+export type ParseSignedTxResult = ({ success: true } & ParsedSignedTx) | { success: false; error: string };
+
+function addressText(bytes: Uint8Array): string {
+  try {
+    return addressFromPublicKey(bytes).Text;
+  } catch {
+    return bytesToHex(bytes);
+  }
+}
+
+// The SDK's Ed25519Signature.Verify hands binary strings to elliptic, which reads them as hex,
+// so it never accepts a real signature. Web Crypto does the check natively.
+async function verifyEd25519(
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+): Promise<boolean | null> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+  let key: CryptoKey;
+  try {
+    key = await subtle.importKey("raw", new Uint8Array(publicKey), { name: "Ed25519" }, false, ["verify"]);
+  } catch {
+    return null;
+  }
+  try {
+    return await subtle.verify(
+      { name: "Ed25519" },
+      key,
+      new Uint8Array(signature),
+      new Uint8Array(message),
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function serializeTxMsgHex(txMsg: TxMsg): string {
+  return bytesToHex(CarbonBlob.Serialize(txMsg));
+}
+
+export function createUnsignedTxExport(txMsg: TxMsg): UnsignedTxExport {
+  const txHex = serializeTxMsgHex(txMsg);
+  return {
+    format: UNSIGNED_TX_EXPORT_FORMAT,
+    version: UNSIGNED_TX_EXPORT_VERSION,
+    nexus: getActiveNetwork().nexus,
+    createdAt: new Date().toISOString(),
+    signer: addressText(txMsg.gasFrom.bytes),
+    txType: TxTypes[txMsg.type] ?? String(txMsg.type),
+    byteSize: txHex.length / 2,
+    txHex,
+    summary: describeTxMsg(txMsg),
+  };
+}
+
+function normalizeHex(raw: string): string {
+  const compact = raw.replace(/\s+/g, "");
+  return compact.startsWith("0x") || compact.startsWith("0X") ? compact.slice(2) : compact;
+}
+
+// Accepts raw hex or a JSON document carrying it in a `signedTxHex` field.
+function extractSignedHex(input: string): string {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith("{")) {
+    return normalizeHex(trimmed);
+  }
+  const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+  const value = parsed.signedTxHex ?? parsed.signedTx;
+  if (typeof value !== "string") {
+    throw new Error("JSON input must contain a signedTxHex string");
+  }
+  return normalizeHex(value);
+}
+
+export async function parseSignedTx(input: string): Promise<ParseSignedTxResult> {
+  let signedTxHex: string;
+  try {
+    signedTxHex = extractSignedHex(input);
+  } catch (err: unknown) {
+    return { success: false, error: `Invalid input: ${toMessage(err)}` };
+  }
+  if (!signedTxHex) {
+    return { success: false, error: "Signed transaction is empty" };
+  }
+  if (!/^[0-9a-fA-F]+$/.test(signedTxHex) || signedTxHex.length % 2 !== 0) {
+    return { success: false, error: "Signed transaction must be an even-length hex string" };
+  }
+
+  let signed: SignedTxMsg;
+  try {
+    signed = CarbonBlob.NewFromBytes(SignedTxMsg, hexToBytes(signedTxHex), 0);
+  } catch (err: unknown) {
+    return { success: false, error: `Not a signed Carbon transaction: ${toMessage(err)}` };
+  }
+  const txMsg = signed.msg;
+  if (!txMsg) {
+    return { success: false, error: "Signed transaction has no message" };
+  }
+
+  const messageBytes = CarbonBlob.Serialize(txMsg);
+  const witnesses: SignedTxWitnessInfo[] = await Promise.all(
+    (signed.witnesses ?? []).map(async (witness) => {
+      const keyBytes = witness.address?.bytes ?? new Uint8Array(32);
+      const signatureBytes = witness.signature?.bytes ?? new Uint8Array(64);
+      const signatureValid = await verifyEd25519(keyBytes, messageBytes, signatureBytes);
+      return { address: addressText(keyBytes), signatureValid };
+    }),
+  );
+  if (witnesses.length === 0) {
+    return { success: false, error: "Signed transaction has no witnesses" };
+  }
+
+  const gasPayer = addressText(txMsg.gasFrom.bytes);
+  return {
+    success: true,
+    signedTxHex,
+    txMsg,
+    witnesses,
+    gasPayer,
+    gasPayerSigned: witnesses.some((w) => w.address === gasPayer && w.signatureValid !== false),
+    signaturesVerified: witnesses.every((w) => w.signatureValid !== null),
+  };
+}
+
+function callOperation(call: TxMsgCall): TxJournalOperation | null {
+  if (call.moduleId !== ModuleId.Token) return null;
+  switch (call.methodId) {
+    case TokenContract_Methods.CreateToken:
+      return "deploy";
+    case TokenContract_Methods.CreateTokenSeries:
+      return "series";
+    case TokenContract_Methods.TransferNonFungible:
+      return "infuse";
+    default:
+      return null;
+  }
+}
+
+// Best guess of which action produced an imported tx, so the journal lists it alongside the others.
+export function inferTxOperation(txMsg: TxMsg): TxJournalOperation {
+  const msg = txMsg.msg;
+  switch (txMsg.type) {
+    case TxTypes.MintFungible:
+      return "mint_fungible";
+    case TxTypes.MintNonFungible:
+      return "mint_nft";
+    case TxTypes.TransferNonFungible_Single:
+    case TxTypes.TransferNonFungible_Multi:
+      return "infuse";
+    case TxTypes.Call:
+      return (msg instanceof TxMsgCall && callOperation(msg)) || "broadcast";
+    case TxTypes.Call_Multi:
+      return (msg instanceof TxMsgCallMulti && msg.calls[0] && callOperation(msg.calls[0])) || "broadcast";
+    default:
+      return "broadcast";
+  }
+}
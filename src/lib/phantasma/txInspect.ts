@@ -0,0 +1,210 @@
+import {
+  CarbonBlob,
+  CreateTokenSeriesTxHelper,
+  CreateTokenTxHelper,
+  MintNonFungibleTxHelper,
+  TxMsg,
+  TxMsgMintNonFungible,
+  hexToBytes,
+  type EventExtended,
+  type TransactionData,
+} from "phantasma-sdk-ts";
+
+import { createApi } from "./api";
+import { rpcErrorOf, toMessage } from "./errors";
+import { inferTxOperation } from "./txExport";
+import type { TxJournalOperation } from "./txJournal";
+import { describeTxMsg, type TxPreview } from "./txPreview";
+
+export type TxDecodedResult =
+  | { kind: "deploy"; carbonTokenId: number }
+  | { kind: "series"; carbonSeriesId: number }
+  | { kind: "mint_nft"; carbonTokenId: string; instances: string[] };
+
+export type TxAffectedToken = {
+  symbol: string;
+  carbonTokenId: string;
+  isNonFungible: boolean;
+};
+
+export type TxAffectedSeries = {
+  symbol: string;
+  seriesId: string;
+  carbonSeriesId: number;
+  maxMint: number;
+};
+
+export type TxAffectedNft = {
+  symbol: string;
+  tokenId: string;
+  seriesId: string;
+  mintNumber: number;
+  owner: string;
+};
+
+export type TxInspection = {
+  tx: TransactionData;
+  operation: TxJournalOperation;
+  // Null when carbonTxData is missing (legacy VM txs) or does not decode.
+  txMsg: TxMsg | null;
+  preview: TxPreview | null;
+  decodedResult: TxDecodedResult | null;
+  resultError: string | null;
+  tokens: TxAffectedToken[];
+  series: TxAffectedSeries[];
+  nfts: TxAffectedNft[];
+};
+
+export type InspectTransactionResult = { success: true; inspection: TxInspection } | { success: false; error: string };
+
+function decodeTxMsg(carbonTxData: string | undefined): TxMsg | null {
+  const hex = (carbonTxData ?? "").trim().replace(/^0x/i, "");
+  if (!hex) return null;
+  try {
+    // The node may return either the bare message or the signed envelope; the message
+    // comes first in both, so witnesses are allowed as trailing bytes.
+    return CarbonBlob.NewFromBytesEx(TxMsg, hexToBytes(hex), true);
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object";
+}
+
+// Extended event `kind` strings are not part of the SDK typings, so events are told apart by payload shape.
+function collectAffected(events: EventExtended[] | undefined) {
+  const tokens: TxAffectedToken[] = [];
+  const series: TxAffectedSeries[] = [];
+  const nfts: TxAffectedNft[] = [];
+  for (const event of events ?? []) {
+    const data = event.data;
+    if (!isRecord(data) || typeof data.symbol !== "string") continue;
+    if ("mintNumber" in data || "carbonInstanceId" in data) {
+      nfts.push({
+        symbol: data.symbol,
+        tokenId: String(data.tokenId ?? ""),
+        seriesId: String(data.seriesId ?? ""),
+        mintNumber: Number(data.mintNumber ?? 0),
+        owner: String(data.owner ?? ""),
+      });
+    } else if ("maxMint" in data || "carbonSeriesId" in data) {
+      series.push({
+        symbol: data.symbol,
+        seriesId: String(data.seriesId ?? ""),
+        carbonSeriesId: Number(data.carbonSeriesId ?? 0),
+        maxMint: Number(data.maxMint ?? 0),
+      });
+    } else if ("isNonFungible" in data) {
+      tokens.push({
+        symbol: data.symbol,
+        carbonTokenId: String(data.carbonTokenId ?? ""),
+        isNonFungible: !!data.isNonFungible,
+      });
+    }
+  }
+  return { tokens, series, nfts };
+}
+
+function findMintTokenId(txMsg: TxMsg | null, events: EventExtended[] | undefined): bigint | null {
+  if (txMsg?.msg instanceof TxMsgMintNonFungible) {
+    return txMsg.msg.tokenId;
+  }
+  for (const event of events ?? []) {
+    const data = event.data;
+    if (isRecord(data) && "mintNumber" in data && data.carbonTokenId !== undefined) {
+      try {
+        return BigInt(String(data.carbonTokenId));
+      } catch {
+        // keep looking
+      }
+    }
+  }
+  return null;
+}
+
+function decodeResult(
+  operation: TxJournalOperation,
+  tx: TransactionData,
+  txMsg: TxMsg | null,
+): { decodedResult: TxDecodedResult | null; resultError: string | null } {
+  const resultHex = typeof tx.result === "string" ? tx.result.trim() : "";
+  if (!resultHex) return { decodedResult: null, resultError: null };
+  try {
+    switch (operation) {
+      case "deploy":
+        return { decodedResult: { kind: "deploy", carbonTokenId: CreateTokenTxHelper.parseResult(resultHex) }, resultError: null };
+      case "series":
+        return {
+          decodedResult: { kind: "series", carbonSeriesId: CreateTokenSeriesTxHelper.parseResult(resultHex) },
+          resultError: null,
+        };
+      case "mint_nft": {
+        const carbonTokenId = findMintTokenId(txMsg, tx.extendedEvents);
+        if (carbonTokenId === null) {
+          return { decodedResult: null, resultError: "Cannot decode mint result: carbon token id is unknown" };
+        }
+        const instances = MintNonFungibleTxHelper.parseResult(carbonTokenId, resultHex).map(
+          (addr) => addr?.ToHex?.() ?? "",
+        );
+        return {
+          decodedResult: { kind: "mint_nft", carbonTokenId: carbonTokenId.toString(), instances },
+          resultError: null,
+        };
+      }
+      default:
+        return { decodedResult: null, resultError: null };
+    }
+  } catch (err: unknown) {
+    return { decodedResult: null, resultError: `Failed to decode result: ${toMessage(err)}` };
+  }
+}
+
+export async function inspectTransaction(hash: string): Promise<InspectTransactionResult> {
+  const txHash = hash.trim();
+  if (!txHash) {
+    return { success: false, error: "Transaction hash is required" };
+  }
+
+  let data: TransactionData;
+  try {
+    data = await createApi().getTransaction(txHash);
+  } catch (err: unknown) {
+    return { success: false, error: toMessage(err) };
+  }
+  const rpcError = rpcErrorOf(data);
+  if (rpcError !== null || !isRecord(data)) {
+    return { success: false, error: `Transaction ${txHash} not found: ${rpcError ?? "empty response"}` };
+  }
+
+  const txMsg = decodeTxMsg(data.carbonTxData);
+  const affected = collectAffected(data.extendedEvents);
+  let operation: TxJournalOperation = txMsg ? inferTxOperation(txMsg) : "broadcast";
+  if (operation === "broadcast") {
+    if (affected.nfts.length > 0) operation = "mint_nft";
+    else if (affected.series.length > 0) operation = "series";
+    else if (affected.tokens.length > 0) operation = "deploy";
+  }
+
+  let preview: TxPreview | null = null;
+  if (txMsg) {
+    try {
+      preview = describeTxMsg(txMsg);
+    } catch {
+      preview = null;
+    }
+  }
+
+  return {
+    success: true,
+    inspection: {
+      tx: data,
+      operation,
+      txMsg,
+      preview,
+      ...decodeResult(operation, data, txMsg),
+      ...affected,
+    },
+  };
+}
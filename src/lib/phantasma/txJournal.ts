@@ -0,0 +1,122 @@
+// Persistent record of submitted transactions, kept in localStorage so a reload
+// during confirmation does not lose the hash or the final outcome.
+
+// "broadcast" covers externally signed txs whose originating action could not be recognised.
+export type TxJournalOperation = "deploy" | "series" | "mint_nft" | "mint_fungible" | "infuse" | "broadcast";
+
+// "abandoned" means the user stopped waiting for a tx that never confirmed; it is not re-polled on start.
+export type TxJournalStatus = "pending" | "confirmed" | "failed" | "abandoned";
+
+export type TxJournalEntry = {
+  txHash: string;
+  operation: TxJournalOperation;
+  tokenSymbol?: string;
+  summary: Record<string, string>;
+  wallet: string;
+  nexus: string;
+  rpcUrl: string;
+  createdAt: number;
+  updatedAt: number;
+  status: TxJournalStatus;
+  error?: string;
+  result?: string;
+};
+
+export type TxJournalFilter = {
+  wallet?: string | null;
+  nexus?: string;
+};
+
+const STORAGE_KEY = "phantasma.txJournal.v1";
+const MAX_ENTRIES = 200;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function hasStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+function readAll(): TxJournalEntry[] {
+  if (!hasStorage()) return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as TxJournalEntry[]) : [];
+  } catch (err) {
+    console.warn("[warn] Failed to read transaction journal", err);
+    return [];
+  }
+}
+
+function writeAll(entries: TxJournalEntry[]) {
+  if (!hasStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (err) {
+    console.warn("[warn] Failed to persist transaction journal", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function listTxJournal(filter?: TxJournalFilter): TxJournalEntry[] {
+  return readAll().filter((entry) => {
+    if (filter?.wallet && entry.wallet !== filter.wallet) return false;
+    if (filter?.nexus && entry.nexus !== filter.nexus) return false;
+    return true;
+  });
+}
+
+export function getTxJournalEntry(txHash: string): TxJournalEntry | undefined {
+  return readAll().find((entry) => entry.txHash === txHash);
+}
+
+// Newest first; re-recording an existing hash replaces it.
+export function recordTxJournalEntry(
+  entry: Omit<TxJournalEntry, "createdAt" | "updatedAt" | "status"> & { status?: TxJournalStatus },
+) {
+  const now = Date.now();
+  const rest = readAll().filter((existing) => existing.txHash !== entry.txHash);
+  writeAll([{ ...entry, status: entry.status ?? "pending", createdAt: now, updatedAt: now }, ...rest]);
+}
+
+export function updateTxJournalEntry(
+  txHash: string,
+  patch: Partial<Pick<TxJournalEntry, "status" | "error" | "result">>,
+) {
+  const entries = readAll();
+  const index = entries.findIndex((entry) => entry.txHash === txHash);
+  if (index < 0) return;
+  entries[index] = { ...entries[index], ...patch, updatedAt: Date.now() };
+  writeAll(entries);
+}
+
+export function removeTxJournalEntry(txHash: string) {
+  writeAll(readAll().filter((entry) => entry.txHash !== txHash));
+}
+
+export function clearTxJournal(filter?: TxJournalFilter) {
+  const keep = readAll().filter((entry) => {
+    if (filter?.wallet && entry.wallet !== filter.wallet) return true;
+    if (filter?.nexus && entry.nexus !== filter.nexus) return true;
+    return false;
+  });
+  writeAll(keep);
+}
+
+export function subscribeTxJournal(listener: Listener): () => void {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", onStorage);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
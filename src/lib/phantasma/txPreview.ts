@@ -0,0 +1,243 @@
+import {
+  Bytes32,
+  CarbonBinaryReader,
+  CarbonBlob,
+  CarbonTokenFlags,
+  ModuleId,
+  SeriesInfo,
+  TokenContract_Methods,
+  TokenInfo,
+  TxMsg,
+  TxMsgCall,
+  TxMsgCallMulti,
+  TxMsgMintFungible,
+  TxMsgMintNonFungible,
+  TxMsgTransferNonFungibleMulti,
+  TxMsgTransferNonFungibleSingle,
+  TxTypes,
+  VmStructSchema,
+  VmType,
+  bytesToHex,
+} from "phantasma-sdk-ts";
+
+import { toMessage } from "./errors";
+import { addressFromPublicKey } from "./wallet";
+
+// `kind` lets the UI pick a formatter (KCAL/SOUL amounts, timestamps, addresses) without
+// the decoder depending on UI helpers.
+export type TxPreviewField = {
+  label: string;
+  value: string;
+  kind?: "text" | "address" | "hex" | "kcal" | "soul" | "timestamp" | "bytes";
+};
+
+export type TxPreviewSection = {
+  title: string;
+  fields: TxPreviewField[];
+};
+
+export type TxPreview = {
+  typeName: string;
+  byteSize: number;
+  sections: TxPreviewSection[];
+};
+
+function enumName(enumObj: Record<string | number, string | number>, value: number): string {
+  const name = enumObj[value];
+  return typeof name === "string" ? `${name} (${value})` : String(value);
+}
+
+function addressField(label: string, key: Bytes32 | Uint8Array): TxPreviewField {
+  const bytes = key instanceof Bytes32 ? key.bytes : key;
+  try {
+    return { label, value: addressFromPublicKey(bytes).Text, kind: "address" };
+  } catch {
+    return { label, value: bytesToHex(bytes), kind: "hex" };
+  }
+}
+
+function bytesField(label: string, bytes: Uint8Array | undefined): TxPreviewField {
+  return { label, value: String(bytes?.length ?? 0), kind: "bytes" };
+}
+
+function schemaFieldNames(schema: VmStructSchema | undefined): string {
+  const fields = schema?.fields ?? [];
+  if (fields.length === 0) return "(none)";
+  return fields
+    .map((field) => `${field.name?.data ?? "?"}: ${VmType[field.schema?.type as VmType] ?? field.schema?.type}`)
+    .join(", ");
+}
+
+function describeTokenInfo(info: TokenInfo): TxPreviewSection {
+  return {
+    title: "TokenInfo",
+    fields: [
+      { label: "Symbol", value: info.symbol?.data ?? "" },
+      { label: "Decimals", value: String(info.decimals) },
+      { label: "Flags", value: enumName(CarbonTokenFlags as never, Number(info.flags)) },
+      { label: "Max supply", value: info.maxSupply?.toString() ?? "0" },
+      addressField("Owner", info.owner),
+      bytesField("Metadata size", info.metadata),
+      bytesField("Token schemas size", info.tokenSchemas),
+    ],
+  };
+}
+
+function describeSeriesInfo(tokenId: bigint, info: SeriesInfo): TxPreviewSection {
+  return {
+    title: "SeriesInfo",
+    fields: [
+      { label: "Carbon token ID", value: tokenId.toString() },
+      { label: "Max mint", value: String(info.maxMint) },
+      { label: "Max supply", value: String(info.maxSupply) },
+      addressField("Owner", info.owner),
+      bytesField("Metadata size", info.metadata),
+      { label: "ROM schema", value: schemaFieldNames(info.rom) },
+      { label: "RAM schema", value: schemaFieldNames(info.ram) },
+    ],
+  };
+}
+
+// Args layout matches infuse.ts: to, from, tokenId, count, instance ids.
+function describeTransferNonFungibleArgs(args: Uint8Array): TxPreviewField[] {
+  const r = new CarbonBinaryReader(args);
+  const to = r.read32();
+  const from = r.read32();
+  const tokenId = r.read8u();
+  const count = r.read4u();
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push(r.read8u().toString());
+  }
+  return [
+    { label: "To (NFT address)", value: bytesToHex(to), kind: "hex" },
+    addressField("From", from),
+    { label: "Carbon token ID", value: tokenId.toString() },
+    { label: "Instance IDs", value: ids.join(", ") },
+  ];
+}
+
+function describeCall(call: TxMsgCall, title: string): TxPreviewSection[] {
+  const header: TxPreviewSection = {
+    title,
+    fields: [
+      { label: "Module", value: enumName(ModuleId as never, call.moduleId) },
+      { label: "Method", value: enumName(TokenContract_Methods as never, call.methodId) },
+      bytesField("Args size", call.args),
+    ],
+  };
+  if (call.moduleId !== ModuleId.Token) {
+    return [header];
+  }
+
+  try {
+    switch (call.methodId) {
+      case TokenContract_Methods.CreateToken:
+        return [header, describeTokenInfo(CarbonBlob.NewFromBytes(TokenInfo, call.args, 0))];
+      case TokenContract_Methods.CreateTokenSeries: {
+        const r = new CarbonBinaryReader(call.args);
+        const tokenId = r.read8();
+        return [header, describeSeriesInfo(tokenId, r.readBlob(SeriesInfo))];
+      }
+      case TokenContract_Methods.TransferNonFungible:
+        header.fields.push(...describeTransferNonFungibleArgs(call.args));
+        return [header];
+      default:
+        return [header];
+    }
+  } catch (err: unknown) {
+    header.fields.push({ label: "Args decode error", value: toMessage(err) });
+    return [header];
+  }
+}
+
+function describeMessage(txMsg: TxMsg): TxPreviewSection[] {
+  const msg = txMsg.msg;
+  if (!msg) return [];
+
+  if (msg instanceof TxMsgCall) {
+    return describeCall(msg, "Call");
+  }
+  if (msg instanceof TxMsgCallMulti) {
+    return msg.calls.flatMap((call, index) => describeCall(call, `Call #${index + 1}`));
+  }
+  if (msg instanceof TxMsgMintFungible) {
+    return [
+      {
+        title: "MintFungible",
+        fields: [
+          { label: "Carbon token ID", value: msg.tokenId.toString() },
+          addressField("To", msg.to),
+          { label: "Amount (base units)", value: msg.amount?.toString() ?? "0" },
+        ],
+      },
+    ];
+  }
+  if (msg instanceof TxMsgMintNonFungible) {
+    return [
+      {
+        title: "MintNonFungible",
+        fields: [
+          { label: "Carbon token ID", value: msg.tokenId.toString() },
+          { label: "Carbon series ID", value: String(msg.seriesId) },
+          addressField("To", msg.to),
+          bytesField("ROM size", msg.rom),
+          bytesField("RAM size", msg.ram),
+        ],
+      },
+    ];
+  }
+  if (msg instanceof TxMsgTransferNonFungibleSingle) {
+    return [
+      {
+        title: "TransferNonFungible (single)",
+        fields: [
+          { label: "To", value: bytesToHex(msg.to.bytes), kind: "hex" },
+          { label: "Carbon token ID", value: msg.tokenId.toString() },
+          { label: "Instance ID", value: msg.instanceId.toString() },
+        ],
+      },
+    ];
+  }
+  if (msg instanceof TxMsgTransferNonFungibleMulti) {
+    return [
+      {
+        title: "TransferNonFungible (multi)",
+        fields: [
+          { label: "To", value: bytesToHex(msg.to.bytes), kind: "hex" },
+          { label: "Carbon token ID", value: msg.tokenId.toString() },
+          { label: "Instance IDs", value: msg.instanceIds.map((id) => id.toString()).join(", ") },
+        ],
+      },
+    ];
+  }
+  return [{ title: "Message", fields: [{ label: "Class", value: msg.constructor?.name ?? "unknown" }] }];
+}
+
+export function getTxMsgByteSize(txMsg: TxMsg): number {
+  return CarbonBlob.Serialize(txMsg).length;
+}
+
+export function describeTxMsg(txMsg: TxMsg): TxPreview {
+  const typeName = TxTypes[txMsg.type] ?? String(txMsg.type);
+  const header: TxPreviewSection = {
+    title: "Transaction",
+    fields: [
+      { label: "Type", value: enumName(TxTypes as never, txMsg.type) },
+      addressField("Gas from", txMsg.gasFrom),
+      { label: "Max gas", value: txMsg.maxGas.toString(), kind: "kcal" },
+      { label: "Max data", value: txMsg.maxData.toString(), kind: "soul" },
+      { label: "Expiry", value: txMsg.expiry.toString(), kind: "timestamp" },
+      { label: "Payload", value: txMsg.payload?.data || "(empty)" },
+    ],
+  };
+
+  let byteSize = 0;
+  try {
+    byteSize = getTxMsgByteSize(txMsg);
+  } catch (err: unknown) {
+    header.fields.push({ label: "Serialization error", value: toMessage(err) });
+  }
+
+  return { typeName, byteSize, sections: [header, ...describeMessage(txMsg)] };
+}
@@ -0,0 +1,42 @@
+import { Bytes32, Bytes64, CarbonBlob, SignedTxMsg, TxMsg, Witness } from "phantasma-sdk-ts";
+
+// Phantasma Link refuses Carbon transactions above 64 KB of hex (65,536 chars), i.e. 32 KB of
+// signed binary. The limit applies to the signed blob, so the meter accounts for one witness.
+export const LINK_MAX_TX_HEX_CHARS = 65_536;
+export const LINK_MAX_TX_BYTES = LINK_MAX_TX_HEX_CHARS / 2;
+
+export type TxSizeReport = {
+  unsignedBytes: number;
+  signedBytes: number;
+  limitBytes: number;
+  remainingBytes: number;
+  withinLimit: boolean;
+};
+
+export type TxBuildResult<TExtra = object> =
+  | ({ success: true; txMsg: TxMsg } & TExtra)
+  | { success: false; error: string };
+
+// Keys, gas and data limits are fixed-width fields, so a size-only build can use this key and
+// default fees and still measure exactly what the wallet will be asked to sign.
+export const PLACEHOLDER_SIGNER = new Bytes32();
+
+export function measureTxMsg(txMsg: TxMsg): TxSizeReport {
+  const unsignedBytes = CarbonBlob.Serialize(txMsg).length;
+  // Signatures are fixed-size, so an empty signature serializes to the same length as a real one.
+  // The witness must name the gas payer or SignedTxMsg refuses to serialize.
+  const signed = new SignedTxMsg(txMsg, [new Witness(txMsg.gasFrom, new Bytes64())]);
+  const signedBytes = CarbonBlob.Serialize(signed).length;
+  return {
+    unsignedBytes,
+    signedBytes,
+    limitBytes: LINK_MAX_TX_BYTES,
+    remainingBytes: LINK_MAX_TX_BYTES - signedBytes,
+    withinLimit: signedBytes <= LINK_MAX_TX_BYTES,
+  };
+}
+
+export function formatTxSizeError(report: TxSizeReport): string {
+  const over = report.signedBytes - report.limitBytes;
+  return `Transaction is ${report.signedBytes.toLocaleString()} bytes signed, ${over.toLocaleString()} bytes over the ${report.limitBytes.toLocaleString()} byte (64 KB hex) limit enforced by Phantasma Link. Reduce metadata, ROM or the number of items.`;
+}
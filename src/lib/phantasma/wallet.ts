@@ -1,4 +1,16 @@
-import { Address, EasyConnect } from "phantasma-sdk-ts";
+import { Address, AddressKind, EasyConnect } from "phantasma-sdk-ts";
+
+// Carbon messages carry bare 32-byte public keys; Address.FromPublickKey expects the full
+// 34-byte address form (kind + reserved byte + key), so build it here.
+export function addressFromPublicKey(publicKey: Uint8Array): Address {
+  if (publicKey.length !== 32) {
+    throw new Error(`Expected a 32-byte public key, got ${publicKey.length} bytes`);
+  }
+  const bytes = new Uint8Array(Address.LengthInBytes);
+  bytes[0] = AddressKind.User;
+  bytes.set(publicKey, 2);
+  return Address.FromBytes(bytes);
+}
 
 export function extractPublicKeyBytes(conn: EasyConnect): Uint8Array {
   const addressText = conn?.link?.account?.address;
@@ -0,0 +1,52 @@
+import type { EasyConnect, TxMsg } from "phantasma-sdk-ts";
+
+import { getActiveNetwork } from "./network";
+import { extractPublicKeyBytes } from "./wallet";
+
+// Wallet account and network a transaction was prepared under. Link can switch accounts at any
+// time, so the pipeline compares the session at submission with the one right before signing.
+export type WalletSession = {
+  address: string | null;
+  networkId: string;
+  networkLabel: string;
+};
+
+export function captureWalletSession(conn: EasyConnect | null | undefined): WalletSession {
+  const network = getActiveNetwork();
+  const address = conn?.link?.account?.address;
+  return {
+    address: typeof address === "string" && address ? address : null,
+    networkId: network.id,
+    networkLabel: network.label,
+  };
+}
+
+function shortAddress(address: string | null): string {
+  if (!address) return "no account";
+  return address.length > 14 ? `${address.slice(0, 8)}…${address.slice(-4)}` : address;
+}
+
+// Human-readable description of what changed between two sessions, or null if nothing did.
+export function describeWalletSessionChange(before: WalletSession, after: WalletSession): string | null {
+  if (before.address !== after.address) {
+    return `Wallet account changed from ${shortAddress(before.address)} to ${shortAddress(after.address)}`;
+  }
+  if (before.networkId !== after.networkId) {
+    return `Active network changed from ${before.networkLabel} to ${after.networkLabel}`;
+  }
+  return null;
+}
+
+// True when the tx pays gas from a different key than the connected account; the node would
+// reject the signature.
+export function isTxFromOtherAccount(txMsg: TxMsg, conn: EasyConnect): boolean {
+  let current: Uint8Array;
+  try {
+    current = extractPublicKeyBytes(conn);
+  } catch {
+    return true;
+  }
+  const payer = txMsg.gasFrom?.bytes;
+  if (!payer || payer.length !== current.length) return true;
+  return payer.some((byte, index) => byte !== current[index]);
+}
@@ -1,11 +1,15 @@
 // Aggregator module: keep existing import paths stable.
 export { getTokens, getTokenExtended } from "./phantasma/tokens";
 export {
+  buildDeployTx,
+  type BuildDeployTxParams,
   deployCarbonToken,
   type DeployParams,
   type DeployResult,
 } from "./phantasma/deploy";
 export {
+  buildSeriesTx,
+  type BuildSeriesTxParams,
   createSeries,
   type CreateSeriesParams,
   type CreateSeriesResult,
@@ -13,9 +17,13 @@ export {
   type TokenSeriesListItem,
 } from "./phantasma/series";
 export {
+  buildMintNftTx,
+  type BuildMintNftTxParams,
   mintNft,
   type MintNftParams,
   type MintNftResult,
+  buildMintFungibleTx,
+  type BuildMintFungibleTxParams,
   mintFungible,
   type MintFungibleParams,
   type MintFungibleResult,
@@ -34,9 +42,207 @@ export {
   type ListAccountNftsParams,
 } from "./phantasma/nfts";
 export {
+  buildInfuseTx,
+  type BuildInfuseTxParams,
   infuseNfts,
   type InfuseParams,
   type InfuseResult,
   type InfuseInstanceGroup,
 } from "./phantasma/infuse";
+export {
+  runCarbonTransaction,
+  signWithWallet,
+  type CarbonTxOutcome,
+  type RunCarbonTxParams,
+  type TxLifecycleEvent,
+  type TxLifecycleListener,
+  type TxLifecycleStage,
+  type TxPipelineOptions,
+  type TxActionFailure,
+  type UnconfirmedDecision,
+  resumePendingTransactions,
+  recheckJournalTransaction,
+  broadcastSignedTransaction,
+  type BroadcastSignedTxParams,
+  type BroadcastTxOutcome,
+} from "./phantasma/pipeline";
+export {
+  listTxJournal,
+  removeTxJournalEntry,
+  clearTxJournal,
+  subscribeTxJournal,
+  type TxJournalEntry,
+  type TxJournalFilter,
+  type TxJournalOperation,
+  type TxJournalStatus,
+} from "./phantasma/txJournal";
+export {
+  describeTxMsg,
+  getTxMsgByteSize,
+  type TxPreview,
+  type TxPreviewField,
+  type TxPreviewSection,
+} from "./phantasma/txPreview";
+export {
+  LINK_MAX_TX_BYTES,
+  LINK_MAX_TX_HEX_CHARS,
+  PLACEHOLDER_SIGNER,
+  measureTxMsg,
+  formatTxSizeError,
+  type TxBuildResult,
+  type TxSizeReport,
+} from "./phantasma/txSize";
+export {
+  createUnsignedTxExport,
+  serializeTxMsgHex,
+  parseSignedTx,
+  inferTxOperation,
+  UNSIGNED_TX_EXPORT_FORMAT,
+  type UnsignedTxExport,
+  type ParsedSignedTx,
+  type ParseSignedTxResult,
+  type SignedTxWitnessInfo,
+} from "./phantasma/txExport";
+export {
+  TX_EXPIRY_PRESETS,
+  DEFAULT_TX_EXPIRY_PRESET,
+  DEFAULT_TX_EXPIRY_MS,
+  CLOCK_SKEW_WARN_MS,
+  computeTxExpiry,
+  isTxExpiryPassed,
+  formatTxExpiry,
+  parseCustomExpiryMinutes,
+  fetchChainClockLeadMs,
+  type TxExpiryPresetId,
+} from "./phantasma/txExpiry";
+export {
+  getFeeBalances,
+  evaluateFeePreflight,
+  formatFeePreflightIssue,
+  type FeeBalances,
+  type FeeRequirement,
+  type FeePreflightIssue,
+  type FeePreflightReport,
+} from "./phantasma/balances";
+export {
+  inspectTransaction,
+  type TxInspection,
+  type TxDecodedResult,
+  type TxAffectedToken,
+  type TxAffectedSeries,
+  type TxAffectedNft,
+  type InspectTransactionResult,
+} from "./phantasma/txInspect";
+export {
+  TX_ERROR_KIND_LABELS,
+  classifyTxError,
+  createTxError,
+  isTxErrorInfo,
+  type TxErrorInfo,
+  type TxErrorKind,
+} from "./phantasma/errors";
+export {
+  BUILT_IN_NETWORKS,
+  DEFAULT_NETWORK,
+  getActiveNetwork,
+  setActiveNetwork,
+  listNetworkProfiles,
+  addCustomNetwork,
+  removeCustomNetwork,
+  subscribeNetwork,
+  isMainnetProfile,
+  isSandboxProfile,
+  SANDBOX_NETWORK,
+  EXPLORER_PLACEHOLDERS,
+  phantasmaExplorerTemplates,
+  setExplorerTemplates,
+  validateExplorerTemplates,
+  type ExplorerTemplates,
+  type SetExplorerResult,
+  networkEndpoints,
+  splitRpcUrls,
+  type NetworkProfile,
+  type AddNetworkResult,
+} from "./phantasma/network";
+export {
+  explorerUrl,
+  explorerTxUrl,
+  explorerAddressUrl,
+  explorerTokenUrl,
+  explorerNftUrl,
+  type ExplorerLinkKind,
+} from "./phantasma/explorer";
+export { cachedQuery, invalidateQueries, clearQueryCache, subscribeQuery, queryKeys, type QueryOptions } from "./phantasma/queryCache";
+export {
+  queryTokenExtended,
+  queryTokenSeries,
+  queryTokenNfts,
+  queryAccountTokens,
+  queryAccountOwnedTokens,
+  queryAccountOwnedSeries,
+  queryAccountNfts,
+} from "./phantasma/queries";
+export {
+  RPC_HEALTH_INTERVAL_MS,
+  checkNetworkHealth,
+  startRpcHealthMonitor,
+  getRpcHealthSnapshot,
+  subscribeRpcHealth,
+  getServingEndpoint,
+  type RpcEndpointHealth,
+  type RpcEndpointStatus,
+  type RpcHealthSnapshot,
+} from "./phantasma/rpcHealth";
+export { createSandboxApi, getSandboxConnection, SANDBOX_WALLET_ADDRESS } from "./phantasma/sandbox";
+export {
+  deleteFormDraft,
+  formDraftKey,
+  listFormDrafts,
+  loadFormDraft,
+  saveFormDraft,
+  subscribeFormDrafts,
+  type FormDraft,
+  type FormDraftScope,
+} from "./phantasma/formDrafts";
+export { checkSymbolAvailability, type SymbolAvailability } from "./phantasma/symbolAvailability";
+export {
+  TOKEN_DEPLOY_SPEC_FORMAT,
+  TOKEN_DEPLOY_SPEC_VERSION,
+  parseTokenDeploySpec,
+  serializeTokenDeploySpec,
+  validateTokenDeploySpec,
+  type ParseTokenDeploySpecResult,
+  type TokenDeploySpec,
+  type TokenDeploySpecSchemas,
+} from "./phantasma/deploySpec";
+export {
+  loadDevSigner,
+  clearDevSigner,
+  getDevSignerAddress,
+  getDevSignerConnection,
+  subscribeDevSigner,
+  type LoadDevSignerResult,
+} from "./phantasma/devSigner";
+export {
+  COLLECTION_LAUNCH_SPEC_FORMAT,
+  COLLECTION_LAUNCH_SPEC_VERSION,
+  parseCollectionLaunchSpec,
+  createLaunchPlan,
+  listLaunchPlans,
+  removeLaunchPlan,
+  runLaunchPlan,
+  isLaunchPlanRunning,
+  subscribeLaunchPlans,
+  type CollectionLaunchSpec,
+  type LaunchPlan,
+  type LaunchStep,
+  type LaunchStepStatus,
+} from "./phantasma/launchPlan";
+export {
+  DEFAULT_SERIES_MAX_DATA,
+  SERIES_FEE_DEFAULTS,
+  DEFAULT_NFT_MAX_DATA,
+  NFT_FEE_DEFAULTS,
+} from "./phantasma/feeDefaults";
+export { importTokenSchemas, type TokenSchemasFromRpcResult } from "./phantasma/schemaImport";
 // No other exports here on purpose, prefer importing from above modules if needed.